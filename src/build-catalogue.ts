@@ -0,0 +1,23 @@
+import { recipeCatalogue } from './services/recipe-catalogue.js';
+import { config } from './utils/config.js';
+import { logger } from './utils/logger.js';
+
+export const BUILD_CATALOGUE_COMMAND = 'build-catalogue';
+
+// `conan-package-readme-mcp-server build-catalogue [--full]` refreshes the on-disk catalogue index,
+// e.g. from cron, without the request budget the server indexes in the background with.
+// --full reads every recipe again. Progress is kept when the source rate limits the build.
+export async function buildCatalogue(args: string[]): Promise<void> {
+  const full = args.includes('--full');
+  const startedAt = Date.now();
+
+  logger.info(`${full ? 'Rebuilding' : 'Refreshing'} recipe catalogue index in ${config.catalogueDir}`);
+
+  const index = await recipeCatalogue.rebuild(full);
+  const unreadable = index.entries.filter(entry => entry.latest_version === undefined).length;
+
+  logger.info(
+    `Catalogue index of ${index.source} holds ${index.recipe_count} recipes` +
+    `${unreadable > 0 ? ` (${unreadable} without metadata yet)` : ''}, built in ${Math.round((Date.now() - startedAt) / 1000)}s`
+  );
+}
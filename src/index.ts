@@ -1,9 +1,15 @@
 #!/usr/bin/env node
 
 import { ConanPackageReadmeMcpServer } from './server.js';
+import { BUILD_CATALOGUE_COMMAND, buildCatalogue } from './build-catalogue.js';
 import { logger } from './utils/logger.js';
 
 async function main(): Promise<void> {
+  if (process.argv[2] === BUILD_CATALOGUE_COMMAND) {
+    await buildCatalogue(process.argv.slice(3));
+    return;
+  }
+
   const server = new ConanPackageReadmeMcpServer();
   
   // Handle process signals
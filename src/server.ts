@@ -2,12 +2,18 @@ import { BasePackageServer, ToolDefinition } from '@elchika-inc/package-readme-s
 import { getPackageReadme } from './tools/get-package-readme.js';
 import { getPackageInfo } from './tools/get-package-info.js';
 import { searchPackages } from './tools/search-packages.js';
+import { getDependencyTree } from './tools/get-dependency-tree.js';
+import { getReverseDependencies } from './tools/get-reverse-dependencies.js';
+import { getRecipeHistory } from './tools/get-recipe-history.js';
 import {
   GetPackageReadmeParams,
   GetPackageInfoParams,
+  GetDependencyTreeParams,
+  GetReverseDependenciesParams,
+  GetRecipeHistoryParams,
   SearchPackagesParams,
 } from './types/index.js';
-import { validatePackageName, validateSearchQuery, validateLimit } from './utils/validators.js';
+import { validatePackageName, validateSearchQuery, validateLimit, validateOffset, validateConanVersion, validateMaxDepth, validateStringList, validatePackageTypes, CONAN_PACKAGE_TYPES } from './utils/validators.js';
 
 const TOOL_DEFINITIONS: Record<string, ToolDefinition> = {
   get_readme_from_conan: {
@@ -22,13 +28,19 @@ const TOOL_DEFINITIONS: Record<string, ToolDefinition> = {
         },
         version: {
           type: 'string',
-          description: 'The version of the package (default: "latest")',
+          description: 'The version of the package: an exact version, a Conan version range like "[>=1.2 <2]", or a shortcut like "1.2" for the newest 1.2.x (default: "latest")',
           default: 'latest',
         },
         include_examples: {
           type: 'boolean',
           description: 'Whether to include usage examples (default: true)',
           default: true,
+        },
+        conan_version: {
+          type: 'number',
+          description: 'Conan client major version to write installation snippets for (default: 2)',
+          enum: [1, 2],
+          default: 2,
         }
       },
       required: ['package_name'],
@@ -44,6 +56,11 @@ const TOOL_DEFINITIONS: Record<string, ToolDefinition> = {
           type: 'string',
           description: 'The name of the Conan package',
         },
+        version: {
+          type: 'string',
+          description: 'The version to describe: an exact version, a Conan version range, or a shortcut like "1.2" (default: "latest")',
+          default: 'latest',
+        },
         include_dependencies: {
           type: 'boolean',
           description: 'Whether to include dependencies (default: true)',
@@ -53,6 +70,134 @@ const TOOL_DEFINITIONS: Record<string, ToolDefinition> = {
           type: 'boolean',
           description: 'Whether to include package options (default: false)',
           default: false,
+        },
+        include_sources: {
+          type: 'boolean',
+          description: 'Whether to include upstream sources, checksums and patches from conandata.yml (default: false)',
+          default: false,
+        },
+        include_components: {
+          type: 'boolean',
+          description: 'Whether to include package components with their CMake targets, pkg-config names and requires (default: false)',
+          default: false,
+        },
+        include_revisions: {
+          type: 'boolean',
+          description: 'Whether to include the recipe revisions of the version and the recipe creation and last change dates; costs extra requests (default: false)',
+          default: false,
+        }
+      },
+      required: ['package_name'],
+    },
+  },
+  get_dependency_tree_from_conan: {
+    name: 'get_dependency_tree_from_conan',
+    description: 'Get the transitive dependency graph of a Conan Center package, with cycles and version conflicts',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        package_name: {
+          type: 'string',
+          description: 'The name of the Conan package',
+        },
+        version: {
+          type: 'string',
+          description: 'The version to resolve: an exact version, a Conan version range, or a shortcut like "1.2" (default: "latest")',
+          default: 'latest',
+        },
+        include_tool_requires: {
+          type: 'boolean',
+          description: 'Whether to follow tool_requires, which are only needed when building from source (default: false)',
+          default: false,
+        },
+        include_test_requires: {
+          type: 'boolean',
+          description: 'Whether to include the test_requires of the requested package (default: false)',
+          default: false,
+        },
+        max_depth: {
+          type: 'number',
+          description: 'Maximum depth to expand (default: 10)',
+          default: 10,
+          minimum: 1,
+          maximum: 20,
+        },
+        include_mermaid: {
+          type: 'boolean',
+          description: 'Whether to render the graph as a Mermaid flowchart (default: false)',
+          default: false,
+        },
+        include_dot: {
+          type: 'boolean',
+          description: 'Whether to render the graph in Graphviz DOT format (default: false)',
+          default: false,
+        }
+      },
+      required: ['package_name'],
+    },
+  },
+  get_reverse_dependencies_from_conan: {
+    name: 'get_reverse_dependencies_from_conan',
+    description: 'List the Conan Center recipes that require a package, with their version constraints. ' +
+      'Only recipes the catalogue has already read are covered; the response has complete: false and a warning until all are read',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        package_name: {
+          type: 'string',
+          description: 'The name of the required Conan package',
+        },
+        version: {
+          type: 'string',
+          description: 'Only list recipes whose version constraint admits this exact version (optional)',
+        },
+        include_tool_requires: {
+          type: 'boolean',
+          description: 'Whether to include recipes that use the package as a tool_requires (default: true)',
+          default: true,
+        },
+        include_test_requires: {
+          type: 'boolean',
+          description: 'Whether to include recipes that only use the package in test_requires (default: false)',
+          default: false,
+        },
+        refresh: {
+          type: 'boolean',
+          description: 'Whether to list the recipes again before answering; changed recipes are then read in the background (default: false)',
+          default: false,
+        }
+      },
+      required: ['package_name'],
+    },
+  },
+  get_recipe_history_from_conan: {
+    name: 'get_recipe_history_from_conan',
+    description: 'List the conan-center-index commits that changed a recipe, with date, author, message and pull request number',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        package_name: {
+          type: 'string',
+          description: 'The name of the Conan package',
+        },
+        folder: {
+          type: 'string',
+          description: 'Only list commits touching this recipe folder, e.g. "all" (optional)',
+        },
+        since: {
+          type: 'string',
+          description: 'Only list commits made at or after this ISO 8601 date or timestamp (optional)',
+        },
+        until: {
+          type: 'string',
+          description: 'Only list commits made at or before this ISO 8601 date or timestamp (optional)',
+        },
+        limit: {
+          type: 'number',
+          description: 'Maximum number of commits to return, newest first (default: 20)',
+          default: 20,
+          minimum: 1,
+          maximum: 100,
         }
       },
       required: ['package_name'],
@@ -60,13 +205,15 @@ const TOOL_DEFINITIONS: Record<string, ToolDefinition> = {
   },
   search_packages_from_conan: {
     name: 'search_packages_from_conan',
-    description: 'Search for packages in Conan Center',
+    description: 'Search for packages in Conan Center. Descriptions, topics and licenses come from a catalogue that is read in the background ' +
+      'within an hourly request budget; until a recipe has been read it matches by name only, and the catalogue field reports how many have been. ' +
+      'Set GITHUB_TOKEN for a larger budget, or run the build-catalogue command to read every recipe up front',
     inputSchema: {
       type: 'object',
       properties: {
         query: {
           type: 'string',
-          description: 'The search query',
+          description: 'The search query, matched against package names (tolerating small typos), topics and descriptions; best matches come first',
         },
         limit: {
           type: 'number',
@@ -74,6 +221,39 @@ const TOOL_DEFINITIONS: Record<string, ToolDefinition> = {
           default: 20,
           minimum: 1,
           maximum: 100,
+        },
+        offset: {
+          type: 'number',
+          description: 'Number of matches to skip, for paging through results (default: 0); ignored with a cursor',
+          minimum: 0,
+        },
+        cursor: {
+          type: 'string',
+          description: 'The next_cursor of a previous response with the same query and filters, to get the following page; replaces offset (optional)',
+        },
+        license: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Only packages under any of these SPDX license ids, e.g. ["MIT", "BSL-1.0"] (optional)',
+        },
+        topics: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Only packages tagged with all of these topics, e.g. ["json"] (optional)',
+        },
+        package_type: {
+          type: 'array',
+          items: { type: 'string', enum: CONAN_PACKAGE_TYPES },
+          description: 'Only packages of any of these Conan package types, e.g. ["header-library"] (optional)',
+        },
+        updated_since: {
+          type: 'string',
+          description: 'Only packages whose recipe changed at or after this ISO 8601 date, e.g. "2024-01-31" (optional)',
+        },
+        exclude_deprecated: {
+          type: 'boolean',
+          description: 'Whether to leave out deprecated packages (default: false)',
+          default: false,
         }
       },
       required: ['query'],
@@ -102,6 +282,15 @@ export class ConanPackageReadmeMcpServer extends BasePackageServer {
         case 'get_package_info_from_conan':
           return await getPackageInfo(this.validateGetPackageInfoParams(args));
         
+        case 'get_dependency_tree_from_conan':
+          return await getDependencyTree(this.validateGetDependencyTreeParams(args));
+        
+        case 'get_reverse_dependencies_from_conan':
+          return await getReverseDependencies(this.validateGetReverseDependenciesParams(args));
+        
+        case 'get_recipe_history_from_conan':
+          return await getRecipeHistory(this.validateGetRecipeHistoryParams(args));
+        
         case 'search_packages_from_conan':
           return await searchPackages(this.validateSearchPackagesParams(args));
         
@@ -132,6 +321,7 @@ export class ConanPackageReadmeMcpServer extends BasePackageServer {
       package_name: params.package_name,
       version: typeof params.version === 'string' ? params.version : 'latest',
       include_examples: typeof params.include_examples === 'boolean' ? params.include_examples : true,
+      conan_version: validateConanVersion(params.conan_version) ?? 2,
     };
   }
 
@@ -151,8 +341,85 @@ export class ConanPackageReadmeMcpServer extends BasePackageServer {
 
     return {
       package_name: params.package_name,
+      version: typeof params.version === 'string' ? params.version : 'latest',
       include_dependencies: typeof params.include_dependencies === 'boolean' ? params.include_dependencies : true,
       include_options: typeof params.include_options === 'boolean' ? params.include_options : false,
+      include_sources: typeof params.include_sources === 'boolean' ? params.include_sources : false,
+      include_components: typeof params.include_components === 'boolean' ? params.include_components : false,
+      include_revisions: typeof params.include_revisions === 'boolean' ? params.include_revisions : false,
+    };
+  }
+
+
+  private validateGetDependencyTreeParams(args: unknown): GetDependencyTreeParams {
+    if (!args || typeof args !== 'object' || args === null) {
+      throw new Error('Invalid parameters: expected object');
+    }
+
+    const params = args as Record<string, unknown>;
+    
+    if (typeof params.package_name !== 'string') {
+      throw new Error('package_name is required and must be a string');
+    }
+
+    validatePackageName(params.package_name);
+
+    return {
+      package_name: params.package_name,
+      version: typeof params.version === 'string' ? params.version : 'latest',
+      include_tool_requires: typeof params.include_tool_requires === 'boolean' ? params.include_tool_requires : false,
+      include_test_requires: typeof params.include_test_requires === 'boolean' ? params.include_test_requires : false,
+      max_depth: validateMaxDepth(params.max_depth),
+      include_mermaid: typeof params.include_mermaid === 'boolean' ? params.include_mermaid : false,
+      include_dot: typeof params.include_dot === 'boolean' ? params.include_dot : false,
+    };
+  }
+
+
+  private validateGetReverseDependenciesParams(args: unknown): GetReverseDependenciesParams {
+    if (!args || typeof args !== 'object' || args === null) {
+      throw new Error('Invalid parameters: expected object');
+    }
+
+    const params = args as Record<string, unknown>;
+    
+    if (typeof params.package_name !== 'string') {
+      throw new Error('package_name is required and must be a string');
+    }
+
+    validatePackageName(params.package_name);
+
+    return {
+      package_name: params.package_name,
+      ...(typeof params.version === 'string' && { version: params.version }),
+      include_tool_requires: typeof params.include_tool_requires === 'boolean' ? params.include_tool_requires : true,
+      include_test_requires: typeof params.include_test_requires === 'boolean' ? params.include_test_requires : false,
+      refresh: typeof params.refresh === 'boolean' ? params.refresh : false,
+    };
+  }
+
+  private validateGetRecipeHistoryParams(args: unknown): GetRecipeHistoryParams {
+    if (!args || typeof args !== 'object' || args === null) {
+      throw new Error('Invalid parameters: expected object');
+    }
+
+    const params = args as Record<string, unknown>;
+    
+    if (typeof params.package_name !== 'string') {
+      throw new Error('package_name is required and must be a string');
+    }
+
+    validatePackageName(params.package_name);
+
+    const limit = typeof params.limit === 'number' ? params.limit : 20;
+    validateLimit(limit);
+
+    return {
+      package_name: params.package_name,
+      ...(typeof params.folder === 'string' && { folder: params.folder }),
+      ...(typeof params.since === 'string' && { since: params.since }),
+      ...(typeof params.until === 'string' && { until: params.until }),
+      limit,
     };
   }
 
@@ -176,6 +443,13 @@ export class ConanPackageReadmeMcpServer extends BasePackageServer {
     return {
       query: params.query,
       limit,
+      ...(params.offset !== undefined && { offset: validateOffset(params.offset) }),
+      ...(typeof params.cursor === 'string' && { cursor: params.cursor }),
+      ...(params.license !== undefined && { license: validateStringList(params.license, 'license') }),
+      ...(params.topics !== undefined && { topics: validateStringList(params.topics, 'topics') }),
+      ...(params.package_type !== undefined && { package_type: validatePackageTypes(params.package_type) }),
+      ...(typeof params.updated_since === 'string' && { updated_since: params.updated_since }),
+      ...(typeof params.exclude_deprecated === 'boolean' && { exclude_deprecated: params.exclude_deprecated }),
     };
   }
 
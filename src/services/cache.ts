@@ -165,19 +165,29 @@ export class MemoryCache {
 
 // Create cache key helpers
 export const createCacheKey = {
-  packageInfo: (packageName: string, version: string): string => 
-    `pkg_info:${packageName}:${version}`,
+  packageInfo: (packageName: string, version: string, sections: string = ''): string => 
+    `pkg_info:${packageName}:${version}${sections ? `:${sections}` : ''}`,
   
-  packageReadme: (packageName: string, version: string): string => 
-    `pkg_readme:${packageName}:${version}`,
+  packageReadme: (packageName: string, version: string, conanVersion: number = 2): string => 
+    `pkg_readme:${packageName}:${version}:conan${conanVersion}`,
   
-  searchResults: (query: string, limit: number): string => {
+  searchResults: (query: string, limit: number, filters: string = '', offset: number = 0): string => {
     const queryHash = Buffer.from(query).toString('base64');
-    return `search:${queryHash}:${limit}`;
+    const page = offset > 0 ? `@${offset}` : '';
+    return `search:${queryHash}:${limit}${page}${filters ? `:${Buffer.from(filters).toString('base64')}` : ''}`;
   },
   
   recipeDetails: (packageName: string, version: string): string => 
     `recipe:${packageName}:${version}`,
+
+  recipeInfo: (packageName: string): string => 
+    `recipe_info:${packageName}`,
+
+  dependencyTree: (packageName: string, version: string, sections: string = ''): string => 
+    `dep_tree:${packageName}:${version}${sections ? `:${sections}` : ''}`,
+
+  recipeHistory: (packageName: string, folder: string = '', since: string = '', until: string = '', limit: number = 20): string => 
+    `recipe_history:${packageName}:${folder}:${since}:${until}:${limit}`,
 };
 
 // Global cache instance
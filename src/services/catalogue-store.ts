@@ -0,0 +1,48 @@
+import { mkdir, readFile, rename, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { logger } from '../utils/logger.js';
+import type { PersistedRecipeCatalogue, RecipeCatalogueIndex } from '../types/index.js';
+
+const CATALOGUE_FORMAT_VERSION = 3;
+
+// Persists catalogue indexes as one JSON file per recipe source
+export class CatalogueStore {
+  constructor(private readonly directory: string) {}
+
+  getPath(source: string): string {
+    return join(this.directory, `catalogue-${source.replace(/[^\w.+-]/g, '_')}.json`);
+  }
+
+  // null when there is no usable index for the source yet
+  async load(source: string): Promise<RecipeCatalogueIndex | null> {
+    const path = this.getPath(source);
+
+    let persisted: PersistedRecipeCatalogue;
+    try {
+      persisted = JSON.parse(await readFile(path, 'utf-8')) as PersistedRecipeCatalogue;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        logger.warn(`Ignoring unreadable catalogue index ${path}:`, error);
+      }
+      return null;
+    }
+
+    if (persisted.format_version !== CATALOGUE_FORMAT_VERSION || persisted.source !== source || !Array.isArray(persisted.entries)) {
+      logger.info(`Ignoring catalogue index ${path} written for another format or source`);
+      return null;
+    }
+
+    const { format_version: _formatVersion, ...index } = persisted;
+    return index;
+  }
+
+  async save(index: RecipeCatalogueIndex): Promise<void> {
+    const path = this.getPath(index.source);
+    const persisted: PersistedRecipeCatalogue = { format_version: CATALOGUE_FORMAT_VERSION, ...index };
+
+    // Write then rename, so a crash never leaves a truncated index behind
+    await mkdir(this.directory, { recursive: true });
+    await writeFile(`${path}.tmp`, JSON.stringify(persisted), 'utf-8');
+    await rename(`${path}.tmp`, path);
+  }
+}
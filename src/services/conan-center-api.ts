@@ -1,119 +1,121 @@
 import { logger } from '../utils/logger.js';
 import { handleApiError } from '../utils/error-handler.js';
-import type { ConanCenterSearchResponse, ConanCenterRecipeResponse, ConanRecipeDetails } from '../types/index.js';
+import { getLatestVersion, sortVersions } from '../utils/version.js';
+import { compareSearchResults, scorePackage } from '../utils/search-score.js';
+import { conanfileParser } from './conanfile-parser.js';
+import { recipeYamlParser } from './recipe-yaml-parser.js';
+import { recipeSource } from './recipe-source.js';
+import { RecipeCatalogue, recipeCatalogue } from './recipe-catalogue.js';
+import type { ConanCenterPackage, ConanCenterSearchResponse, ConanCenterRecipeResponse, ConanRecipeDetails, ConanData, RecipeFile, RecipeHistory, RecipeSource, RecipeCatalogueEntry, SearchFilters } from '../types/index.js';
 
-const CONAN_CENTER_INDEX_REPO = 'https://api.github.com/repos/conan-io/conan-center-index';
-const REQUEST_TIMEOUT = 10000; // 10 seconds
+const TEST_PACKAGE_FILE_REGEX = /^(?:CMakeLists\.txt|conanfile\.py|.+\.(?:c|cc|cpp|cxx))$/;
+const MAX_TEST_PACKAGE_FILES = 5;
 
+// Answers package questions from whichever recipe source is configured
 export class ConanCenterApi {
-  private async fetchWithTimeout(url: string, options: RequestInit = {}): Promise<Response> {
-    const controller = new AbortController();
-    const timeout = setTimeout(() => controller.abort(), REQUEST_TIMEOUT);
+  constructor(
+    private readonly source: RecipeSource = recipeSource,
+    private readonly catalogue: RecipeCatalogue = new RecipeCatalogue(source)
+  ) {}
 
+  async searchPackages(query: string, limit: number = 20, filters: SearchFilters = {}, offset: number = 0): Promise<ConanCenterSearchResponse> {
     try {
-      const response = await fetch(url, {
-        ...options,
-        signal: controller.signal,
-        headers: {
-          'User-Agent': 'conan-package-readme-mcp-server/1.0.0',
-          'Accept': 'application/json',
-          ...options.headers,
-        },
-      });
-
-      clearTimeout(timeout);
-      return response;
-    } catch (error) {
-      clearTimeout(timeout);
-      throw error;
-    }
-  }
-
-  async searchPackages(query: string, limit: number = 20): Promise<ConanCenterSearchResponse> {
-    try {
-      // Search for recipe folders in the conan-center-index repository
-      const searchUrl = new URL(`${CONAN_CENTER_INDEX_REPO}/contents/recipes`);
-      
-      logger.debug(`Searching packages in Conan Center Index: ${searchUrl.toString()}`);
+      // Metadata comes from the catalogue index, so a search costs no per-package requests;
+      // recipes the catalogue has not read yet match by name only
+      const { entries, recipe_count } = await this.catalogue.getIndex();
 
-      const response = await this.fetchWithTimeout(searchUrl.toString());
+      // Best matches first; typos and partial names still match with a lower score
+      const matches = entries
+        .filter(entry => this.matchesFilters(entry, filters))
+        .map(entry => ({ entry, name: entry.name, score: scorePackage(query, entry) }))
+        .filter(match => match.score > 0)
+        .sort(compareSearchResults);
 
-      if (!response.ok) {
-        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
-      }
-
-      const recipeFolders = await response.json() as Array<{name: string, type: string}>;
-      
-      // Filter folders that match the query (case-insensitive)
-      const matchingRecipes = recipeFolders
-        .filter(folder => folder.type === 'dir' && 
-                folder.name.toLowerCase().includes(query.toLowerCase()))
-        .slice(0, limit)
-        .map(folder => ({
-          name: folder.name,
-          description: `Conan package for ${folder.name}`,
-          topics: [],
-          license: 'Unknown',
-          author: 'Conan Center',
-          homepage: '',
-          created_at: new Date().toISOString(),
-          updated_at: new Date().toISOString(),
-          latest_version: 'unknown'
+      const matchingRecipes: ConanCenterPackage[] = matches
+        .slice(offset, offset + limit)
+        .map(({ entry, score }) => ({
+          name: entry.name,
+          ...(entry.description && { description: entry.description }),
+          topics: entry.topics,
+          ...(entry.license && { license: entry.license }),
+          ...(entry.homepage && { homepage: entry.homepage }),
+          ...(entry.updated_at && { updated_at: entry.updated_at }),
+          ...(entry.latest_version && { latest_version: entry.latest_version }),
+          ...(entry.package_type && { package_type: entry.package_type }),
+          deprecated: entry.deprecated,
+          remote: entry.remote,
+          score,
         }));
 
       const result: ConanCenterSearchResponse = {
         results: matchingRecipes,
-        total_count: matchingRecipes.length
+        total_count: matches.length,
+        catalogue: {
+          recipe_count,
+          indexed_count: entries.filter(entry => entry.latest_version !== undefined).length,
+        },
       };
 
-      logger.debug(`Found ${matchingRecipes.length} packages for query: ${query}`);
+      logger.debug(`Found ${matches.length} packages for query: ${query}, returning ${matchingRecipes.length} from offset ${offset}`);
       return result;
     } catch (error) {
       handleApiError(error, 'Conan Center search');
     }
   }
 
+  // Recipes without the metadata a filter asks about never match it
+  private matchesFilters(entry: RecipeCatalogueEntry, filters: SearchFilters): boolean {
+    const lowerCase = (values: string[]): string[] => values.map(value => value.toLowerCase());
+
+    if (filters.license && filters.license.length > 0) {
+      // License expressions like "MIT, BSD-3-Clause" or "Apache-2.0 WITH LLVM-exception"
+      const licenses = lowerCase((entry.license ?? '').split(/[\s,()]+/));
+      if (!lowerCase(filters.license).some(license => licenses.includes(license))) {
+        return false;
+      }
+    }
+
+    if (filters.topics && filters.topics.length > 0) {
+      const topics = lowerCase(entry.topics);
+      if (!lowerCase(filters.topics).every(topic => topics.includes(topic))) {
+        return false;
+      }
+    }
+
+    if (filters.package_type && filters.package_type.length > 0) {
+      if (!entry.package_type || !lowerCase(filters.package_type).includes(entry.package_type.toLowerCase())) {
+        return false;
+      }
+    }
+
+    if (filters.updated_since) {
+      if (!entry.updated_at || Date.parse(entry.updated_at) < Date.parse(filters.updated_since)) {
+        return false;
+      }
+    }
+
+    return !(filters.exclude_deprecated && entry.deprecated);
+  }
+
   async getRecipeInfo(packageName: string): Promise<ConanCenterRecipeResponse> {
     try {
-      // Get the recipe folder contents from GitHub
-      const recipeUrl = `${CONAN_CENTER_INDEX_REPO}/contents/recipes/${encodeURIComponent(packageName)}`;
-      
-      logger.debug(`Fetching recipe info: ${recipeUrl}`);
+      // config.yml maps every published version to the recipe folder that builds it
+      logger.debug(`Fetching recipe config for: ${packageName}`);
 
-      const response = await this.fetchWithTimeout(recipeUrl);
+      const config = await this.source.getRecipeConfig(packageName);
 
-      if (response.status === 404) {
+      if (config === null) {
         throw new Error(`Package '${packageName}' not found`);
       }
 
-      if (!response.ok) {
-        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
-      }
-
-      const folderContents = await response.json() as Array<{name: string, type: string}>;
+      const versionNames = Object.keys(config.versions);
       
-      // Get available versions (folder names that look like versions)
-      const versionFolders = folderContents
-        .filter(item => item.type === 'dir')
-        .map(item => item.name)
-        .filter(name => /^\d+\.\d+/.test(name)); // Basic version pattern
-      
-      // Sort versions to get the latest
-      const sortedVersions = versionFolders.sort((a, b) => {
-        // Simple version comparison - this could be improved
-        const aNum = parseFloat(a.split('.')[0] + '.' + a.split('.')[1]);
-        const bNum = parseFloat(b.split('.')[0] + '.' + b.split('.')[1]);
-        return bNum - aNum;
-      });
-
-      const latestVersion = sortedVersions[0] || 'unknown';
+      const latestVersion = getLatestVersion(versionNames) || 'unknown';
       
       // Build version map
-      const versions: {[key: string]: {revisions: any[]}} = {};
-      versionFolders.forEach(version => {
-        versions[version] = { 
-          revisions: [{ id: 'latest', timestamp: new Date().toISOString() }] 
-        };
+      const versions: ConanCenterRecipeResponse['versions'] = {};
+      versionNames.forEach(version => {
+        versions[version] = { folder: config.versions[version].folder };
       });
 
       const data: ConanCenterRecipeResponse = {
@@ -125,49 +127,121 @@ export class ConanCenterApi {
         author: 'Conan Center',
         homepage: '',
         topics: [],
-        created_at: new Date().toISOString(),
-        updated_at: new Date().toISOString()
+        remote: config.remote
       };
 
-      logger.debug(`Fetched recipe info for: ${packageName}`);
+      logger.debug(`Fetched recipe info for: ${packageName} from ${config.remote}`);
       return data;
     } catch (error) {
       handleApiError(error, `Conan Center recipe for ${packageName}`);
     }
   }
 
-  async getRecipeDetails(packageName: string, version: string): Promise<ConanRecipeDetails | null> {
+  // Revisions and package dates are a few extra requests, so they are only fetched on demand
+  async getRecipeHistory(recipeInfo: ConanCenterRecipeResponse): Promise<RecipeHistory | null> {
     try {
-      const recipeInfo = await this.getRecipeInfo(packageName);
+      return await this.source.getRecipeHistory(recipeInfo.name, { versions: recipeInfo.versions });
+    } catch (error) {
+      logger.debug(`Failed to get recipe history for ${recipeInfo.name}:`, error);
+      return null;
+    }
+  }
+
+  // Callers that already hold the recipe info pass it on, so config.yml is not fetched again
+  // Null when the version or its conanfile does not exist; read failures are thrown so callers can tell them apart
+  async getRecipeDetails(packageName: string, version: string, knownRecipeInfo?: ConanCenterRecipeResponse): Promise<ConanRecipeDetails | null> {
+    const recipeInfo = knownRecipeInfo ?? await this.getRecipeInfo(packageName);
+    
+    const versionInfo = recipeInfo.versions[version];
+    if (!versionInfo) {
+      return null; // Version not found
+    }
+
+    const conanfile = await this.source.readRecipeFile(packageName, versionInfo.folder, 'conanfile.py');
+
+    if (!conanfile) {
+      logger.debug(`conanfile.py not found for ${packageName}@${version}`);
+      return null;
+    }
+
+    const parsed = conanfileParser.parse(conanfile, version);
+
+    const details: ConanRecipeDetails = {
+      name: recipeInfo.name,
+      version: version,
+      description: parsed.description || recipeInfo.description,
+      license: parsed.license || recipeInfo.license,
+      author: parsed.author || recipeInfo.author,
+      homepage: parsed.homepage || recipeInfo.homepage,
+      url: parsed.url,
+      topics: parsed.topics.length > 0 ? parsed.topics : recipeInfo.topics,
+      requires: parsed.requires,
+      tool_requires: parsed.tool_requires,
+      test_requires: parsed.test_requires,
+      requirements: parsed.requirements,
+      options: parsed.options,
+      default_options: parsed.default_options,
+      generators: parsed.generators,
+      settings: parsed.settings,
+      package_info: parsed.package_info,
+    };
+
+    return details;
+  }
+
+  async getConanData(packageName: string, version: string, knownRecipeInfo?: ConanCenterRecipeResponse): Promise<ConanData | null> {
+    try {
+      const recipeInfo = knownRecipeInfo ?? await this.getRecipeInfo(packageName);
       
-      if (!recipeInfo.versions[version]) {
+      const versionInfo = recipeInfo.versions[version];
+      if (!versionInfo) {
         return null; // Version not found
       }
 
-      // For detailed recipe information, we'd typically need to fetch the conanfile.py
-      // This is a simplified version based on available API data
-      const details: ConanRecipeDetails = {
-        name: recipeInfo.name,
-        version: version,
-        description: recipeInfo.description,
-        license: recipeInfo.license,
-        author: recipeInfo.author,
-        homepage: recipeInfo.homepage,
-        topics: recipeInfo.topics,
-        // These would come from parsing the actual conanfile.py
-        requires: undefined,
-        options: undefined,
-        generators: undefined,
-        settings: undefined,
-      };
+      const conandata = await this.source.readRecipeFile(packageName, versionInfo.folder, 'conandata.yml');
+
+      if (!conandata) {
+        logger.debug(`conandata.yml not found for ${packageName}@${version}`);
+        return null;
+      }
 
-      return details;
+      return recipeYamlParser.parseConanData(conandata, version);
     } catch (error) {
-      logger.debug(`Failed to get recipe details for ${packageName}@${version}:`, error);
+      logger.debug(`Failed to get conandata for ${packageName}@${version}:`, error);
       return null;
     }
   }
 
+  async getTestPackageFiles(packageName: string, version: string, knownRecipeInfo?: ConanCenterRecipeResponse): Promise<RecipeFile[]> {
+    try {
+      const recipeInfo = knownRecipeInfo ?? await this.getRecipeInfo(packageName);
+      
+      const versionInfo = recipeInfo.versions[version];
+      if (!versionInfo) {
+        return []; // Version not found
+      }
+
+      const fileNames = (await this.source.listRecipeFiles(packageName, versionInfo.folder, 'test_package'))
+        .filter(fileName => TEST_PACKAGE_FILE_REGEX.test(fileName))
+        .slice(0, MAX_TEST_PACKAGE_FILES);
+
+      if (fileNames.length === 0) {
+        logger.debug(`test_package not found for ${packageName}@${version}`);
+        return [];
+      }
+
+      const files = await Promise.all(fileNames.map(async (fileName): Promise<RecipeFile | null> => {
+        const content = await this.source.readRecipeFile(packageName, versionInfo.folder, `test_package/${fileName}`);
+        return content === null ? null : { path: `test_package/${fileName}`, content };
+      }));
+
+      return files.filter((file): file is RecipeFile => file !== null);
+    } catch (error) {
+      logger.debug(`Failed to get test_package for ${packageName}@${version}:`, error);
+      return [];
+    }
+  }
+
   async getLatestVersion(packageName: string): Promise<string> {
     try {
       const recipeInfo = await this.getRecipeInfo(packageName);
@@ -180,11 +254,11 @@ export class ConanCenterApi {
   async getAvailableVersions(packageName: string): Promise<string[]> {
     try {
       const recipeInfo = await this.getRecipeInfo(packageName);
-      return Object.keys(recipeInfo.versions).sort();
+      return sortVersions(Object.keys(recipeInfo.versions));
     } catch (error) {
       handleApiError(error, `available versions for ${packageName}`);
     }
   }
 }
 
-export const conanCenterApi = new ConanCenterApi();
\ No newline at end of file
+export const conanCenterApi = new ConanCenterApi(recipeSource, recipeCatalogue);
\ No newline at end of file
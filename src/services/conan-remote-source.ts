@@ -0,0 +1,230 @@
+import { logger } from '../utils/logger.js';
+import { config } from '../utils/config.js';
+import { mapWithConcurrency } from '../utils/concurrency.js';
+import { buildRecipeHistory, toIsoTimestamp } from '../utils/recipe-history.js';
+import type { ConanRemoteFilesResponse, ConanRemoteRevision, ConanRemoteRevisionsResponse, ConanRemoteSearchResponse, RecipeConfig, RecipeHistory, RecipeListing, RecipeSource, RemoteCredentials, RemoteRecipeConfig } from '../types/index.js';
+
+const REQUEST_TIMEOUT = 10000; // 10 seconds
+const REVISION_CONCURRENCY = 4;
+
+// Reads exported recipes from a Conan v2 remote (conan_server, Artifactory, ...).
+// Remotes have no recipe folders, so every version is its own folder.
+export class ConanRemoteSource implements RecipeSource {
+  private readonly baseUrl: string;
+  private token: string | undefined;
+  private authentication: Promise<string> | null = null;
+
+  constructor(readonly name: string, url: string, private readonly credentials?: RemoteCredentials) {
+    this.baseUrl = url.replace(/\/+$/, '');
+    this.token = credentials?.token;
+  }
+
+  private async fetchWithTimeout(url: string, options: RequestInit = {}): Promise<Response> {
+    if (config.offline) {
+      throw new Error(`Network access is disabled in offline mode: ${url}`);
+    }
+
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), REQUEST_TIMEOUT);
+
+    try {
+      const response = await fetch(url, {
+        ...options,
+        signal: controller.signal,
+        headers: {
+          'User-Agent': 'conan-package-readme-mcp-server/1.0.0',
+          'Accept': 'application/json',
+          ...options.headers,
+        },
+      });
+
+      clearTimeout(timeout);
+      return response;
+    } catch (error) {
+      clearTimeout(timeout);
+      throw error;
+    }
+  }
+
+  // conan_server and Artifactory only accept basic auth to hand out a token
+  private async authenticate(): Promise<string> {
+    const { username, password } = this.credentials ?? {};
+    const basic = Buffer.from(`${username}:${password}`).toString('base64');
+
+    logger.debug(`Authenticating with Conan remote ${this.name} as ${username}`);
+
+    const response = await this.fetchWithTimeout(`${this.baseUrl}/v2/users/authenticate`, {
+      headers: { 'Authorization': `Basic ${basic}`, 'Accept': 'text/plain' },
+    });
+
+    if (!response.ok) {
+      throw new Error(`Authentication with Conan remote ${this.name} failed: HTTP ${response.status}`);
+    }
+
+    return (await response.text()).trim();
+  }
+
+  private async getToken(): Promise<string | undefined> {
+    if (this.token || !this.credentials?.username || !this.credentials.password) {
+      return this.token;
+    }
+
+    // Parallel requests share one login
+    this.authentication ??= this.authenticate().finally(() => {
+      this.authentication = null;
+    });
+    this.token = await this.authentication;
+    return this.token;
+  }
+
+  private async request(url: string, options: RequestInit = {}, retry: boolean = true): Promise<Response> {
+    const token = await this.getToken();
+    const response = await this.fetchWithTimeout(url, {
+      ...options,
+      headers: {
+        ...(token && { 'Authorization': `Bearer ${token}` }),
+        ...options.headers,
+      },
+    });
+
+    // Tokens from /v2/users/authenticate expire; log in again once
+    if (response.status === 401 && retry && this.credentials?.username && !this.credentials.token) {
+      this.token = undefined;
+      return this.request(url, options, false);
+    }
+
+    return response;
+  }
+
+  private getRecipeUrl(packageName: string, version: string): string {
+    return `${this.baseUrl}/v2/conans/${encodeURIComponent(packageName)}/${encodeURIComponent(version)}/_/_`;
+  }
+
+  private async search(pattern: string): Promise<Array<{ name: string; version: string }>> {
+    const searchUrl = `${this.baseUrl}/v2/conans/search?q=${encodeURIComponent(pattern)}`;
+
+    logger.debug(`Searching Conan remote ${this.name}: ${searchUrl}`);
+
+    const response = await this.request(searchUrl);
+
+    if (response.status === 404) {
+      return [];
+    }
+
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+    }
+
+    const data = await response.json() as ConanRemoteSearchResponse;
+
+    // Only plain name/version references; user/channel packages are not recipes we can describe
+    return data.results.flatMap(reference => {
+      const [nameVersion, userChannel] = reference.split('#')[0].split('@');
+      const [name, version] = nameVersion.split('/');
+      return name && version && (!userChannel || userChannel === '_/_') ? [{ name, version }] : [];
+    });
+  }
+
+  async getRevisions(packageName: string, version: string): Promise<ConanRemoteRevision[]> {
+    const response = await this.request(`${this.getRecipeUrl(packageName, version)}/revisions`);
+
+    if (response.status === 404) {
+      return [];
+    }
+
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+    }
+
+    const data = await response.json() as ConanRemoteRevisionsResponse;
+    return data.revisions;
+  }
+
+  private async getLatestRevision(packageName: string, version: string): Promise<string | null> {
+    const [latest] = await this.getRevisions(packageName, version);
+    return latest?.revision ?? null;
+  }
+
+  async listRecipes(): Promise<RecipeListing[]> {
+    const references = await this.search('*');
+    return [...new Set(references.map(reference => reference.name))]
+      .sort()
+      .map(name => ({ name, remote: this.name }));
+  }
+
+  async getRecipeConfig(packageName: string): Promise<RemoteRecipeConfig | null> {
+    const versions = (await this.search(`${packageName}/*`))
+      .filter(reference => reference.name === packageName)
+      .map(reference => reference.version);
+
+    if (versions.length === 0) {
+      return null;
+    }
+
+    return {
+      versions: Object.fromEntries(versions.map(version => [version, { folder: version }])),
+      remote: this.name,
+    };
+  }
+
+  async readRecipeFile(packageName: string, folder: string, path: string): Promise<string | null> {
+    const revision = await this.getLatestRevision(packageName, folder);
+    if (!revision) {
+      return null;
+    }
+
+    const fileUrl = `${this.getRecipeUrl(packageName, folder)}/revisions/${encodeURIComponent(revision)}/files/${path.split('/').map(encodeURIComponent).join('/')}`;
+
+    logger.debug(`Fetching recipe file: ${fileUrl}`);
+
+    const response = await this.request(fileUrl, { headers: { 'Accept': '*/*' } });
+
+    if (response.status === 404) {
+      return null;
+    }
+
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+    }
+
+    return response.text();
+  }
+
+  async listRecipeFiles(packageName: string, folder: string, path: string): Promise<string[]> {
+    const revision = await this.getLatestRevision(packageName, folder);
+    if (!revision) {
+      return [];
+    }
+
+    const response = await this.request(`${this.getRecipeUrl(packageName, folder)}/revisions/${encodeURIComponent(revision)}/files`);
+
+    if (!response.ok) {
+      return [];
+    }
+
+    const data = await response.json() as ConanRemoteFilesResponse;
+    const prefix = path ? `${path.replace(/\/+$/, '')}/` : '';
+
+    return Object.keys(data.files)
+      .filter(file => file.startsWith(prefix) && !file.slice(prefix.length).includes('/'))
+      .map(file => file.slice(prefix.length))
+      .sort();
+  }
+
+  async getRecipeHistory(packageName: string, recipeConfig: RecipeConfig): Promise<RecipeHistory | null> {
+    const versions = Object.keys(recipeConfig.versions);
+    const revisions = await mapWithConcurrency(versions, REVISION_CONCURRENCY, version => this.getRevisions(packageName, version));
+
+    const folderRevisions = new Map(versions.map((version, index) => [
+      recipeConfig.versions[version]?.folder ?? version,
+      (revisions[index] ?? []).map(({ revision, time }) => ({ id: revision, timestamp: toIsoTimestamp(time) })),
+    ]));
+
+    return buildRecipeHistory(recipeConfig, folderRevisions);
+  }
+
+  // The remote keeps no recipe-wide date, so this is the newest revision of any version
+  async getUpdatedAt(packageName: string, recipeConfig: RecipeConfig): Promise<string | null> {
+    return (await this.getRecipeHistory(packageName, recipeConfig))?.updated_at ?? null;
+  }
+}
@@ -0,0 +1,734 @@
+import { logger } from '../utils/logger.js';
+import { compareVersions } from '../utils/version.js';
+import type { ConanComponentInfo, ConanPackageInfo, ConanRequirement, ConanRequirementKind, ParsedConanfile, PythonLiteral } from '../types/index.js';
+
+const CONANFILE_CLASS_REGEX = /^class\s+\w+\s*\([^)]*ConanFile[^)]*\)\s*:[^\n]*$/m;
+const ATTRIBUTE_REGEX = /^(\w+)\s*(?::[^=\n]+)?=(?!=)\s*/;
+const CPP_INFO_TARGET = String.raw`self\.cpp_info(?:\.components\[\s*["']([^"']+)["']\s*\])?`;
+const SET_PROPERTY_REGEX = new RegExp(
+  String.raw`${CPP_INFO_TARGET}\.set_property\(\s*["'](\w+)["']\s*,\s*([fF]?)["']([^"'\n]+)["']`,
+  'g'
+);
+const REQUIREMENT_CALL_REGEX = /self\.(requires|tool_requires|build_requires|test_requires)\(\s*([rRuUfF]?)(["'])([^"'\n]+)\3/g;
+const CONDITION_LINE_REGEX = /^(if|elif)\s+(.+?)\s*:\s*(?:#.*)?$/;
+const ELSE_LINE_REGEX = /^else\s*:\s*(?:#.*)?$/;
+const OPTION_REGEX = /^self\.options\.(?:(\w+)|get_safe\(\s*["'](\w+)["']\s*(?:,\s*(.+))?\))$/;
+const VERSION_COMPARISON_REGEX = /^Version\(self\.version\)\s*(==|!=|<=|>=|<|>)\s*["']([^"']+)["']$/;
+// Values Conan treats as false when an option is used in a boolean context
+const FALSEY_OPTION_VALUES = ['false', 'none', '0', 'off', ''];
+
+type Truth = boolean | undefined;
+
+interface ConditionContext {
+  version?: string | undefined;
+  defaultOptions: Record<string, unknown>;
+  declaredOptions: Record<string, unknown>;
+}
+
+interface ConditionBlock {
+  indent: number;
+  value: Truth;
+  text: string;
+  previous: Array<{ value: Truth; text: string }>;
+}
+
+const LIST_FIELD_REGEX = new RegExp(
+  String.raw`${CPP_INFO_TARGET}\.(libs|system_libs|requires)\s*(?:(\+?=)|\.(append|extend)\()\s*`,
+  'g'
+);
+
+// f-strings referencing recipe state, like f"zlib/{self.version}", cannot be resolved statically
+function isUnresolvedFormatString(prefix: string, value: string): boolean {
+  return /f/i.test(prefix) && value.includes('{');
+}
+
+class PythonLiteralReader {
+  private pos: number;
+
+  constructor(private readonly source: string, start: number) {
+    this.pos = start;
+  }
+
+  get position(): number {
+    return this.pos;
+  }
+
+  // Parses a statement value, including bare tuples such as `settings = "os", "arch"`
+  readStatementValue(): PythonLiteral {
+    const first = this.readValue(false);
+    const items: PythonLiteral[] = [first];
+    let isTuple = false;
+
+    while (this.peekInline() === ',') {
+      this.pos++;
+      isTuple = true;
+      const next = this.peekInline();
+      if (next === '' || next === '\n' || next === '#') {
+        break;
+      }
+      items.push(this.readValue(false));
+    }
+
+    return isTuple ? items : first;
+  }
+
+  private readValue(nested: boolean): PythonLiteral {
+    this.skipWhitespace(nested);
+    const char = this.source[this.pos];
+
+    if (char === undefined) {
+      throw new Error('Unexpected end of input');
+    }
+
+    if (char === '[') {
+      return this.readSequence(']');
+    }
+
+    if (char === '(') {
+      return this.readSequence(')');
+    }
+
+    if (char === '{') {
+      return this.readMapping();
+    }
+
+    const stringMatch = /^[rRbBuUfF]{0,2}(?:"""|'''|"|')/.exec(this.source.slice(this.pos, this.pos + 5));
+    if (stringMatch) {
+      return this.readConcatenatedStrings(nested);
+    }
+
+    const numberMatch = /^-?\d+(?:\.\d+)?/.exec(this.source.slice(this.pos));
+    if (numberMatch) {
+      this.pos += numberMatch[0].length;
+      return Number(numberMatch[0]);
+    }
+
+    const keywordMatch = /^(True|False|None)\b/.exec(this.source.slice(this.pos));
+    if (keywordMatch) {
+      this.pos += keywordMatch[0].length;
+      return keywordMatch[1] === 'None' ? null : keywordMatch[1] === 'True';
+    }
+
+    throw new Error(`Unsupported expression at offset ${this.pos}`);
+  }
+
+  private readSequence(closing: ']' | ')'): PythonLiteral {
+    this.pos++; // opening bracket
+    const items: PythonLiteral[] = [];
+    let trailingComma = false;
+
+    for (;;) {
+      this.skipWhitespace(true);
+      if (this.source[this.pos] === closing) {
+        this.pos++;
+        break;
+      }
+
+      items.push(this.readValue(true));
+      this.skipWhitespace(true);
+      trailingComma = false;
+
+      if (this.source[this.pos] === ',') {
+        this.pos++;
+        trailingComma = true;
+      } else if (this.source[this.pos] !== closing) {
+        throw new Error(`Expected '${closing}' at offset ${this.pos}`);
+      }
+    }
+
+    // A parenthesised single value without a trailing comma is just grouping
+    if (closing === ')' && items.length === 1 && !trailingComma) {
+      return items[0];
+    }
+
+    return items;
+  }
+
+  private readMapping(): PythonLiteral {
+    this.pos++; // opening brace
+    const mapping: { [key: string]: PythonLiteral } = {};
+    const setItems: PythonLiteral[] = [];
+
+    for (;;) {
+      this.skipWhitespace(true);
+      if (this.source[this.pos] === '}') {
+        this.pos++;
+        break;
+      }
+
+      const key = this.readValue(true);
+      this.skipWhitespace(true);
+
+      if (this.source[this.pos] === ':') {
+        this.pos++;
+        mapping[String(key)] = this.readValue(true);
+        this.skipWhitespace(true);
+      } else {
+        setItems.push(key);
+      }
+
+      if (this.source[this.pos] === ',') {
+        this.pos++;
+      } else if (this.source[this.pos] !== '}') {
+        throw new Error(`Expected '}' at offset ${this.pos}`);
+      }
+    }
+
+    return setItems.length > 0 ? setItems : mapping;
+  }
+
+  private readConcatenatedStrings(nested: boolean): string {
+    let value = this.readString();
+
+    // Adjacent string literals are concatenated by Python
+    for (;;) {
+      const saved = this.pos;
+      this.skipWhitespace(nested);
+      if (!/^[rRbBuUfF]{0,2}["']/.test(this.source.slice(this.pos, this.pos + 3))) {
+        this.pos = saved;
+        return value;
+      }
+      value += this.readString();
+    }
+  }
+
+  private readString(): string {
+    const prefixMatch = /^[rRbBuUfF]{0,2}/.exec(this.source.slice(this.pos));
+    const prefix = prefixMatch ? prefixMatch[0] : '';
+    this.pos += prefix.length;
+
+    const raw = /r/i.test(prefix);
+    const quote = this.source.startsWith('"""', this.pos) || this.source.startsWith("'''", this.pos)
+      ? this.source.slice(this.pos, this.pos + 3)
+      : this.source[this.pos];
+    this.pos += quote.length;
+
+    let value = '';
+    while (this.pos < this.source.length) {
+      if (this.source.startsWith(quote, this.pos)) {
+        this.pos += quote.length;
+        return value;
+      }
+
+      const char = this.source[this.pos];
+      if (char === '\n' && quote.length === 1) {
+        break;
+      }
+
+      if (char === '\\' && !raw) {
+        const escaped = this.source[this.pos + 1];
+        value += escaped === 'n' ? '\n' : escaped === 't' ? '\t' : escaped === '\n' ? '' : escaped;
+        this.pos += 2;
+        continue;
+      }
+
+      value += char;
+      this.pos++;
+    }
+
+    throw new Error('Unterminated string literal');
+  }
+
+  private skipWhitespace(includeNewlines: boolean): void {
+    while (this.pos < this.source.length) {
+      const char = this.source[this.pos];
+
+      if (char === ' ' || char === '\t' || char === '\r') {
+        this.pos++;
+      } else if (char === '\\' && this.source[this.pos + 1] === '\n') {
+        this.pos += 2;
+      } else if (includeNewlines && char === '\n') {
+        this.pos++;
+      } else if (includeNewlines && char === '#') {
+        while (this.pos < this.source.length && this.source[this.pos] !== '\n') {
+          this.pos++;
+        }
+      } else {
+        break;
+      }
+    }
+  }
+
+  private peekInline(): string {
+    this.skipWhitespace(false);
+    return this.source[this.pos] ?? '';
+  }
+}
+
+export class ConanfileParser {
+  parse(content: string, version?: string): ParsedConanfile {
+    const attributes = this.extractClassAttributes(content);
+    const options = this.asRecord(attributes.options);
+    const defaultOptions = this.asRecord(attributes.default_options);
+    const requirements = this.extractRequirements(content, attributes, {
+      version,
+      defaultOptions,
+      declaredOptions: options,
+    });
+    // The flat lists hold what a default build requires; requirements keeps the disabled and conditional ones
+    const referencesOf = (kind: ConanRequirementKind): string[] =>
+      requirements.filter(requirement => requirement.enabled && requirement.kind === kind).map(requirement => requirement.reference);
+
+    const parsed: ParsedConanfile = {
+      name: this.asString(attributes.name),
+      description: this.asString(attributes.description),
+      license: this.asString(attributes.license),
+      author: this.asString(attributes.author),
+      homepage: this.asString(attributes.homepage),
+      url: this.asString(attributes.url),
+      topics: this.asStringList(attributes.topics),
+      package_type: this.asString(attributes.package_type),
+      deprecated: typeof attributes.deprecated === 'boolean' || typeof attributes.deprecated === 'string'
+        ? attributes.deprecated
+        : undefined,
+      requires: referencesOf('requires'),
+      tool_requires: referencesOf('tool_requires'),
+      test_requires: referencesOf('test_requires'),
+      requirements,
+      options,
+      default_options: defaultOptions,
+      settings: this.asStringList(attributes.settings),
+      generators: this.asStringList(attributes.generators),
+      package_info: this.parsePackageInfo(this.extractMethodBody(content, 'package_info')),
+    };
+
+    logger.debug(`Parsed conanfile: ${parsed.requires.length} requires, ${Object.keys(parsed.options).length} options`);
+    return parsed;
+  }
+
+  extractClassAttributes(content: string): Record<string, PythonLiteral> {
+    const attributes: Record<string, PythonLiteral> = {};
+    const classMatch = CONANFILE_CLASS_REGEX.exec(content);
+
+    if (!classMatch) {
+      return attributes;
+    }
+
+    let offset = classMatch.index + classMatch[0].length + 1;
+    let bodyIndent: number | undefined;
+
+    while (offset < content.length) {
+      const lineEnd = content.indexOf('\n', offset);
+      const end = lineEnd === -1 ? content.length : lineEnd;
+      const line = content.slice(offset, end);
+      const trimmed = line.trim();
+
+      if (trimmed.length === 0 || trimmed.startsWith('#')) {
+        offset = end + 1;
+        continue;
+      }
+
+      const indent = line.length - line.trimStart().length;
+      if (bodyIndent === undefined) {
+        bodyIndent = indent;
+      }
+
+      // Dedent past the class body ends the class
+      if (indent < bodyIndent || indent === 0) {
+        break;
+      }
+
+      const attributeMatch = indent === bodyIndent ? ATTRIBUTE_REGEX.exec(trimmed) : null;
+      if (attributeMatch) {
+        const valueStart = offset + indent + attributeMatch[0].length;
+        try {
+          const reader = new PythonLiteralReader(content, valueStart);
+          attributes[attributeMatch[1]] = reader.readStatementValue();
+          const nextLine = content.indexOf('\n', reader.position);
+          offset = nextLine === -1 ? content.length : nextLine + 1;
+          continue;
+        } catch (error) {
+          logger.debug(`Skipping non-literal conanfile attribute '${attributeMatch[1]}'`, error);
+        }
+      }
+
+      offset = end + 1;
+    }
+
+    return attributes;
+  }
+
+  /**
+   * Collects requires, tool_requires and test_requires from class attributes,
+   * requirements() and build_requirements(). Conditions on options and on
+   * Version(self.version) are evaluated against the defaults; anything else,
+   * such as settings, is assumed to hold and reported as the condition.
+   */
+  extractRequirements(
+    content: string,
+    attributes: Record<string, PythonLiteral>,
+    context: ConditionContext
+  ): ConanRequirement[] {
+    const requirements: ConanRequirement[] = [];
+    const attributeKinds: Array<[string, ConanRequirementKind]> = [
+      ['requires', 'requires'],
+      ['tool_requires', 'tool_requires'],
+      ['build_requires', 'tool_requires'],
+      ['test_requires', 'test_requires'],
+    ];
+
+    for (const [attribute, kind] of attributeKinds) {
+      for (const reference of this.asStringList(attributes[attribute])) {
+        requirements.push({ reference, kind, enabled: true });
+      }
+    }
+
+    for (const methodName of ['requirements', 'build_requirements']) {
+      requirements.push(...this.extractConditionalRequirements(this.extractMethodBody(content, methodName), context));
+    }
+
+    return requirements;
+  }
+
+  private extractConditionalRequirements(body: string, context: ConditionContext): ConanRequirement[] {
+    const lineStarts: number[] = [];
+    const lineStates: Array<{ value: Truth; conditions: string[] }> = [];
+    const stack: ConditionBlock[] = [];
+    let offset = 0;
+
+    for (const line of body.split('\n')) {
+      lineStarts.push(offset);
+      offset += line.length + 1;
+
+      const trimmed = line.trim();
+      const indent = line.length - line.trimStart().length;
+
+      if (trimmed.length > 0 && !trimmed.startsWith('#')) {
+        const conditionMatch = CONDITION_LINE_REGEX.exec(trimmed);
+        const isElse = ELSE_LINE_REGEX.test(trimmed);
+        const continuesBlock = (conditionMatch?.[1] === 'elif' || isElse) && stack[stack.length - 1]?.indent === indent;
+
+        while (stack.length > 0 && stack[stack.length - 1].indent >= indent && !(continuesBlock && stack[stack.length - 1].indent === indent)) {
+          stack.pop();
+        }
+
+        if (continuesBlock) {
+          const block = stack[stack.length - 1];
+          block.previous.push({ value: block.value, text: block.text });
+          const negated = block.previous.map(branch => `not (${branch.text})`);
+          const noneTaken = block.previous.reduce<Truth>((result, branch) => this.and(result, this.not(branch.value)), true);
+
+          if (isElse) {
+            block.value = noneTaken;
+            block.text = negated.join(' and ');
+          } else {
+            block.value = this.and(noneTaken, this.evaluateCondition(conditionMatch![2], context));
+            block.text = [...negated, conditionMatch![2]].join(' and ');
+          }
+        } else if (conditionMatch?.[1] === 'if') {
+          stack.push({
+            indent,
+            value: this.evaluateCondition(conditionMatch[2], context),
+            text: conditionMatch[2],
+            previous: [],
+          });
+        }
+      }
+
+      lineStates.push({
+        value: stack.reduce<Truth>((result, block) => this.and(result, block.value), true),
+        conditions: stack.filter(block => block.value === undefined).map(block => block.text),
+      });
+    }
+
+    const requirements: ConanRequirement[] = [];
+    let match;
+
+    REQUIREMENT_CALL_REGEX.lastIndex = 0;
+    while ((match = REQUIREMENT_CALL_REGEX.exec(body)) !== null) {
+      const [, method, prefix, , reference] = match;
+
+      if (isUnresolvedFormatString(prefix, reference)) {
+        continue;
+      }
+
+      let lineIndex = lineStarts.length - 1;
+      while (lineIndex > 0 && lineStarts[lineIndex] > match.index) {
+        lineIndex--;
+      }
+
+      const state = lineStates[lineIndex];
+      const kind: ConanRequirementKind = method === 'build_requires' ? 'tool_requires' : method as ConanRequirementKind;
+
+      requirements.push({
+        reference,
+        kind,
+        enabled: state.value !== false,
+        ...(state.value === undefined && { condition: state.conditions.join(' and ') }),
+      });
+    }
+
+    return requirements;
+  }
+
+  private evaluateCondition(expression: string, context: ConditionContext): Truth {
+    const condition = this.stripParentheses(expression.trim());
+
+    const alternatives = this.splitTopLevel(condition, 'or');
+    if (alternatives.length > 1) {
+      return alternatives.reduce<Truth>((result, part) => this.or(result, this.evaluateCondition(part, context)), false);
+    }
+
+    const conjuncts = this.splitTopLevel(condition, 'and');
+    if (conjuncts.length > 1) {
+      return conjuncts.reduce<Truth>((result, part) => this.and(result, this.evaluateCondition(part, context)), true);
+    }
+
+    if (condition.startsWith('not ')) {
+      return this.not(this.evaluateCondition(condition.slice(4), context));
+    }
+
+    const versionMatch = VERSION_COMPARISON_REGEX.exec(condition);
+    if (versionMatch) {
+      return context.version === undefined
+        ? undefined
+        : this.compare(compareVersions(context.version, versionMatch[2]), versionMatch[1]);
+    }
+
+    const comparisonMatch = /^(.+?)\s*(==|!=)\s*(.+)$/.exec(condition);
+    if (comparisonMatch) {
+      const value = this.resolveOption(comparisonMatch[1].trim(), context);
+      if (value === undefined) {
+        return undefined;
+      }
+      const expected = this.toOptionString(this.parseLiteral(comparisonMatch[3].trim()));
+      const equal = this.toOptionString(value) === expected;
+      return comparisonMatch[2] === '==' ? equal : !equal;
+    }
+
+    const value = this.resolveOption(condition, context);
+    return value === undefined ? undefined : !FALSEY_OPTION_VALUES.includes(this.toOptionString(value).toLowerCase());
+  }
+
+  private resolveOption(expression: string, context: ConditionContext): unknown {
+    const match = OPTION_REGEX.exec(expression);
+    if (!match) {
+      return undefined;
+    }
+
+    const name = match[1] ?? match[2];
+    if (name in context.defaultOptions) {
+      return context.defaultOptions[name];
+    }
+
+    // get_safe() returns its fallback for options the recipe does not declare
+    if (match[2] && !(name in context.declaredOptions)) {
+      return match[3] === undefined ? null : this.parseLiteral(match[3].trim());
+    }
+
+    return undefined;
+  }
+
+  private parseLiteral(source: string): unknown {
+    try {
+      return new PythonLiteralReader(source, 0).readStatementValue();
+    } catch {
+      return undefined;
+    }
+  }
+
+  private toOptionString(value: unknown): string {
+    if (value === true) {
+      return 'True';
+    }
+    if (value === false) {
+      return 'False';
+    }
+    if (value === null || value === undefined) {
+      return 'None';
+    }
+    return String(value);
+  }
+
+  private compare(result: number, operator: string): boolean {
+    switch (operator) {
+      case '==':
+        return result === 0;
+      case '!=':
+        return result !== 0;
+      case '<':
+        return result < 0;
+      case '<=':
+        return result <= 0;
+      case '>':
+        return result > 0;
+      default:
+        return result >= 0;
+    }
+  }
+
+  private splitTopLevel(expression: string, keyword: 'and' | 'or'): string[] {
+    const parts: string[] = [];
+    let depth = 0;
+    let quote: string | undefined;
+    let start = 0;
+
+    for (let i = 0; i < expression.length; i++) {
+      const char = expression[i];
+
+      if (quote) {
+        if (char === quote) {
+          quote = undefined;
+        }
+        continue;
+      }
+
+      if (char === '"' || char === "'") {
+        quote = char;
+      } else if (char === '(' || char === '[') {
+        depth++;
+      } else if (char === ')' || char === ']') {
+        depth--;
+      } else if (depth === 0 && expression.startsWith(` ${keyword} `, i)) {
+        parts.push(expression.slice(start, i).trim());
+        start = i + keyword.length + 2;
+        i = start - 1;
+      }
+    }
+
+    parts.push(expression.slice(start).trim());
+    return parts;
+  }
+
+  private stripParentheses(expression: string): string {
+    if (!expression.startsWith('(') || !expression.endsWith(')')) {
+      return expression;
+    }
+
+    let depth = 0;
+    for (let i = 0; i < expression.length; i++) {
+      if (expression[i] === '(') {
+        depth++;
+      } else if (expression[i] === ')') {
+        depth--;
+        // The opening parenthesis closes early, as in "(a) and (b)"
+        if (depth === 0 && i < expression.length - 1) {
+          return expression;
+        }
+      }
+    }
+
+    return this.stripParentheses(expression.slice(1, -1).trim());
+  }
+
+  private and(a: Truth, b: Truth): Truth {
+    if (a === false || b === false) {
+      return false;
+    }
+    return a === true && b === true ? true : undefined;
+  }
+
+  private or(a: Truth, b: Truth): Truth {
+    if (a === true || b === true) {
+      return true;
+    }
+    return a === false && b === false ? false : undefined;
+  }
+
+  private not(value: Truth): Truth {
+    return value === undefined ? undefined : !value;
+  }
+
+  parsePackageInfo(body: string): ConanPackageInfo {
+    const packageInfo: ConanPackageInfo = { ...this.createComponentInfo(), components: {} };
+    const getTarget = (component: string | undefined): ConanComponentInfo => {
+      if (!component) {
+        return packageInfo;
+      }
+      packageInfo.components[component] ??= this.createComponentInfo();
+      return packageInfo.components[component];
+    };
+    let match;
+
+    SET_PROPERTY_REGEX.lastIndex = 0;
+    while ((match = SET_PROPERTY_REGEX.exec(body)) !== null) {
+      const [, component, property, prefix, value] = match;
+
+      if (isUnresolvedFormatString(prefix, value)) {
+        continue;
+      }
+
+      getTarget(component).properties[property] = value;
+    }
+
+    // Conditional assignments are all collected; the parser does not evaluate settings
+    LIST_FIELD_REGEX.lastIndex = 0;
+    while ((match = LIST_FIELD_REGEX.exec(body)) !== null) {
+      const [, component, field, assignment] = match;
+      let values: string[];
+
+      try {
+        values = this.asStringList(new PythonLiteralReader(body, LIST_FIELD_REGEX.lastIndex).readStatementValue());
+      } catch {
+        continue;
+      }
+
+      const target = getTarget(component);
+      const fieldName = field as 'libs' | 'system_libs' | 'requires';
+      target[fieldName] = assignment === '=' ? values : [...new Set([...target[fieldName], ...values])];
+    }
+
+    return packageInfo;
+  }
+
+  private createComponentInfo(): ConanComponentInfo {
+    return { properties: {}, libs: [], system_libs: [], requires: [] };
+  }
+
+  extractMethodBody(content: string, methodName: string): string {
+    const methodRegex = new RegExp(`^([ \\t]+)def\\s+${methodName}\\s*\\([^)]*\\)[^:\\n]*:[^\\n]*$`, 'm');
+    const match = methodRegex.exec(content);
+
+    if (!match) {
+      return '';
+    }
+
+    const methodIndent = match[1].length;
+    const lines = content.slice(match.index + match[0].length + 1).split('\n');
+    const body: string[] = [];
+
+    for (const line of lines) {
+      const trimmed = line.trim();
+      if (trimmed.length > 0 && line.length - line.trimStart().length <= methodIndent) {
+        break;
+      }
+      body.push(line);
+    }
+
+    return body.join('\n');
+  }
+
+  private asString(value: PythonLiteral | undefined): string | undefined {
+    if (typeof value === 'string') {
+      return value;
+    }
+
+    if (Array.isArray(value)) {
+      return value.filter((item): item is string => typeof item === 'string').join(', ') || undefined;
+    }
+
+    return undefined;
+  }
+
+  private asStringList(value: PythonLiteral | undefined): string[] {
+    if (typeof value === 'string') {
+      return [value];
+    }
+
+    if (Array.isArray(value)) {
+      return value.filter((item): item is string => typeof item === 'string');
+    }
+
+    return [];
+  }
+
+  private asRecord(value: PythonLiteral | undefined): Record<string, unknown> {
+    if (value && typeof value === 'object' && !Array.isArray(value)) {
+      return value;
+    }
+
+    return {};
+  }
+}
+
+export const conanfileParser = new ConanfileParser();
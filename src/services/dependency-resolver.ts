@@ -0,0 +1,192 @@
+import { resolveVersion, sortVersions } from '../utils/version.js';
+import { extractErrorMessage, isPackageNotFoundError } from '../utils/error-handler.js';
+import { cache, createCacheKey } from './cache.js';
+import { conanCenterApi } from './conan-center-api.js';
+import type { ConanCenterRecipeResponse, ConanRecipeDetails, ConanRequirement, ConanRequirementKind, DependencyConflict, DependencyNode } from '../types/index.js';
+
+const RECIPE_CACHE_TTL = 1800 * 1000; // 30 minutes
+
+export interface DependencyResolveOptions {
+  includeToolRequires: boolean;
+  includeTestRequires: boolean;
+  maxDepth: number;
+}
+
+export interface DependencyGraph {
+  tree: DependencyNode;
+  packages: string[];
+  cycles: string[][];
+  conflicts: DependencyConflict[];
+}
+
+interface ResolveState {
+  options: DependencyResolveOptions;
+  packages: Set<string>;
+  cycles: string[][];
+  // Host-context versions per package name, used to detect diamond conflicts
+  hostVersions: Map<string, DependencyConflict['required_by']>;
+}
+
+// Splits "zlib/[>=1.2.11 <2]@user/channel#rev" into name and version specification
+export function parseReference(reference: string): { name: string; version: string } | null {
+  const match = /^([^/@#\s]+)\/([^@#]+)/.exec(reference.trim());
+  return match ? { name: match[1], version: match[2].trim() } : null;
+}
+
+export class DependencyResolver {
+  async resolve(packageName: string, version: string, options: DependencyResolveOptions): Promise<DependencyGraph> {
+    const state: ResolveState = {
+      options,
+      packages: new Set(),
+      cycles: [],
+      hostVersions: new Map(),
+    };
+
+    const tree = await this.resolveNode(
+      { reference: `${packageName}/${version}`, kind: 'requires', enabled: true },
+      [],
+      'requires',
+      state
+    );
+
+    const conflicts = [...state.hostVersions.entries()]
+      .map(([name, requiredBy]): DependencyConflict => ({
+        name,
+        versions: sortVersions([...new Set(requiredBy.map(entry => entry.version))]),
+        required_by: requiredBy,
+      }))
+      .filter(conflict => conflict.versions.length > 1);
+
+    return {
+      tree,
+      packages: [...state.packages].sort(),
+      cycles: state.cycles,
+      conflicts,
+    };
+  }
+
+  private async resolveNode(
+    requirement: ConanRequirement,
+    ancestors: string[],
+    context: ConanRequirementKind,
+    state: ResolveState
+  ): Promise<DependencyNode> {
+    const parsed = parseReference(requirement.reference);
+    const node: DependencyNode = {
+      name: parsed?.name ?? requirement.reference,
+      reference: requirement.reference,
+      kind: requirement.kind,
+      ...(requirement.condition && { condition: requirement.condition }),
+      dependencies: [],
+    };
+
+    if (!parsed) {
+      node.error = `Invalid reference '${requirement.reference}'`;
+      return node;
+    }
+
+    let recipeInfo: ConanCenterRecipeResponse;
+    try {
+      recipeInfo = await this.getRecipeInfo(parsed.name);
+    } catch (error) {
+      node.error = isPackageNotFoundError(error)
+        ? `Package '${parsed.name}' not found`
+        : `Could not read the recipe of '${parsed.name}': ${extractErrorMessage(error)}`;
+      return node;
+    }
+
+    const version = resolveVersion(parsed.version, Object.keys(recipeInfo.versions));
+    if (!version) {
+      node.error = `No version of '${parsed.name}' matches '${parsed.version}'`;
+      return node;
+    }
+
+    const resolved = `${parsed.name}/${version}`;
+    node.version = version;
+    state.packages.add(resolved);
+
+    const parent = ancestors[ancestors.length - 1];
+    if (parent && context === 'requires') {
+      const requiredBy = state.hostVersions.get(parsed.name) ?? [];
+      // Shared subtrees are expanded once per path; record each edge only once
+      if (!requiredBy.some(entry => entry.parent === parent && entry.reference === requirement.reference)) {
+        requiredBy.push({ parent, reference: requirement.reference, version });
+      }
+      state.hostVersions.set(parsed.name, requiredBy);
+    }
+
+    const ancestorIndex = ancestors.findIndex(ancestor => parseReference(ancestor)?.name === parsed.name);
+    if (ancestorIndex !== -1) {
+      node.cycle = true;
+      state.cycles.push([...ancestors.slice(ancestorIndex), resolved]);
+      return node;
+    }
+
+    if (ancestors.length >= state.options.maxDepth) {
+      node.truncated = true;
+      return node;
+    }
+
+    // A node whose conanfile cannot be read has unknown dependencies, which must not look like none
+    let details: ConanRecipeDetails | null;
+    try {
+      details = await this.getDetails(recipeInfo, version);
+    } catch (error) {
+      node.error = `Could not read the conanfile of '${resolved}': ${extractErrorMessage(error)}`;
+      return node;
+    }
+
+    if (!details) {
+      node.error = `conanfile.py of '${resolved}' not found`;
+      return node;
+    }
+
+    const isRoot = ancestors.length === 0;
+    const children = (details.requirements ?? []).filter(child =>
+      child.enabled && (
+        child.kind === 'requires' ||
+        (child.kind === 'tool_requires' && state.options.includeToolRequires) ||
+        // test_requires are never propagated from dependencies
+        (child.kind === 'test_requires' && state.options.includeTestRequires && isRoot)
+      )
+    );
+
+    // Sequential on purpose: subtrees share the cache and avoid bursts of API calls
+    for (const child of children) {
+      // tool_requires live in the build context, separate from the consumer's host graph
+      const childContext = context === 'requires' && child.kind === 'requires' ? 'requires' : 'tool_requires';
+      node.dependencies.push(await this.resolveNode(child, [...ancestors, resolved], childContext, state));
+    }
+
+    return node;
+  }
+
+  private async getRecipeInfo(packageName: string): Promise<ConanCenterRecipeResponse> {
+    const cacheKey = createCacheKey.recipeInfo(packageName);
+    const cached = cache.get<ConanCenterRecipeResponse>(cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    const recipeInfo = await conanCenterApi.getRecipeInfo(packageName);
+    cache.set(cacheKey, recipeInfo, RECIPE_CACHE_TTL);
+    return recipeInfo;
+  }
+
+  private async getDetails(recipeInfo: ConanCenterRecipeResponse, version: string): Promise<ConanRecipeDetails | null> {
+    const cacheKey = createCacheKey.recipeDetails(recipeInfo.name, version);
+    const cached = cache.get<ConanRecipeDetails>(cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    // The recipe info is already at hand, so config.yml is not fetched again
+    const details = await conanCenterApi.getRecipeDetails(recipeInfo.name, version, recipeInfo);
+    if (details) {
+      cache.set(cacheKey, details, RECIPE_CACHE_TTL);
+    }
+    return details;
+  }
+}
+
+export const dependencyResolver = new DependencyResolver();
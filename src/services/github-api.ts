@@ -1,12 +1,18 @@
 import { logger } from '../utils/logger.js';
-// import { handleApiError } from '../utils/error-handler.js'; // Currently unused
-import type { GitHubReadmeResponse } from '../types/index.js';
+import { config } from '../utils/config.js';
+import { assertWithinGitHubRateLimit } from '../utils/error-handler.js';
+import { RateLimitError } from '../types/index.js';
+import type { GitHubCommitResponse, GitHubReadmeResponse, GitHubRefResponse, VersionedReadme } from '../types/index.js';
 
 const GITHUB_API_BASE_URL = 'https://api.github.com';
 const REQUEST_TIMEOUT = 10000; // 10 seconds
 
 export class GitHubApi {
   private async fetchWithTimeout(url: string, options: RequestInit = {}): Promise<Response> {
+    if (config.offline) {
+      throw new Error(`Network access is disabled in offline mode: ${url}`);
+    }
+
     const controller = new AbortController();
     const timeout = setTimeout(() => controller.abort(), REQUEST_TIMEOUT);
 
@@ -17,11 +23,13 @@ export class GitHubApi {
         headers: {
           'User-Agent': 'conan-package-readme-mcp-server/1.0.0',
           'Accept': 'application/vnd.github.v3+json',
+          ...(config.githubToken && { 'Authorization': `Bearer ${config.githubToken}` }),
           ...options.headers,
         },
       });
 
       clearTimeout(timeout);
+      assertWithinGitHubRateLimit(response);
       return response;
     } catch (error) {
       clearTimeout(timeout);
@@ -52,7 +60,8 @@ export class GitHubApi {
     }
   }
 
-  async getReadmeContent(repositoryUrl: string): Promise<string | null> {
+  // Rate limits are thrown, as every further request would be refused as well
+  async getReadme(repositoryUrl: string, ref?: string): Promise<VersionedReadme | null> {
     try {
       const repoInfo = this.extractOwnerAndRepo(repositoryUrl);
       
@@ -61,14 +70,15 @@ export class GitHubApi {
         return null;
       }
 
-      const readmeUrl = `${GITHUB_API_BASE_URL}/repos/${repoInfo.owner}/${repoInfo.repo}/readme`;
+      const readmeUrl = `${GITHUB_API_BASE_URL}/repos/${repoInfo.owner}/${repoInfo.repo}/readme` +
+        (ref ? `?ref=${encodeURIComponent(ref)}` : '');
       
       logger.debug(`Fetching README from: ${readmeUrl}`);
 
       const response = await this.fetchWithTimeout(readmeUrl);
 
       if (response.status === 404) {
-        logger.debug(`README not found for ${repoInfo.owner}/${repoInfo.repo}`);
+        logger.debug(`README not found for ${repoInfo.owner}/${repoInfo.repo}${ref ? `@${ref}` : ''}`);
         return null;
       }
 
@@ -81,17 +91,121 @@ export class GitHubApi {
       if (data.encoding === 'base64') {
         const content = Buffer.from(data.content, 'base64').toString('utf-8');
         logger.debug(`Fetched README content (${content.length} chars) for ${repoInfo.owner}/${repoInfo.repo}`);
-        return content;
+        return {
+          content,
+          ref: ref ?? this.extractRef(data.url) ?? 'HEAD',
+          fell_back_to_default_branch: !ref,
+        };
       }
 
       logger.warn(`Unexpected encoding for README: ${data.encoding}`);
       return null;
     } catch (error) {
+      if (error instanceof RateLimitError) {
+        throw error;
+      }
       logger.debug(`Failed to fetch README from ${repositoryUrl}:`, error);
       return null;
     }
   }
 
+  async getReadmeContent(repositoryUrl: string, ref?: string): Promise<string | null> {
+    const readme = await this.getReadme(repositoryUrl, ref);
+    return readme ? readme.content : null;
+  }
+
+  async getVersionedReadme(repositoryUrl: string, candidateRefs: string[]): Promise<VersionedReadme | null> {
+    if (config.offline) {
+      return null;
+    }
+
+    // One tag listing picks the first candidate that exists, instead of a README request per candidate
+    const ref = candidateRefs.length > 0 ? await this.findTag(repositoryUrl, candidateRefs) : undefined;
+    if (ref) {
+      const readme = await this.getReadme(repositoryUrl, ref);
+      if (readme) {
+        return readme;
+      }
+    }
+
+    if (candidateRefs.length > 0) {
+      logger.debug(`No README found at any of ${candidateRefs.join(', ')}; using default branch`);
+    }
+
+    return this.getReadme(repositoryUrl);
+  }
+
+  // First of the candidates that the repository has as a tag
+  private async findTag(repositoryUrl: string, candidateRefs: string[]): Promise<string | undefined> {
+    const repoInfo = this.extractOwnerAndRepo(repositoryUrl);
+    if (!repoInfo) {
+      return undefined;
+    }
+
+    try {
+      const response = await this.fetchWithTimeout(
+        `${GITHUB_API_BASE_URL}/repos/${repoInfo.owner}/${repoInfo.repo}/git/matching-refs/tags/`
+      );
+
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+      }
+
+      const tags = new Set((await response.json() as GitHubRefResponse[]).map(tag => tag.ref.replace(/^refs\/tags\//, '')));
+      return candidateRefs.find(ref => tags.has(ref));
+    } catch (error) {
+      if (error instanceof RateLimitError) {
+        throw error;
+      }
+      logger.debug(`Failed to list tags of ${repositoryUrl}:`, error);
+      return undefined;
+    }
+  }
+
+  // The contents API reports the branch it resolved as "?ref=<branch>" on the url field
+  private extractRef(contentUrl: string | undefined): string | undefined {
+    if (!contentUrl) {
+      return undefined;
+    }
+
+    try {
+      return new URL(contentUrl).searchParams.get('ref') ?? undefined;
+    } catch {
+      return undefined;
+    }
+  }
+
+  async getCommits(
+    repositoryUrl: string,
+    options: { path: string; since?: string | undefined; until?: string | undefined; perPage?: number | undefined }
+  ): Promise<GitHubCommitResponse[]> {
+    const repoInfo = this.extractOwnerAndRepo(repositoryUrl);
+
+    if (!repoInfo) {
+      throw new Error(`Invalid GitHub URL: ${repositoryUrl}`);
+    }
+
+    const commitsUrl = new URL(`${GITHUB_API_BASE_URL}/repos/${repoInfo.owner}/${repoInfo.repo}/commits`);
+    commitsUrl.searchParams.set('path', options.path);
+    commitsUrl.searchParams.set('per_page', String(options.perPage ?? 30));
+    if (options.since) {
+      commitsUrl.searchParams.set('since', options.since);
+    }
+    if (options.until) {
+      commitsUrl.searchParams.set('until', options.until);
+    }
+
+    logger.debug(`Fetching commits from: ${commitsUrl.toString()}`);
+
+    const response = await this.fetchWithTimeout(commitsUrl.toString());
+
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+    }
+
+    return await response.json() as GitHubCommitResponse[];
+  }
+
   async checkRepositoryExists(repositoryUrl: string): Promise<boolean> {
     try {
       const repoInfo = this.extractOwnerAndRepo(repositoryUrl);
@@ -0,0 +1,186 @@
+import { logger } from '../utils/logger.js';
+import { config } from '../utils/config.js';
+import { buildRecipeHistory } from '../utils/recipe-history.js';
+import { assertWithinGitHubRateLimit } from '../utils/error-handler.js';
+import { recipeYamlParser } from './recipe-yaml-parser.js';
+import type { ConanRecipeRevision, GitHubCommitResponse, GitHubContentResponse, GitHubTreeResponse, RecipeConfig, RecipeHistory, RecipeListing, RecipeSource, RemoteRecipeConfig } from '../types/index.js';
+
+const CONAN_CENTER_INDEX_REPO = 'https://api.github.com/repos/conan-io/conan-center-index';
+const CONAN_CENTER_INDEX_BRANCH = 'master';
+const REQUEST_TIMEOUT = 10000; // 10 seconds
+const MAX_FOLDER_COMMITS = 100;
+
+// Reads recipes from the conan-center-index repository through the GitHub API
+export class GitHubRecipeSource implements RecipeSource {
+  private listing: { etag: string; recipes: RecipeListing[] } | null = null;
+
+  constructor(readonly name: string = 'conancenter') {}
+
+  private async fetchWithTimeout(url: string, options: RequestInit = {}): Promise<Response> {
+    if (config.offline) {
+      throw new Error(`Network access is disabled in offline mode: ${url}`);
+    }
+
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), REQUEST_TIMEOUT);
+
+    try {
+      const response = await fetch(url, {
+        ...options,
+        signal: controller.signal,
+        headers: {
+          'User-Agent': 'conan-package-readme-mcp-server/1.0.0',
+          'Accept': 'application/json',
+          ...(config.githubToken && { 'Authorization': `Bearer ${config.githubToken}` }),
+          ...options.headers,
+        },
+      });
+
+      clearTimeout(timeout);
+      assertWithinGitHubRateLimit(response);
+      return response;
+    } catch (error) {
+      clearTimeout(timeout);
+      throw error;
+    }
+  }
+
+  private getRecipePath(packageName: string, relativePath?: string): string {
+    const recipePath = `recipes/${encodeURIComponent(packageName)}`;
+    return relativePath
+      ? `${recipePath}/${relativePath.split('/').map(encodeURIComponent).join('/')}`
+      : recipePath;
+  }
+
+  private async fetchRecipeFile(path: string): Promise<string | null> {
+    const fileUrl = `${CONAN_CENTER_INDEX_REPO}/contents/${path}`;
+
+    logger.debug(`Fetching recipe file: ${fileUrl}`);
+
+    const response = await this.fetchWithTimeout(fileUrl);
+
+    if (response.status === 404) {
+      return null;
+    }
+
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+    }
+
+    const data = await response.json() as GitHubContentResponse;
+
+    if (data.encoding !== 'base64' || typeof data.content !== 'string') {
+      logger.warn(`Unexpected encoding for recipe file ${path}: ${data.encoding}`);
+      return null;
+    }
+
+    return Buffer.from(data.content, 'base64').toString('utf-8');
+  }
+
+  async listRecipes(): Promise<RecipeListing[]> {
+    // The trees API is not capped at 1000 entries like the contents API
+    const treeUrl = `${CONAN_CENTER_INDEX_REPO}/git/trees/${CONAN_CENTER_INDEX_BRANCH}:recipes`;
+
+    logger.debug(`Listing recipes: ${treeUrl}`);
+
+    // A conditional request answers 304 while master is unchanged and is not rate limited
+    const response = await this.fetchWithTimeout(treeUrl, this.listing ? { headers: { 'If-None-Match': this.listing.etag } } : {});
+
+    if (response.status === 304 && this.listing) {
+      logger.debug('Recipe listing unchanged since last request');
+      return this.listing.recipes;
+    }
+
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+    }
+
+    const data = await response.json() as GitHubTreeResponse;
+
+    if (data.truncated) {
+      logger.warn(`Recipe listing was truncated by the GitHub API after ${data.tree.length} entries`);
+    }
+
+    const recipes = data.tree
+      .filter(entry => entry.type === 'tree')
+      .sort((a, b) => (a.path < b.path ? -1 : 1))
+      .map(entry => ({ name: entry.path, remote: this.name, sha: entry.sha }));
+
+    const etag = response.headers.get('etag');
+    this.listing = etag ? { etag, recipes } : null;
+
+    return recipes;
+  }
+
+  async getRecipeConfig(packageName: string): Promise<RemoteRecipeConfig | null> {
+    const content = await this.fetchRecipeFile(this.getRecipePath(packageName, 'config.yml'));
+    return content === null ? null : { ...recipeYamlParser.parseConfig(content), remote: this.name };
+  }
+
+  async readRecipeFile(packageName: string, folder: string, path: string): Promise<string | null> {
+    return this.fetchRecipeFile(this.getRecipePath(packageName, `${folder}/${path}`));
+  }
+
+  async listRecipeFiles(packageName: string, folder: string, path: string): Promise<string[]> {
+    const response = await this.fetchWithTimeout(`${CONAN_CENTER_INDEX_REPO}/contents/${this.getRecipePath(packageName, `${folder}/${path}`)}`);
+
+    if (!response.ok) {
+      return [];
+    }
+
+    const entries = await response.json() as GitHubContentResponse[];
+    return entries.filter(entry => entry.type === 'file').map(entry => entry.name);
+  }
+
+  private async fetchCommits(path: string, perPage: number, page: number = 1): Promise<{ commits: GitHubCommitResponse[]; lastPage: number }> {
+    const commitsUrl = new URL(`${CONAN_CENTER_INDEX_REPO}/commits`);
+    commitsUrl.searchParams.set('sha', CONAN_CENTER_INDEX_BRANCH);
+    commitsUrl.searchParams.set('path', path);
+    commitsUrl.searchParams.set('per_page', String(perPage));
+    commitsUrl.searchParams.set('page', String(page));
+
+    logger.debug(`Fetching recipe commits: ${commitsUrl.toString()}`);
+
+    const response = await this.fetchWithTimeout(commitsUrl.toString());
+
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+    }
+
+    // <...&page=42>; rel="last" tells how far back the history goes
+    const lastPage = /[?&]page=(\d+)>;\s*rel="last"/.exec(response.headers.get('link') ?? '')?.[1];
+
+    return {
+      commits: await response.json() as GitHubCommitResponse[],
+      lastPage: lastPage ? parseInt(lastPage, 10) : page,
+    };
+  }
+
+  async getRecipeHistory(packageName: string, recipeConfig: RecipeConfig): Promise<RecipeHistory | null> {
+    const toRevision = (commit: GitHubCommitResponse): ConanRecipeRevision => ({
+      id: commit.sha,
+      timestamp: new Date(commit.commit.committer.date).toISOString(),
+    });
+
+    // Newest commit on the package, then the page holding its oldest one
+    const recipePath = `recipes/${packageName}`;
+    const newest = await this.fetchCommits(recipePath, 1);
+    if (newest.commits.length === 0) {
+      return null;
+    }
+    const oldest = newest.lastPage > 1 ? await this.fetchCommits(recipePath, 1, newest.lastPage) : newest;
+
+    const folderRevisions = new Map<string, ConanRecipeRevision[]>();
+    for (const folder of new Set(Object.values(recipeConfig.versions).map(({ folder }) => folder))) {
+      const { commits } = await this.fetchCommits(`${recipePath}/${folder}`, MAX_FOLDER_COMMITS);
+      folderRevisions.set(folder, commits.map(toRevision));
+    }
+
+    return buildRecipeHistory(recipeConfig, folderRevisions, [...newest.commits, ...oldest.commits].map(toRevision));
+  }
+
+  async getUpdatedAt(packageName: string): Promise<string | null> {
+    const { commits: [newest] } = await this.fetchCommits(`recipes/${packageName}`, 1);
+    return newest ? new Date(newest.commit.committer.date).toISOString() : null;
+  }
+}
@@ -0,0 +1,133 @@
+import { readdir, readFile } from 'node:fs/promises';
+import { join, resolve, sep } from 'node:path';
+import { logger } from '../utils/logger.js';
+import { readGitLog, readTreeShas, type GitLogEntry } from '../utils/git.js';
+import { buildRecipeHistory } from '../utils/recipe-history.js';
+import { recipeYamlParser } from './recipe-yaml-parser.js';
+import type { ConanRecipeRevision, RecipeConfig, RecipeHistory, RecipeListing, RecipeSource, RemoteRecipeConfig } from '../types/index.js';
+
+// Reads recipes from a local clone of conan-center-index
+export class LocalRecipeSource implements RecipeSource {
+  private readonly rootPath: string;
+
+  constructor(rootPath: string, readonly name: string = 'local') {
+    this.rootPath = resolve(rootPath);
+  }
+
+  async listRecipes(): Promise<RecipeListing[]> {
+    const entries = await readdir(join(this.rootPath, 'recipes'), { withFileTypes: true });
+    const shas = await this.readTreeShas();
+
+    return entries
+      .filter(entry => entry.isDirectory())
+      .map(entry => entry.name)
+      .sort()
+      .map(name => ({ name, remote: this.name, ...(shas.has(name) && { sha: shas.get(name) }) }));
+  }
+
+  // Committed tree SHAs let the catalogue skip unchanged recipes; plain directories have none
+  private async readTreeShas(): Promise<Map<string, string>> {
+    try {
+      return await readTreeShas(this.rootPath, 'recipes');
+    } catch (error) {
+      logger.debug(`No git tree SHAs for local recipes in ${this.rootPath}:`, error);
+      return new Map();
+    }
+  }
+
+  async getRecipeConfig(packageName: string): Promise<RemoteRecipeConfig | null> {
+    const content = await this.readFile(packageName, 'config.yml');
+    return content === null ? null : { ...recipeYamlParser.parseConfig(content), remote: this.name };
+  }
+
+  async readRecipeFile(packageName: string, folder: string, path: string): Promise<string | null> {
+    return this.readFile(packageName, join(folder, path));
+  }
+
+  async listRecipeFiles(packageName: string, folder: string, path: string): Promise<string[]> {
+    const directoryPath = this.resolveRecipePath(packageName, join(folder, path));
+    if (!directoryPath) {
+      return [];
+    }
+
+    try {
+      const entries = await readdir(directoryPath, { withFileTypes: true });
+      return entries
+        .filter(entry => entry.isFile())
+        .map(entry => entry.name)
+        .sort();
+    } catch (error) {
+      logger.debug(`Local recipe directory not readable: ${directoryPath}`, error);
+      return [];
+    }
+  }
+
+  // Commit history of the recipe in the checkout; null when it is not a git clone
+  async getRecipeHistory(packageName: string, recipeConfig: RecipeConfig): Promise<RecipeHistory | null> {
+    const recipePath = this.resolveRecipePath(packageName, '.');
+    if (!recipePath) {
+      return null;
+    }
+
+    let entries: GitLogEntry[];
+    try {
+      entries = await readGitLog(this.rootPath, { path: `recipes/${packageName}`, nameOnly: true });
+    } catch (error) {
+      logger.debug(`No git history for local recipe ${packageName}:`, error);
+      return null;
+    }
+
+    const packageRevisions: ConanRecipeRevision[] = [];
+    const folderRevisions = new Map<string, ConanRecipeRevision[]>();
+    for (const entry of entries) {
+      const revision = { id: entry.sha, timestamp: entry.date };
+      packageRevisions.push(revision);
+
+      const folders = new Set(entry.files.map(file => file.split('/')).filter(parts => parts.length > 3).map(parts => parts[2] ?? ''));
+      for (const folder of folders) {
+        folderRevisions.set(folder, [...(folderRevisions.get(folder) ?? []), revision]);
+      }
+    }
+
+    return packageRevisions.length > 0 ? buildRecipeHistory(recipeConfig, folderRevisions, packageRevisions) : null;
+  }
+
+  async getUpdatedAt(packageName: string): Promise<string | null> {
+    if (!this.resolveRecipePath(packageName, '.')) {
+      return null;
+    }
+
+    try {
+      const [newest] = await readGitLog(this.rootPath, { path: `recipes/${packageName}`, maxCount: 1 });
+      return newest?.date ?? null;
+    } catch (error) {
+      logger.debug(`No git history for local recipe ${packageName}:`, error);
+      return null;
+    }
+  }
+
+  private async readFile(packageName: string, relativePath: string): Promise<string | null> {
+    const filePath = this.resolveRecipePath(packageName, relativePath);
+    if (!filePath) {
+      return null;
+    }
+
+    try {
+      return await readFile(filePath, 'utf-8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT' || (error as NodeJS.ErrnoException).code === 'ENOTDIR') {
+        logger.debug(`Local recipe file not found: ${filePath}`);
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  private resolveRecipePath(packageName: string, relativePath: string): string | null {
+    const recipesPath = join(this.rootPath, 'recipes');
+    const resolvedPath = resolve(recipesPath, packageName, relativePath);
+
+    // Keep lookups inside the checkout even for names like "../x"
+    return resolvedPath.startsWith(recipesPath + sep) ? resolvedPath : null;
+  }
+}
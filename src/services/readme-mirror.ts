@@ -0,0 +1,54 @@
+import { readdir, readFile } from 'node:fs/promises';
+import { join, resolve, sep } from 'node:path';
+import { logger } from '../utils/logger.js';
+import { config } from '../utils/config.js';
+import type { VersionedReadme } from '../types/index.js';
+
+const README_FILE_REGEX = /^readme(?:\.(?:md|markdown|rst|txt))?$/i;
+
+// Serves upstream READMEs from a local mirror laid out as <package>/<version>/README.md or <package>/README.md
+export class ReadmeMirror {
+  private readonly rootPath: string | undefined;
+
+  constructor(rootPath?: string) {
+    this.rootPath = rootPath ? resolve(rootPath) : undefined;
+  }
+
+  async getReadme(packageName: string, version: string): Promise<VersionedReadme | null> {
+    if (!this.rootPath) {
+      return null;
+    }
+
+    const versioned = await this.readReadme(this.rootPath, packageName, version);
+    if (versioned !== null) {
+      return { content: versioned, ref: version, fell_back_to_default_branch: false, source: 'mirror' };
+    }
+
+    const unversioned = await this.readReadme(this.rootPath, packageName);
+    if (unversioned !== null) {
+      return { content: unversioned, ref: 'HEAD', fell_back_to_default_branch: true, source: 'mirror' };
+    }
+
+    logger.debug(`No mirrored README for ${packageName}@${version}`);
+    return null;
+  }
+
+  private async readReadme(rootPath: string, ...segments: string[]): Promise<string | null> {
+    const directoryPath = resolve(rootPath, ...segments);
+
+    // Keep lookups inside the mirror even for names like "../x"
+    if (!directoryPath.startsWith(rootPath + sep)) {
+      return null;
+    }
+
+    try {
+      const entries = await readdir(directoryPath, { withFileTypes: true });
+      const readme = entries.find(entry => entry.isFile() && README_FILE_REGEX.test(entry.name));
+      return readme ? await readFile(join(directoryPath, readme.name), 'utf-8') : null;
+    } catch {
+      return null;
+    }
+  }
+}
+
+export const readmeMirror = new ReadmeMirror(config.readmeMirrorPath);
@@ -1,5 +1,5 @@
 import { logger } from '../utils/logger.js';
-import type { UsageExample } from '../types/index.js';
+import type { RecipeFile, UsageExample } from '../types/index.js';
 
 export class ReadmeParser {
   parseUsageExamples(readmeContent: string): UsageExample[] {
@@ -30,6 +30,38 @@ export class ReadmeParser {
     }
   }
 
+  parseTestPackageExamples(files: RecipeFile[]): UsageExample[] {
+    // Build scripts first, then sources, so examples read in the order they are used
+    const languageOrder = ['cmake', 'python'];
+    const rank = (example: UsageExample): number => {
+      const index = languageOrder.indexOf(example.language);
+      return index === -1 ? languageOrder.length : index;
+    };
+
+    return files
+      .filter(file => file.content.trim().length > 0)
+      .map(file => ({
+        title: `Conan Center test_package: ${file.path.split('/').pop()}`,
+        description: 'From the recipe test_package, which Conan Center CI builds and runs against this package',
+        code: file.content.trim(),
+        language: this.getFileLanguage(file.path),
+        verified_by_ci: true,
+      }))
+      .sort((a, b) => rank(a) - rank(b));
+  }
+
+  private getFileLanguage(path: string): string {
+    if (path.endsWith('CMakeLists.txt')) {
+      return 'cmake';
+    }
+
+    if (path.endsWith('.py')) {
+      return 'python';
+    }
+
+    return path.endsWith('.c') ? 'c' : 'cpp';
+  }
+
   private extractCMakeExamples(content: string): UsageExample[] {
     const examples: UsageExample[] = [];
     
@@ -0,0 +1,388 @@
+import { logger } from '../utils/logger.js';
+import { config } from '../utils/config.js';
+import { mapWithConcurrency } from '../utils/concurrency.js';
+import { getLatestVersion, sortVersions } from '../utils/version.js';
+import { CatalogueStore } from './catalogue-store.js';
+import { conanfileParser } from './conanfile-parser.js';
+import { recipeSource } from './recipe-source.js';
+import { RateLimitError } from '../types/index.js';
+import type { ParsedConanfile, RecipeConfig, RecipeCatalogueEntry, RecipeCatalogueRequirement, RecipeCatalogueIndex, RecipeCatalogueSnapshot, RecipeListing, RecipeSource } from '../types/index.js';
+
+const CATALOGUE_REFRESH_INTERVAL = 15 * 60 * 1000; // 15 minutes
+const ENTRY_TTL = 24 * 3600 * 1000; // 24 hours, for sources that report no tree SHAs
+const FAILED_ENTRY_RETRY = 6 * 3600 * 1000; // 6 hours
+const BUDGET_WINDOW = 3600 * 1000; // The request budget is per hour
+const RATE_LIMIT_BACKOFF = 15 * 60 * 1000; // When the source does not say when to retry
+const INDEX_CONCURRENCY = 8;
+
+// Thrown instead of issuing a request the budget has no room for; the recipe stays unread
+class BudgetExhaustedError extends Error {}
+
+// Keeps the full recipe listing of a source in memory, listing the source again once it is stale.
+// Recipe metadata is read in the background within a request budget, so no search waits for it;
+// recipes that have not been read yet are searchable by name only. With a store, the metadata
+// survives restarts and only changed recipes are read again.
+export class RecipeCatalogue {
+  private snapshot: RecipeCatalogueSnapshot | null = null;
+  private checkedAt = 0;
+  private pending: Promise<RecipeCatalogueSnapshot> | null = null;
+  private index: RecipeCatalogueIndex | null = null;
+  private indexedRecipes: RecipeListing[] | null = null;
+  private indexing: Promise<void> | null = null;
+  private loaded: Promise<void> | null = null;
+  private budget = { startedAt: 0, spent: 0 };
+  private pausedUntil = 0;
+
+  constructor(
+    private readonly source: RecipeSource = recipeSource,
+    private readonly store: CatalogueStore | null = null,
+    private readonly requestBudget: number = config.catalogueRequestBudget
+  ) {}
+
+  async getRecipes(refresh: boolean = false): Promise<RecipeListing[]> {
+    return (await this.getSnapshot(refresh)).recipes;
+  }
+
+  async getSnapshot(refresh: boolean = false): Promise<RecipeCatalogueSnapshot> {
+    if (this.snapshot && !refresh && Date.now() - this.checkedAt < CATALOGUE_REFRESH_INTERVAL) {
+      return this.snapshot;
+    }
+
+    // Concurrent callers share a single refresh
+    this.pending ??= this.refresh().finally(() => {
+      this.pending = null;
+    });
+
+    return this.pending;
+  }
+
+  // Every listed recipe, with the metadata read so far; never waits for recipes to be read
+  async getIndex(refresh: boolean = false): Promise<RecipeCatalogueIndex> {
+    const index = await this.getListedIndex(refresh);
+    this.startIndexing();
+    return index;
+  }
+
+  // Resolves once the background indexing that is under way, if any, has finished
+  async waitForIndexing(): Promise<void> {
+    await this.indexing;
+  }
+
+  // Reads every stale recipe regardless of the request budget, for the build command;
+  // a full rebuild reads every recipe again. Stops early when the source rate limits it,
+  // keeping the known entries of the recipes it did not get to.
+  async rebuild(full: boolean = false): Promise<RecipeCatalogueIndex> {
+    const index = await this.getListedIndex(true);
+
+    await this.indexing;
+    this.pausedUntil = 0;
+    this.indexing = this.indexStale(false, full).finally(() => {
+      this.indexing = null;
+    });
+    await this.indexing;
+
+    return this.index ?? index;
+  }
+
+  private async getListedIndex(refresh: boolean): Promise<RecipeCatalogueIndex> {
+    this.loaded ??= this.loadPersisted();
+    await this.loaded;
+
+    let snapshot: RecipeCatalogueSnapshot;
+    try {
+      snapshot = await this.getSnapshot(refresh);
+    } catch (error) {
+      if (!this.index) {
+        throw error;
+      }
+      logger.warn(`Failed to list recipes of ${this.source.name}, using the index built at ${this.index.built_at}:`, error);
+      return this.index;
+    }
+
+    // An unchanged listing comes back as the very same array
+    if (!this.index || this.indexedRecipes !== snapshot.recipes) {
+      this.index = this.applyListing(snapshot.recipes);
+      this.indexedRecipes = snapshot.recipes;
+    }
+
+    return this.index;
+  }
+
+  private async loadPersisted(): Promise<void> {
+    const persisted = await this.store?.load(this.source.name);
+    if (persisted) {
+      logger.info(`Loaded catalogue index of ${this.source.name} with ${persisted.recipe_count} recipes, built at ${persisted.built_at}`);
+      this.index = persisted;
+    }
+  }
+
+  // Known entries are kept, even when stale, until their recipe has been read again
+  private applyListing(recipes: RecipeListing[]): RecipeCatalogueIndex {
+    const known = new Map((this.index?.entries ?? []).map(entry => [entry.name, entry]));
+
+    const entries = recipes.map(recipe => {
+      const entry = known.get(recipe.name);
+      return entry && entry.remote === recipe.remote ? entry : this.listedEntry(recipe);
+    });
+
+    return {
+      source: this.source.name,
+      built_at: this.index?.built_at ?? new Date().toISOString(),
+      recipe_count: entries.length,
+      entries,
+    };
+  }
+
+  private listedEntry(recipe: RecipeListing): RecipeCatalogueEntry {
+    return {
+      name: recipe.name,
+      remote: recipe.remote,
+      versions: [],
+      topics: [],
+      requirements: [],
+      deprecated: false,
+    };
+  }
+
+  private startIndexing(): void {
+    if (this.indexing || Date.now() < this.pausedUntil || !this.hasBudget()) {
+      return;
+    }
+
+    this.indexing = this.indexStale(true)
+      .catch(error => {
+        logger.warn(`Failed to index recipes of ${this.source.name}:`, error);
+      })
+      .finally(() => {
+        this.indexing = null;
+      });
+  }
+
+  private async indexStale(budgeted: boolean, full: boolean = false): Promise<void> {
+    const recipes = this.indexedRecipes ?? [];
+    const known = new Map((this.index?.entries ?? []).map(entry => [entry.name, entry]));
+    const stale = full ? recipes : recipes.filter(recipe => !this.isCurrent(known.get(recipe.name), recipe));
+
+    if (stale.length === 0) {
+      return;
+    }
+
+    // One recipe at a time within a budget, so running out of it cuts at most one recipe short
+    let rateLimited = false;
+    const read = await mapWithConcurrency(stale, budgeted ? 1 : INDEX_CONCURRENCY, async recipe => {
+      if (rateLimited || (budgeted && !this.hasBudget())) {
+        return null;
+      }
+      try {
+        return await this.indexRecipe(recipe, budgeted);
+      } catch (error) {
+        if (error instanceof BudgetExhaustedError) {
+          return null;
+        }
+        if (!(error instanceof RateLimitError)) {
+          throw error;
+        }
+        rateLimited = true;
+        this.pause(error);
+        return null;
+      }
+    });
+
+    const updated = new Map(read.filter((entry): entry is RecipeCatalogueEntry => entry !== null).map(entry => [entry.name, entry]));
+    const remaining = stale.length - updated.size;
+
+    const unreadable = [...updated.values()].filter(entry => entry.latest_version === undefined).length;
+    if (unreadable > 0) {
+      logger.warn(`${unreadable} recipes of ${this.source.name} could not be indexed; they are only searchable by name`);
+    }
+    logger.info(
+      `Indexed ${updated.size} recipes of ${this.source.name}` +
+      `${remaining > 0 ? `, ${remaining} left for later${rateLimited ? '' : ' within the hourly request budget'}` : ''}`
+    );
+
+    if (updated.size === 0 || !this.index) {
+      return;
+    }
+
+    // The listing may have changed meanwhile, so the entries are merged into the current index
+    const entries = this.index.entries.map(entry => {
+      const read = updated.get(entry.name);
+      return read && read.remote === entry.remote ? read : entry;
+    });
+    this.index = { ...this.index, built_at: new Date().toISOString(), entries };
+
+    if (this.store) {
+      try {
+        await this.store.save(this.index);
+      } catch (error) {
+        logger.warn(`Failed to persist catalogue index of ${this.source.name}:`, error);
+      }
+    }
+  }
+
+  private isCurrent(entry: RecipeCatalogueEntry | undefined, recipe: RecipeListing): boolean {
+    if (!entry?.indexed_at || entry.remote !== recipe.remote) {
+      return false;
+    }
+    if (recipe.sha && entry.sha !== recipe.sha) {
+      return false;
+    }
+
+    // Unreadable recipes are retried now and then, not whenever the listing changes
+    const age = Date.now() - Date.parse(entry.indexed_at);
+    if (entry.latest_version === undefined) {
+      return age < FAILED_ENTRY_RETRY;
+    }
+    return recipe.sha !== undefined || age < ENTRY_TTL;
+  }
+
+  private hasBudget(): boolean {
+    if (Date.now() - this.budget.startedAt >= BUDGET_WINDOW) {
+      this.budget = { startedAt: Date.now(), spent: 0 };
+    }
+    return this.budget.spent < this.requestBudget;
+  }
+
+  // Reserves the request against the budget before it is issued; rebuilds count but are never refused
+  private request<T>(budgeted: boolean, call: () => Promise<T>): Promise<T> {
+    if (budgeted && !this.hasBudget()) {
+      throw new BudgetExhaustedError();
+    }
+    this.budget.spent++;
+    return call();
+  }
+
+  private pause(error: RateLimitError): void {
+    const retryAfter = (error.details as { retryAfter?: number } | undefined)?.retryAfter;
+    this.pausedUntil = Date.now() + (retryAfter ? retryAfter * 1000 : RATE_LIMIT_BACKOFF);
+    logger.warn(`${this.source.name} is rate limiting the catalogue, pausing indexing until ${new Date(this.pausedUntil).toISOString()}`);
+  }
+
+  // Rate limits and an exhausted budget are rethrown, so the recipe stays unread instead of being marked unreadable
+  private async indexRecipe(recipe: RecipeListing, budgeted: boolean): Promise<RecipeCatalogueEntry> {
+    const entry: RecipeCatalogueEntry = {
+      ...this.listedEntry(recipe),
+      ...(recipe.sha && { sha: recipe.sha }),
+      indexed_at: new Date().toISOString(),
+    };
+
+    try {
+      const recipeConfig = await this.request(budgeted, () => this.source.getRecipeConfig(recipe.name));
+      const versions = recipeConfig ? sortVersions(Object.keys(recipeConfig.versions)) : [];
+      const latestVersion = getLatestVersion(versions);
+      const latestFolder = latestVersion && recipeConfig?.versions[latestVersion]?.folder;
+      if (!recipeConfig || !latestVersion || !latestFolder) {
+        return entry;
+      }
+
+      // Search metadata comes from the newest folder; requirements from every folder, for reverse lookups
+      let parsed: ParsedConanfile | null = null;
+      const requirements: RecipeCatalogueRequirement[] = [];
+      for (const [folder, version] of this.getFolderVersions(recipeConfig)) {
+        const conanfile = await this.request(budgeted, () => this.source.readRecipeFile(recipe.name, folder, 'conanfile.py'));
+        if (!conanfile) {
+          continue;
+        }
+
+        const folderParsed = conanfileParser.parse(conanfile, version);
+        if (folder === latestFolder) {
+          parsed = folderParsed;
+        }
+
+        const seen = new Set<string>();
+        for (const requirement of folderParsed.requirements) {
+          const key = `${requirement.kind}|${requirement.reference}`;
+          if (!seen.has(key)) {
+            seen.add(key);
+            requirements.push({ ...requirement, version, folder });
+          }
+        }
+      }
+
+      const updatedAt = await this.readUpdatedAt(recipe.name, recipeConfig, budgeted);
+
+      return {
+        ...entry,
+        latest_version: latestVersion,
+        versions,
+        ...(parsed?.description && { description: parsed.description }),
+        ...(parsed?.license && { license: parsed.license }),
+        topics: parsed?.topics ?? [],
+        ...(parsed?.homepage && { homepage: parsed.homepage }),
+        requirements,
+        ...(parsed?.package_type && { package_type: parsed.package_type }),
+        deprecated: parsed?.deprecated !== undefined && parsed.deprecated !== false,
+        ...(typeof parsed?.deprecated === 'string' && { replaced_by: parsed.deprecated }),
+        ...(updatedAt && { updated_at: updatedAt }),
+      };
+    } catch (error) {
+      if (error instanceof RateLimitError || error instanceof BudgetExhaustedError) {
+        throw error;
+      }
+      logger.debug(`Failed to index recipe ${recipe.name}:`, error);
+      return entry;
+    }
+  }
+
+  // Each folder is read once, at the newest version it builds
+  private getFolderVersions(recipeConfig: RecipeConfig): Map<string, string> {
+    const folders = new Map<string, string[]>();
+    for (const [version, { folder }] of Object.entries(recipeConfig.versions)) {
+      folders.set(folder, [...(folders.get(folder) ?? []), version]);
+    }
+    return new Map([...folders].map(([folder, versions]) => [folder, getLatestVersion(versions) ?? versions[0] ?? '']));
+  }
+
+  // A missing date only affects date filters, so it does not fail the whole entry
+  private async readUpdatedAt(packageName: string, recipeConfig: RecipeConfig, budgeted: boolean): Promise<string | null> {
+    try {
+      return await this.request(budgeted, () => this.source.getUpdatedAt(packageName, recipeConfig));
+    } catch (error) {
+      if (error instanceof RateLimitError || error instanceof BudgetExhaustedError) {
+        throw error;
+      }
+      logger.debug(`Failed to get last change of recipe ${packageName}:`, error);
+      return null;
+    }
+  }
+
+  private async refresh(): Promise<RecipeCatalogueSnapshot> {
+    let recipes: RecipeListing[];
+    try {
+      recipes = await this.source.listRecipes();
+    } catch (error) {
+      if (!this.snapshot) {
+        throw error;
+      }
+      // A stale catalogue beats failing every search until the source is back
+      logger.warn(`Failed to refresh recipe catalogue of ${this.source.name}, keeping the previous listing:`, error);
+      this.checkedAt = Date.now();
+      return this.snapshot;
+    }
+
+    if (this.snapshot) {
+      this.logChanges(this.snapshot.recipes, recipes);
+    } else {
+      logger.info(`Recipe catalogue of ${this.source.name} lists ${recipes.length} recipes`);
+    }
+
+    this.snapshot = {
+      source: this.source.name,
+      refreshed_at: new Date().toISOString(),
+      recipes,
+    };
+    this.checkedAt = Date.now();
+    return this.snapshot;
+  }
+
+  private logChanges(previous: RecipeListing[], current: RecipeListing[]): void {
+    const previousShas = new Map(previous.map(recipe => [recipe.name, recipe.sha]));
+    const added = current.filter(recipe => !previousShas.has(recipe.name)).length;
+    const changed = current.filter(recipe => previousShas.has(recipe.name) && previousShas.get(recipe.name) !== recipe.sha).length;
+    const removed = previous.length - (current.length - added);
+
+    logger.debug(`Recipe catalogue of ${this.source.name} refreshed: ${added} added, ${changed} changed, ${removed} removed`);
+  }
+}
+
+export const recipeCatalogue = new RecipeCatalogue(recipeSource, new CatalogueStore(config.catalogueDir));
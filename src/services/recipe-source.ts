@@ -0,0 +1,115 @@
+import { logger } from '../utils/logger.js';
+import { config } from '../utils/config.js';
+import { GitHubRecipeSource } from './github-recipe-source.js';
+import { LocalRecipeSource } from './local-recipe-source.js';
+import { ConanRemoteSource } from './conan-remote-source.js';
+import type { RecipeConfig, RecipeHistory, RecipeListing, RecipeSource, RecipeSourceConfig, RemoteRecipeConfig } from '../types/index.js';
+
+// Looks packages up in several sources, highest priority first, like Conan does with remotes
+export class CompositeRecipeSource implements RecipeSource {
+  readonly name: string;
+  private readonly owners = new Map<string, RecipeSource>();
+
+  constructor(private readonly sources: RecipeSource[]) {
+    this.name = sources.map(source => source.name).join('+');
+  }
+
+  async listRecipes(): Promise<RecipeListing[]> {
+    const results = await Promise.allSettled(this.sources.map(source => source.listRecipes()));
+    const recipes = new Map<string, RecipeListing>();
+    let firstError: unknown;
+
+    // Sources are in priority order, so a recipe is attributed to the first one that has it
+    results.forEach((result, index) => {
+      if (result.status === 'fulfilled') {
+        result.value.forEach(recipe => {
+          if (!recipes.has(recipe.name)) {
+            recipes.set(recipe.name, recipe);
+          }
+        });
+      } else {
+        logger.warn(`Failed to list recipes from ${this.sources[index]?.name}:`, result.reason);
+        firstError ??= result.reason;
+      }
+    });
+
+    // One unreachable source should not hide the others
+    if (recipes.size === 0 && firstError !== undefined) {
+      throw firstError;
+    }
+
+    return [...recipes.values()].sort((a, b) => (a.name < b.name ? -1 : 1));
+  }
+
+  async getRecipeConfig(packageName: string): Promise<RemoteRecipeConfig | null> {
+    let firstError: unknown;
+
+    for (const source of this.sources) {
+      try {
+        const recipeConfig = await source.getRecipeConfig(packageName);
+        if (recipeConfig) {
+          this.owners.set(packageName, source);
+          return recipeConfig;
+        }
+      } catch (error) {
+        logger.debug(`Recipe source ${source.name} failed for ${packageName}:`, error);
+        firstError ??= error;
+      }
+    }
+
+    if (firstError !== undefined) {
+      throw firstError;
+    }
+
+    return null;
+  }
+
+  async readRecipeFile(packageName: string, folder: string, path: string): Promise<string | null> {
+    const owner = await this.getOwner(packageName);
+    return owner ? owner.readRecipeFile(packageName, folder, path) : null;
+  }
+
+  async listRecipeFiles(packageName: string, folder: string, path: string): Promise<string[]> {
+    const owner = await this.getOwner(packageName);
+    return owner ? owner.listRecipeFiles(packageName, folder, path) : [];
+  }
+
+  async getRecipeHistory(packageName: string, recipeConfig: RecipeConfig): Promise<RecipeHistory | null> {
+    const owner = await this.getOwner(packageName);
+    return owner ? owner.getRecipeHistory(packageName, recipeConfig) : null;
+  }
+
+  async getUpdatedAt(packageName: string, recipeConfig: RecipeConfig): Promise<string | null> {
+    const owner = await this.getOwner(packageName);
+    return owner ? owner.getUpdatedAt(packageName, recipeConfig) : null;
+  }
+
+  // Files must come from the source whose config.yml was used
+  private async getOwner(packageName: string): Promise<RecipeSource | undefined> {
+    if (!this.owners.has(packageName)) {
+      await this.getRecipeConfig(packageName);
+    }
+    return this.owners.get(packageName);
+  }
+}
+
+export function createRecipeSource(sourceConfigs: RecipeSourceConfig[]): RecipeSource {
+  const sources = sourceConfigs.map((sourceConfig): RecipeSource => {
+    switch (sourceConfig.kind) {
+      case 'local':
+        return new LocalRecipeSource(sourceConfig.location ?? '.', sourceConfig.name);
+      case 'remote':
+        return new ConanRemoteSource(sourceConfig.name, sourceConfig.location ?? '', sourceConfig.credentials);
+      case 'github':
+        return new GitHubRecipeSource(sourceConfig.name);
+    }
+  });
+
+  if (sources.length === 0) {
+    return new GitHubRecipeSource();
+  }
+
+  return sources.length === 1 && sources[0] ? sources[0] : new CompositeRecipeSource(sources);
+}
+
+export const recipeSource = createRecipeSource(config.recipeSources);
@@ -0,0 +1,89 @@
+import { parse } from 'yaml';
+import { logger } from '../utils/logger.js';
+import type { ConanData, ConanDataPatch, ConanDataSource, RecipeConfig } from '../types/index.js';
+
+export class RecipeYamlParser {
+  parseConfig(content: string): RecipeConfig {
+    const document = this.parseDocument(content);
+    const versions: RecipeConfig['versions'] = {};
+
+    const versionEntries = document?.versions;
+    if (!versionEntries || typeof versionEntries !== 'object') {
+      logger.debug('config.yml has no versions section');
+      return { versions };
+    }
+
+    for (const [version, entry] of Object.entries(versionEntries as Record<string, unknown>)) {
+      const folder = entry && typeof entry === 'object' ? (entry as { folder?: unknown }).folder : undefined;
+      if (typeof folder === 'string' && folder.length > 0) {
+        versions[version] = { folder };
+      }
+    }
+
+    return { versions };
+  }
+
+  parseConanData(content: string, version: string): ConanData {
+    const document = this.parseDocument(content);
+    const sources = this.asRecord(document?.sources)[version];
+    const patches = this.asRecord(document?.patches)[version];
+
+    return {
+      version,
+      sources: sources === undefined ? [] : this.collectSources(sources, []),
+      patches: Array.isArray(patches) ? patches.map(patch => this.toPatch(patch)) : [],
+    };
+  }
+
+  // Sources are either a single entry, a list of entries, or nested per platform/arch
+  private collectSources(node: unknown, path: string[]): ConanDataSource[] {
+    if (Array.isArray(node)) {
+      return node.flatMap(item => this.collectSources(item, path));
+    }
+
+    const entry = this.asRecord(node);
+
+    if ('url' in entry) {
+      const urls = Array.isArray(entry.url) ? entry.url : [entry.url];
+      return [{
+        url: urls.filter((url): url is string => typeof url === 'string'),
+        ...(typeof entry.sha256 === 'string' && { sha256: entry.sha256 }),
+        ...(typeof entry.strip_root === 'string' && { strip_root: entry.strip_root.toLowerCase() === 'true' }),
+        ...(path.length > 0 && { target: path.join('/') }),
+      }];
+    }
+
+    return Object.entries(entry).flatMap(([key, value]) => this.collectSources(value, [...path, key]));
+  }
+
+  private toPatch(node: unknown): ConanDataPatch {
+    const entry = this.asRecord(node);
+    const patch: ConanDataPatch = {};
+
+    for (const field of ['patch_file', 'patch_description', 'patch_type', 'patch_source', 'base_path'] as const) {
+      const value = entry[field];
+      if (typeof value === 'string') {
+        patch[field] = value.trim();
+      }
+    }
+
+    return patch;
+  }
+
+  private asRecord(value: unknown): Record<string, unknown> {
+    return value && typeof value === 'object' && !Array.isArray(value) ? value as Record<string, unknown> : {};
+  }
+
+  private parseDocument(content: string): Record<string, unknown> | null {
+    // The failsafe schema keeps every scalar a string, so "1.10" never turns into 1.1
+    const document: unknown = parse(content, { schema: 'failsafe' });
+
+    if (!document || typeof document !== 'object' || Array.isArray(document)) {
+      return null;
+    }
+
+    return document as Record<string, unknown>;
+  }
+}
+
+export const recipeYamlParser = new RecipeYamlParser();
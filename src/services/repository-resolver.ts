@@ -0,0 +1,131 @@
+import { logger } from '../utils/logger.js';
+import type { ConanDataSource, RepositoryInfo, RepositorySource } from '../types/index.js';
+
+const GITHUB_HOSTS = ['github.com', 'www.github.com', 'codeload.github.com', 'raw.githubusercontent.com'];
+
+// Recipe `url` attributes point at the recipe itself, never at the upstream project
+const IGNORED_REPOSITORIES = ['conan-io/conan-center-index'];
+
+export interface RepositoryCandidates {
+  homepage?: string | undefined;
+  recipeUrl?: string | undefined;
+  sources?: ConanDataSource[] | undefined;
+}
+
+export function parseGitHubRepository(url: string): { owner: string; repo: string } | null {
+  try {
+    const parsedUrl = new URL(url);
+
+    if (!GITHUB_HOSTS.includes(parsedUrl.hostname)) {
+      return null;
+    }
+
+    const pathParts = parsedUrl.pathname.split('/').filter(part => part.length > 0);
+
+    if (pathParts.length < 2) {
+      return null;
+    }
+
+    return {
+      owner: pathParts[0],
+      repo: pathParts[1].replace(/\.git$/, ''),
+    };
+  } catch {
+    return null;
+  }
+}
+
+// Archive and release URLs that embed the upstream tag
+const TAG_URL_PATTERNS = [
+  /^\/[^/]+\/[^/]+\/archive\/refs\/tags\/(.+?)\.(?:tar\.gz|tar\.bz2|tar\.xz|tgz|zip)$/,
+  /^\/[^/]+\/[^/]+\/releases\/download\/([^/]+)\//,
+  /^\/[^/]+\/[^/]+\/archive\/(.+?)\.(?:tar\.gz|tar\.bz2|tar\.xz|tgz|zip)$/,
+  /^\/[^/]+\/[^/]+\/(?:tar\.gz|zip|legacy\.tar\.gz)\/(?:refs\/tags\/)?(.+)$/,
+];
+
+export function extractTagFromUrl(url: string): string | undefined {
+  try {
+    const parsedUrl = new URL(url);
+
+    if (!GITHUB_HOSTS.includes(parsedUrl.hostname)) {
+      return undefined;
+    }
+
+    for (const pattern of TAG_URL_PATTERNS) {
+      const match = pattern.exec(decodeURIComponent(parsedUrl.pathname));
+      // Commit archives are pinned by SHA, not by a tag
+      if (match && !/^[0-9a-f]{40}$/.test(match[1])) {
+        return match[1];
+      }
+    }
+
+    return undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+export class RepositoryResolver {
+  resolve(candidates: RepositoryCandidates): RepositoryInfo | undefined {
+    const ordered: Array<[RepositorySource, string | undefined]> = [
+      ['homepage', candidates.homepage],
+      ['recipe_url', candidates.recipeUrl],
+      ...(candidates.sources ?? []).flatMap(source =>
+        source.url.map((url): [RepositorySource, string] => ['conandata', url])
+      ),
+    ];
+
+    for (const [source, url] of ordered) {
+      if (!url) {
+        continue;
+      }
+
+      const repository = parseGitHubRepository(url);
+      if (!repository || IGNORED_REPOSITORIES.includes(`${repository.owner}/${repository.repo}`.toLowerCase())) {
+        continue;
+      }
+
+      logger.debug(`Resolved upstream repository ${repository.owner}/${repository.repo} from ${source}`);
+      return {
+        type: 'git',
+        url: `https://github.com/${repository.owner}/${repository.repo}`,
+        source,
+      };
+    }
+
+    return undefined;
+  }
+
+  getTagCandidates(
+    repository: RepositoryInfo,
+    packageName: string,
+    version: string,
+    sources: ConanDataSource[] = []
+  ): string[] {
+    const target = parseGitHubRepository(repository.url);
+    const candidates: string[] = [];
+
+    // A tag from the conandata archive URL is exactly what Conan Center builds
+    for (const url of sources.flatMap(source => source.url)) {
+      const sourceRepository = parseGitHubRepository(url);
+      const tag = extractTagFromUrl(url);
+      if (tag && sourceRepository && target &&
+          sourceRepository.owner.toLowerCase() === target.owner.toLowerCase() &&
+          sourceRepository.repo.toLowerCase() === target.repo.toLowerCase()) {
+        candidates.push(tag);
+      }
+    }
+
+    candidates.push(
+      `v${version}`,
+      version,
+      `release-${version}`,
+      `${packageName}-${version}`,
+      `${packageName}_${version.replace(/\./g, '_')}`,
+    );
+
+    return [...new Set(candidates)];
+  }
+}
+
+export const repositoryResolver = new RepositoryResolver();
@@ -0,0 +1,69 @@
+import { compareVersions, isVersionRange, satisfiesRange } from '../utils/version.js';
+import { parseReference } from './dependency-resolver.js';
+import { RecipeCatalogue, recipeCatalogue } from './recipe-catalogue.js';
+import type { RecipeCatalogueIndex, ReverseDependency, ReverseDependencyIndex } from '../types/index.js';
+
+// Inverts the requirements the recipe catalogue records, so reverse lookups cost no requests of
+// their own and share the catalogue's persisted, incrementally refreshed reads
+export class ReverseDependencyIndexer {
+  private derived: { from: RecipeCatalogueIndex; index: ReverseDependencyIndex } | null = null;
+
+  constructor(private readonly catalogue: RecipeCatalogue = recipeCatalogue) {}
+
+  async getIndex(refresh: boolean = false): Promise<ReverseDependencyIndex> {
+    const catalogueIndex = await this.catalogue.getIndex(refresh);
+
+    // The catalogue hands out a new index object whenever an entry changes
+    if (this.derived?.from !== catalogueIndex) {
+      this.derived = { from: catalogueIndex, index: this.build(catalogueIndex) };
+    }
+
+    return this.derived.index;
+  }
+
+  build(catalogueIndex: RecipeCatalogueIndex): ReverseDependencyIndex {
+    const dependents: Record<string, ReverseDependency[]> = {};
+
+    for (const entry of catalogueIndex.entries) {
+      for (const { version, folder, ...requirement } of entry.requirements) {
+        const parsed = parseReference(requirement.reference);
+        if (!parsed) {
+          continue;
+        }
+
+        (dependents[parsed.name] ??= []).push({
+          name: entry.name,
+          version,
+          folder,
+          reference: requirement.reference,
+          constraint: parsed.version,
+          kind: requirement.kind,
+          enabled: requirement.enabled,
+          ...(requirement.condition && { condition: requirement.condition }),
+        });
+      }
+    }
+
+    return {
+      source: catalogueIndex.source,
+      built_at: catalogueIndex.built_at,
+      recipe_count: catalogueIndex.recipe_count,
+      indexed_count: catalogueIndex.entries.filter(entry => entry.latest_version !== undefined).length,
+      dependents,
+    };
+  }
+
+  findDependents(index: ReverseDependencyIndex, packageName: string, version?: string): ReverseDependency[] {
+    const dependents = index.dependents[packageName] ?? [];
+
+    if (!version) {
+      return dependents;
+    }
+
+    return dependents.filter(dependency => isVersionRange(dependency.constraint)
+      ? satisfiesRange(version, dependency.constraint)
+      : compareVersions(dependency.constraint, version) === 0);
+  }
+}
+
+export const reverseDependencyIndexer = new ReverseDependencyIndexer();
@@ -0,0 +1,99 @@
+import { cache, createCacheKey } from '../services/cache.js';
+import { conanCenterApi } from '../services/conan-center-api.js';
+import { dependencyResolver } from '../services/dependency-resolver.js';
+import { logger } from '../utils/logger.js';
+import { validatePackageName, validateVersion, validateBoolean, validateMaxDepth } from '../utils/validators.js';
+import { handleApiError } from '../utils/error-handler.js';
+import { resolveVersion } from '../utils/version.js';
+import { renderDot, renderMermaid } from '../utils/dependency-graph.js';
+import type { DependencyTreeResponse, GetDependencyTreeParams } from '../types/index.js';
+
+export async function getDependencyTree(params: GetDependencyTreeParams): Promise<DependencyTreeResponse> {
+  try {
+    // Validate parameters
+    const packageName = validatePackageName(params.package_name);
+    const version = validateVersion(params.version) || 'latest';
+    const includeToolRequires = validateBoolean(params.include_tool_requires, 'include_tool_requires') ?? false;
+    const includeTestRequires = validateBoolean(params.include_test_requires, 'include_test_requires') ?? false;
+    const includeMermaid = validateBoolean(params.include_mermaid, 'include_mermaid') ?? false;
+    const includeDot = validateBoolean(params.include_dot, 'include_dot') ?? false;
+    const maxDepth = validateMaxDepth(params.max_depth);
+
+    logger.debug(`Getting dependency tree for ${packageName}@${version}`);
+
+    // Check cache first
+    const sections = [
+      includeToolRequires && 'tool_requires',
+      includeTestRequires && 'test_requires',
+      includeMermaid && 'mermaid',
+      includeDot && 'dot',
+      `depth${maxDepth}`,
+    ].filter(Boolean).join(',');
+    const cacheKey = createCacheKey.dependencyTree(packageName, version, sections);
+    const cached = cache.get<DependencyTreeResponse>(cacheKey);
+    if (cached) {
+      logger.debug(`Using cached dependency tree for ${packageName}@${version}`);
+      return cached;
+    }
+
+    let recipeInfo;
+    try {
+      recipeInfo = await conanCenterApi.getRecipeInfo(packageName);
+    } catch (error) {
+      logger.debug(`Package not found: ${packageName}`);
+
+      const result: DependencyTreeResponse = {
+        package_name: packageName,
+        version,
+        tree: {
+          name: packageName,
+          reference: `${packageName}/${version}`,
+          kind: 'requires',
+          dependencies: [],
+          error: `Package '${packageName}' not found`,
+        },
+        packages: [],
+        cycles: [],
+        conflicts: [],
+        exists: false,
+      };
+
+      // Cache the negative result briefly
+      cache.set(cacheKey, result, 300 * 1000); // Cache for 5 minutes
+
+      return result;
+    }
+
+    const actualVersion = resolveVersion(version, Object.keys(recipeInfo.versions));
+    if (!actualVersion) {
+      throw new Error(`Version '${version}' not found for package '${packageName}'`);
+    }
+
+    const graph = await dependencyResolver.resolve(packageName, actualVersion, {
+      includeToolRequires,
+      includeTestRequires,
+      maxDepth,
+    });
+
+    const result: DependencyTreeResponse = {
+      package_name: packageName,
+      version: actualVersion,
+      requested_version: version,
+      tree: graph.tree,
+      packages: graph.packages,
+      cycles: graph.cycles,
+      conflicts: graph.conflicts,
+      ...(includeMermaid && { mermaid: renderMermaid(graph.tree) }),
+      ...(includeDot && { dot: renderDot(graph.tree) }),
+      exists: true,
+    };
+
+    // Cache the result
+    cache.set(cacheKey, result, 1800 * 1000); // Cache for 30 minutes
+
+    logger.info(`Resolved ${graph.packages.length} packages in the dependency tree of ${packageName}/${actualVersion}`);
+    return result;
+  } catch (error) {
+    handleApiError(error, `get dependency tree for ${params.package_name}`);
+  }
+}
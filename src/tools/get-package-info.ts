@@ -1,21 +1,35 @@
 import { cache, createCacheKey } from '../services/cache.js';
 import { conanCenterApi } from '../services/conan-center-api.js';
 import { logger } from '../utils/logger.js';
-import { validatePackageName, validateBoolean } from '../utils/validators.js';
+import { validatePackageName, validateVersion, validateBoolean } from '../utils/validators.js';
 import { handleApiError } from '../utils/error-handler.js';
-import type { GetPackageInfoParams, PackageInfoResponse, RepositoryInfo } from '../types/index.js';
+import { resolveVersion, sortVersions } from '../utils/version.js';
+import { getComponents } from '../utils/installation.js';
+import { repositoryResolver } from '../services/repository-resolver.js';
+import type { ConanData, GetPackageInfoParams, PackageComponent, PackageInfoResponse } from '../types/index.js';
 
 export async function getPackageInfo(params: GetPackageInfoParams): Promise<PackageInfoResponse> {
   try {
     // Validate parameters
     const packageName = validatePackageName(params.package_name);
+    const version = validateVersion(params.version) || 'latest';
     const includeDependencies = validateBoolean(params.include_dependencies, 'include_dependencies') ?? true;
     const includeOptions = validateBoolean(params.include_options, 'include_options') ?? false;
+    const includeSources = validateBoolean(params.include_sources, 'include_sources') ?? false;
+    const includeComponents = validateBoolean(params.include_components, 'include_components') ?? false;
+    const includeRevisions = validateBoolean(params.include_revisions, 'include_revisions') ?? false;
 
-    logger.debug(`Getting package info for ${packageName}`);
+    logger.debug(`Getting package info for ${packageName}@${version}`);
 
     // Check cache first
-    const cacheKey = createCacheKey.packageInfo(packageName, 'latest');
+    const sections = [
+      includeDependencies && 'dependencies',
+      includeOptions && 'options',
+      includeSources && 'sources',
+      includeComponents && 'components',
+      includeRevisions && 'revisions',
+    ].filter(Boolean).join(',');
+    const cacheKey = createCacheKey.packageInfo(packageName, version, sections);
     const cached = cache.get<PackageInfoResponse>(cacheKey);
     if (cached) {
       logger.debug(`Using cached info for ${packageName}`);
@@ -56,47 +70,78 @@ export async function getPackageInfo(params: GetPackageInfoParams): Promise<Pack
       throw new Error(`Failed to get package information for '${packageName}'`);
     }
 
-    // Get recipe details for dependencies and options if requested
+    const selectedVersion = version === 'latest'
+      ? recipeInfo.latest_version
+      : resolveVersion(version, Object.keys(recipeInfo.versions));
+
+    if (!selectedVersion) {
+      throw new Error(`Version '${version}' not found for package '${packageName}'`);
+    }
+
+    // config.yml only lists versions; description, license and homepage come from the conanfile,
+    // which also holds the dependencies, options and components
+    const recipeDetails = await conanCenterApi.getRecipeDetails(packageName, selectedVersion, recipeInfo);
+
     let dependencies: string[] | undefined;
     let options: Record<string, unknown> | undefined;
+    let defaultOptions: Record<string, unknown> | undefined;
+    let conandata: ConanData | undefined;
+    let components: PackageComponent[] | undefined;
 
-    if (includeDependencies || includeOptions) {
-      const recipeDetails = await conanCenterApi.getRecipeDetails(packageName, recipeInfo.latest_version);
-      
-      if (recipeDetails) {
-        if (includeDependencies) {
-          dependencies = recipeDetails.requires;
-        }
-        if (includeOptions) {
-          options = recipeDetails.options;
-        }
+    if (recipeDetails) {
+      if (includeDependencies) {
+        dependencies = recipeDetails.requires;
+      }
+      if (includeOptions) {
+        options = recipeDetails.options;
+        defaultOptions = recipeDetails.default_options;
+      }
+      if (includeComponents) {
+        components = getComponents(packageName, recipeDetails.package_info);
       }
     }
 
-    // Create repository info
-    let repository: RepositoryInfo | undefined;
-    if (recipeInfo.homepage) {
-      repository = {
-        type: 'git',
-        url: recipeInfo.homepage,
-      };
+    if (includeSources) {
+      conandata = await conanCenterApi.getConanData(packageName, selectedVersion, recipeInfo) ?? undefined;
+    }
+
+    // Revisions cost a few requests per package, so they are only fetched when asked for
+    const history = includeRevisions ? await conanCenterApi.getRecipeHistory(recipeInfo) : null;
+    const createdAt = history?.created_at ?? recipeInfo.created_at;
+    const updatedAt = history?.updated_at ?? recipeInfo.updated_at;
+    const revisions = history?.revisions[selectedVersion];
+
+    const homepage = recipeDetails?.homepage || recipeInfo.homepage || undefined;
+
+    // Locate the upstream repository the same way the README tool does; conandata is only read
+    // when neither the homepage nor the recipe url points at a repository
+    let repository = repositoryResolver.resolve({ homepage, recipeUrl: recipeDetails?.url });
+    if (!repository) {
+      const sources = (conandata ?? await conanCenterApi.getConanData(packageName, selectedVersion, recipeInfo))?.sources;
+      repository = repositoryResolver.resolve({ homepage, recipeUrl: recipeDetails?.url, sources });
     }
 
     const result: PackageInfoResponse = {
       name: packageName,
       package_name: packageName,
+      version: selectedVersion,
       latest_version: recipeInfo.latest_version,
-      versions: Object.keys(recipeInfo.versions).sort(),
-      description: recipeInfo.description,
-      author: recipeInfo.author,
-      license: recipeInfo.license,
-      ...(recipeInfo.homepage && { homepage: recipeInfo.homepage }),
-      topics: recipeInfo.topics,
+      versions: sortVersions(Object.keys(recipeInfo.versions)),
+      description: recipeDetails?.description ?? recipeInfo.description,
+      author: recipeDetails?.author ?? recipeInfo.author,
+      license: recipeDetails?.license ?? recipeInfo.license,
+      ...(homepage && { homepage }),
+      topics: recipeDetails?.topics ?? recipeInfo.topics,
       dependencies,
       options,
-      repository,
-      ...(recipeInfo.created_at && { created_at: recipeInfo.created_at }),
-      ...(recipeInfo.updated_at && { updated_at: recipeInfo.updated_at }),
+      ...(defaultOptions && { default_options: defaultOptions }),
+      ...(conandata && { conandata }),
+      ...(components && { components }),
+      ...(repository && { repository }),
+      ...(createdAt && { created_at: createdAt }),
+      ...(updatedAt && { updated_at: updatedAt }),
+      remote: recipeInfo.remote,
+      ...(revisions && { revisions }),
       exists: true,
     };
 
@@ -2,10 +2,14 @@ import { cache, createCacheKey } from '../services/cache.js';
 import { conanCenterApi } from '../services/conan-center-api.js';
 import { githubApi } from '../services/github-api.js';
 import { readmeParser } from '../services/readme-parser.js';
+import { repositoryResolver } from '../services/repository-resolver.js';
+import { readmeMirror } from '../services/readme-mirror.js';
 import { logger } from '../utils/logger.js';
-import { validatePackageName, validateVersion, validateBoolean } from '../utils/validators.js';
+import { validatePackageName, validateVersion, validateBoolean, validateConanVersion } from '../utils/validators.js';
 import { handleApiError } from '../utils/error-handler.js';
-import type { GetPackageReadmeParams, PackageReadmeResponse, UsageExample, InstallationInfo, PackageBasicInfo, RepositoryInfo } from '../types/index.js';
+import { resolveVersion } from '../utils/version.js';
+import { buildInstallationInfo, getCMakeInfo } from '../utils/installation.js';
+import type { CMakeInfo, GetPackageReadmeParams, PackageReadmeResponse, UsageExample, InstallationInfo, PackageBasicInfo, ReadmeRefInfo } from '../types/index.js';
 
 export async function getPackageReadme(params: GetPackageReadmeParams): Promise<PackageReadmeResponse> {
   try {
@@ -13,11 +17,12 @@ export async function getPackageReadme(params: GetPackageReadmeParams): Promise<
     const packageName = validatePackageName(params.package_name);
     const version = validateVersion(params.version) || 'latest';
     const includeExamples = validateBoolean(params.include_examples, 'include_examples') ?? true;
+    const conanVersion = validateConanVersion(params.conan_version) ?? 2;
 
     logger.debug(`Getting package README for ${packageName}@${version}`);
 
     // Check cache first
-    const cacheKey = createCacheKey.packageReadme(packageName, version);
+    const cacheKey = createCacheKey.packageReadme(packageName, version, conanVersion);
     const cached = cache.get<PackageReadmeResponse>(cacheKey);
     if (cached) {
       logger.debug(`Using cached README for ${packageName}@${version}`);
@@ -43,10 +48,7 @@ export async function getPackageReadme(params: GetPackageReadmeParams): Promise<
         description: '',
         readme_content: '',
         usage_examples: [],
-        installation: {
-          conan: `conan install --requires=${packageName}/${version}@`,
-          cmake: `find_package(${packageName} REQUIRED)`,
-        },
+        installation: buildInstallationInfo(packageName, version, undefined, conanVersion),
         basic_info: {
           name: packageName,
           version: version,
@@ -68,25 +70,65 @@ export async function getPackageReadme(params: GetPackageReadmeParams): Promise<
       throw new Error(`Failed to get package information for '${packageName}'`);
     }
     
-    // Determine the actual version to use
-    let actualVersion = version;
-    if (version === 'latest') {
-      actualVersion = recipeInfo.latest_version;
-    } else if (!recipeInfo.versions[version]) {
+    // Determine the actual version to use, resolving ranges and shortcuts like "1.2"
+    const actualVersion = version === 'latest'
+      ? recipeInfo.latest_version
+      : resolveVersion(version, Object.keys(recipeInfo.versions));
+
+    if (!actualVersion) {
       throw new Error(`Version '${version}' not found for package '${packageName}'`);
     }
 
+    if (actualVersion !== version) {
+      logger.debug(`Resolved ${packageName}@${version} to ${actualVersion}`);
+    }
+
+    // Locate the upstream repository from the homepage, the recipe url or the conandata sources
+    const [recipeDetails, conanData, testPackageFiles] = await Promise.all([
+      conanCenterApi.getRecipeDetails(packageName, actualVersion, recipeInfo),
+      conanCenterApi.getConanData(packageName, actualVersion, recipeInfo),
+      includeExamples ? conanCenterApi.getTestPackageFiles(packageName, actualVersion, recipeInfo) : Promise.resolve([]),
+    ]);
+
+    // config.yml only lists versions; description, license and homepage come from the conanfile
+    const description = recipeDetails?.description ?? recipeInfo.description;
+    const homepage = recipeDetails?.homepage || recipeInfo.homepage || undefined;
+
+    const repository = repositoryResolver.resolve({
+      homepage,
+      recipeUrl: recipeDetails?.url,
+      sources: conanData?.sources,
+    });
+
     // Get README content
     let readmeContent = '';
     let usageExamples: UsageExample[] = [];
 
-    if (recipeInfo.homepage) {
-      readmeContent = await githubApi.getReadmeContent(recipeInfo.homepage) || '';
+    // Prefer a locally mirrored README, then the one at the upstream tag matching this version
+    let readmeRef: ReadmeRefInfo | undefined;
+    let readme = await readmeMirror.getReadme(packageName, actualVersion);
+
+    if (!readme && repository) {
+      const tagCandidates = repositoryResolver.getTagCandidates(repository, packageName, actualVersion, conanData?.sources);
+      readme = await githubApi.getVersionedReadme(repository.url, tagCandidates);
+    }
+
+    if (readme) {
+      readmeContent = readme.content;
+      readmeRef = {
+        ref: readme.ref,
+        fell_back_to_default_branch: readme.fell_back_to_default_branch,
+        ...(readme.source && { source: readme.source }),
+      };
     }
 
+    // CMake and pkg-config names come from package_info(); packages like openssl do not use <name>::<name>
+    const installation = buildInstallationInfo(packageName, actualVersion, recipeDetails?.package_info, conanVersion);
+    const cmakeInfo = getCMakeInfo(packageName, recipeDetails?.package_info);
+
     // If no README found, create a basic one
     if (!readmeContent) {
-      readmeContent = createBasicReadme(packageName, actualVersion, recipeInfo.description);
+      readmeContent = createBasicReadme(packageName, description, installation, cmakeInfo);
     }
 
     // Parse usage examples if requested
@@ -94,37 +136,29 @@ export async function getPackageReadme(params: GetPackageReadmeParams): Promise<
       usageExamples = readmeParser.parseUsageExamples(readmeContent);
     }
 
-    // Create installation info
-    const installation: InstallationInfo = {
-      conan: `conan install --requires=${packageName}/${actualVersion}@`,
-      cmake: `find_package(${packageName} REQUIRED)`,
-    };
+    // test_package sources are guaranteed to build, even when the README has no examples
+    if (includeExamples && testPackageFiles.length > 0) {
+      usageExamples = [...usageExamples, ...readmeParser.parseTestPackageExamples(testPackageFiles)];
+    }
 
     // Create basic info
     const basicInfo: PackageBasicInfo = {
       name: packageName,
       version: actualVersion,
-      description: recipeInfo.description,
-      license: recipeInfo.license,
-      author: recipeInfo.author,
-      homepage: recipeInfo.homepage,
-      topics: recipeInfo.topics,
+      description,
+      license: recipeDetails?.license ?? recipeInfo.license,
+      author: recipeDetails?.author ?? recipeInfo.author,
+      homepage,
+      topics: recipeDetails?.topics ?? recipeInfo.topics,
     };
 
-    // Create repository info
-    let repository: RepositoryInfo | undefined;
-    if (recipeInfo.homepage) {
-      repository = {
-        type: 'git',
-        url: recipeInfo.homepage,
-      };
-    }
-
     const result: PackageReadmeResponse = {
       package_name: packageName,
       version: actualVersion,
-      description: recipeInfo.description,
+      requested_version: version,
+      description,
       readme_content: readmeContent,
+      readme_ref: readmeRef,
       usage_examples: usageExamples,
       installation,
       basic_info: basicInfo,
@@ -142,7 +176,14 @@ export async function getPackageReadme(params: GetPackageReadmeParams): Promise<
   }
 }
 
-function createBasicReadme(packageName: string, version: string, description: string): string {
+function createBasicReadme(packageName: string, description: string, installation: InstallationInfo, cmakeInfo: CMakeInfo): string {
+  const componentTargets = Object.entries(cmakeInfo.component_targets);
+  const componentSection = componentTargets.length > 0
+    ? `\nIndividual components can be linked separately:\n\n${componentTargets
+      .map(([component, target]) => `- \`${target}\` (${component})`)
+      .join('\n')}\n`
+    : '';
+
   return `# ${packageName}
 
 ${description}
@@ -152,25 +193,38 @@ ${description}
 Add the following to your conanfile.txt:
 
 \`\`\`
-[requires]
-${packageName}/${version}@
+${installation.conanfile_txt}
+\`\`\`
+
+Or declare it in your conanfile.py:
+
+\`\`\`python
+${installation.conanfile_py}
 \`\`\`
 
 Or use the command line:
 
 \`\`\`bash
-conan install --requires=${packageName}/${version}@
+${installation.conan}
 \`\`\`
 
 ## CMake Integration
 
 \`\`\`cmake
-find_package(${packageName} REQUIRED)
-target_link_libraries(your_target ${packageName}::${packageName})
+${installation.cmake}
+target_link_libraries(your_target ${cmakeInfo.targets.join(' ')})
+\`\`\`
+${componentSection}
+## pkg-config
+
+With the \`PkgConfigDeps\` generator:
+
+\`\`\`bash
+${installation.pkgconfig}
 \`\`\`
 
 ## Usage
 
 Refer to the package documentation for detailed usage instructions.
 `;
-}
\ No newline at end of file
+}
@@ -0,0 +1,121 @@
+import { cache, createCacheKey } from '../services/cache.js';
+import { githubApi } from '../services/github-api.js';
+import { config } from '../utils/config.js';
+import { readGitLog } from '../utils/git.js';
+import { logger } from '../utils/logger.js';
+import { validatePackageName, validateRecipeFolder, validateDate, validateLimit } from '../utils/validators.js';
+import { handleApiError } from '../utils/error-handler.js';
+import { ConanPackageReadmeMcpError, PackageNotFoundError } from '../types/index.js';
+import type { GetRecipeHistoryParams, RecipeCommit, RecipeHistoryResponse } from '../types/index.js';
+
+const CONAN_CENTER_INDEX_URL = 'https://github.com/conan-io/conan-center-index';
+
+// Squash merges end in "(#1234)", merge commits start with "Merge pull request #1234"
+export function extractPullRequestNumber(message: string): number | undefined {
+  const match = /\(#(\d+)\)\s*$/.exec(message) ?? /^Merge pull request #(\d+)/.exec(message);
+  return match?.[1] ? parseInt(match[1], 10) : undefined;
+}
+
+function toRecipeCommit(sha: string, date: string, author: string, message: string): RecipeCommit {
+  const subject = message.split('\n')[0] ?? '';
+  const pullRequest = extractPullRequestNumber(subject);
+  return {
+    sha,
+    date,
+    author,
+    message: subject,
+    ...(pullRequest !== undefined && { pull_request: pullRequest }),
+    url: `${CONAN_CENTER_INDEX_URL}/commit/${sha}`,
+  };
+}
+
+async function listGitHubCommits(path: string, since: string | undefined, until: string | undefined, limit: number): Promise<RecipeCommit[]> {
+  const commits = await githubApi.getCommits(CONAN_CENTER_INDEX_URL, { path, since, until, perPage: limit });
+
+  return commits.map(commit => toRecipeCommit(
+    commit.sha,
+    new Date(commit.commit.committer.date).toISOString(),
+    commit.commit.author.name,
+    commit.commit.message
+  ));
+}
+
+async function listLocalCommits(repositoryPath: string, path: string, since: string | undefined, until: string | undefined, limit: number): Promise<RecipeCommit[]> {
+  const entries = await readGitLog(repositoryPath, { path, since, until, maxCount: limit });
+  return entries.map(entry => toRecipeCommit(entry.sha, entry.date, entry.author, entry.subject));
+}
+
+export async function getRecipeHistory(params: GetRecipeHistoryParams): Promise<RecipeHistoryResponse> {
+  try {
+    // Validate parameters
+    const packageName = validatePackageName(params.package_name);
+    const folder = validateRecipeFolder(params.folder);
+    const since = validateDate(params.since, 'since');
+    const until = validateDate(params.until, 'until');
+    const limit = validateLimit(params.limit);
+
+    if (since && until && since > until) {
+      throw new ConanPackageReadmeMcpError('since must not be later than until', 'INVALID_PARAMETER');
+    }
+
+    const path = folder ? `recipes/${packageName}/${folder}` : `recipes/${packageName}`;
+
+    logger.debug(`Getting recipe history for ${path}`);
+
+    // Check cache first
+    const cacheKey = createCacheKey.recipeHistory(packageName, folder, since, until, limit);
+    const cached = cache.get<RecipeHistoryResponse>(cacheKey);
+    if (cached) {
+      logger.debug(`Using cached recipe history for ${path}`);
+      return cached;
+    }
+
+    // GitHub first; a local clone answers offline or when the API is unavailable
+    let commits: RecipeCommit[] | undefined;
+    let source: RecipeHistoryResponse['source'] = 'github';
+    if (!config.offline) {
+      try {
+        commits = await listGitHubCommits(path, since, until, limit);
+      } catch (error) {
+        if (!config.conanCenterIndexPath) {
+          throw error;
+        }
+        logger.warn(`Failed to fetch commits for ${path} from GitHub, using local checkout:`, error);
+      }
+    }
+
+    if (!commits) {
+      if (!config.conanCenterIndexPath) {
+        throw new ConanPackageReadmeMcpError(
+          'Recipe history needs GitHub access or a local conan-center-index clone (CONAN_CENTER_INDEX_PATH)',
+          'HISTORY_UNAVAILABLE'
+        );
+      }
+      commits = await listLocalCommits(config.conanCenterIndexPath, path, since, until, limit);
+      source = 'local';
+    }
+
+    // Without filters an empty history means the recipe was never added
+    if (commits.length === 0 && !folder && !since && !until) {
+      throw new PackageNotFoundError(packageName);
+    }
+
+    const result: RecipeHistoryResponse = {
+      package_name: packageName,
+      path,
+      ...(folder && { folder }),
+      ...(since && { since }),
+      ...(until && { until }),
+      commits,
+      total_count: commits.length,
+      source,
+    };
+
+    cache.set(cacheKey, result, 900 * 1000); // Cache for 15 minutes
+
+    logger.info(`Found ${commits.length} commits for ${path} (${source})`);
+    return result;
+  } catch (error) {
+    handleApiError(error, `get recipe history for ${params.package_name}`);
+  }
+}
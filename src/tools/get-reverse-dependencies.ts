@@ -0,0 +1,54 @@
+import { reverseDependencyIndexer } from '../services/reverse-dependency-index.js';
+import { logger } from '../utils/logger.js';
+import { validatePackageName, validateVersion, validateBoolean } from '../utils/validators.js';
+import { handleApiError } from '../utils/error-handler.js';
+import type { GetReverseDependenciesParams, ReverseDependenciesResponse } from '../types/index.js';
+
+export async function getReverseDependencies(params: GetReverseDependenciesParams): Promise<ReverseDependenciesResponse> {
+  try {
+    // Validate parameters
+    const packageName = validatePackageName(params.package_name);
+    const version = validateVersion(params.version);
+    const includeToolRequires = validateBoolean(params.include_tool_requires, 'include_tool_requires') ?? true;
+    const includeTestRequires = validateBoolean(params.include_test_requires, 'include_test_requires') ?? false;
+    const refresh = validateBoolean(params.refresh, 'refresh') ?? false;
+
+    logger.debug(`Getting reverse dependencies of ${packageName}${version ? `@${version}` : ''}`);
+
+    // Derived from the recipe catalogue; recipes it has not read yet are missing from the answer
+    const index = await reverseDependencyIndexer.getIndex(refresh);
+
+    const dependents = reverseDependencyIndexer.findDependents(index, packageName, version)
+      .filter(dependency =>
+        dependency.kind === 'requires' ||
+        (dependency.kind === 'tool_requires' && includeToolRequires) ||
+        (dependency.kind === 'test_requires' && includeTestRequires)
+      )
+      .sort((a, b) => a.name.localeCompare(b.name) || a.folder.localeCompare(b.folder));
+
+    const complete = index.indexed_count >= index.recipe_count;
+
+    const result: ReverseDependenciesResponse = {
+      package_name: packageName,
+      ...(version && { version }),
+      dependents,
+      total_count: dependents.length,
+      complete,
+      ...(!complete && {
+        warning: `Only ${index.indexed_count} of ${index.recipe_count} recipes have been read, so dependents may be missing. ` +
+          'Set GITHUB_TOKEN or run build-catalogue to read them all.',
+      }),
+      index: {
+        source: index.source,
+        built_at: index.built_at,
+        recipe_count: index.recipe_count,
+        indexed_count: index.indexed_count,
+      },
+    };
+
+    logger.info(`Found ${dependents.length} recipes depending on ${packageName}`);
+    return result;
+  } catch (error) {
+    handleApiError(error, `get reverse dependencies for ${params.package_name}`);
+  }
+}
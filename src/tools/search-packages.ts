@@ -1,20 +1,47 @@
 import { cache, createCacheKey } from '../services/cache.js';
 import { conanCenterApi } from '../services/conan-center-api.js';
 import { logger } from '../utils/logger.js';
-import { validateSearchQuery, validateLimit } from '../utils/validators.js';
+import { encodeSearchCursor, decodeSearchCursor } from '../utils/search-cursor.js';
+import { validateSearchQuery, validateLimit, validateOffset, validateStringList, validatePackageTypes, validateDate, validateBoolean } from '../utils/validators.js';
 import { handleApiError } from '../utils/error-handler.js';
-import type { SearchPackagesParams, SearchPackagesResponse } from '../types/index.js';
+import { ConanPackageReadmeMcpError } from '../types/index.js';
+import type { SearchFilters, SearchPackagesParams, SearchPackagesResponse } from '../types/index.js';
 
 export async function searchPackages(params: SearchPackagesParams): Promise<SearchPackagesResponse> {
   try {
     // Validate parameters
     const query = validateSearchQuery(params.query);
     const limit = validateLimit(params.limit);
+    const license = validateStringList(params.license, 'license');
+    const topics = validateStringList(params.topics, 'topics');
+    const packageType = validatePackageTypes(params.package_type);
+    const updatedSince = validateDate(params.updated_since, 'updated_since');
+    const excludeDeprecated = validateBoolean(params.exclude_deprecated, 'exclude_deprecated') ?? false;
 
-    logger.debug(`Searching packages with query: "${query}", limit: ${limit}`);
+    const filters: SearchFilters = {
+      ...(license && { license }),
+      ...(topics && { topics }),
+      ...(packageType && { package_type: packageType }),
+      ...(updatedSince && { updated_since: updatedSince }),
+      ...(excludeDeprecated && { exclude_deprecated: true }),
+    };
+    const filterKey = Object.keys(filters).length > 0 ? JSON.stringify(filters) : '';
+
+    // Clients that fill in schema defaults send offset 0 along with a cursor
+    if (params.cursor !== undefined && params.offset !== undefined && params.offset !== 0) {
+      throw new ConanPackageReadmeMcpError('Pass either offset or cursor, not both', 'INVALID_PARAMETER');
+    }
+    if (params.cursor !== undefined && typeof params.cursor !== 'string') {
+      throw new ConanPackageReadmeMcpError('cursor must be a string', 'INVALID_PARAMETER');
+    }
+    const offset = params.cursor !== undefined
+      ? decodeSearchCursor(params.cursor, query, filterKey)
+      : validateOffset(params.offset);
+
+    logger.debug(`Searching packages with query: "${query}", limit: ${limit}, offset: ${offset}${filterKey ? `, filters: ${filterKey}` : ''}`);
 
     // Check cache first
-    const cacheKey = createCacheKey.searchResults(query, limit);
+    const cacheKey = createCacheKey.searchResults(query, limit, filterKey, offset);
     const cached = cache.get<SearchPackagesResponse>(cacheKey);
     if (cached) {
       logger.debug(`Using cached search results for: ${query}`);
@@ -22,20 +49,27 @@ export async function searchPackages(params: SearchPackagesParams): Promise<Sear
     }
 
     // Search packages using Conan Center API
-    const searchResponse = await conanCenterApi.searchPackages(query, limit);
+    const searchResponse = await conanCenterApi.searchPackages(query, limit, filters, offset);
 
     // Use the results directly from the API response
+    const nextOffset = offset + searchResponse.results.length;
 
     const result: SearchPackagesResponse = {
       query,
+      ...(filterKey && { filters }),
       results: searchResponse.results,
       total_count: searchResponse.total_count,
+      offset,
+      ...(searchResponse.results.length > 0 && nextOffset < searchResponse.total_count && {
+        next_cursor: encodeSearchCursor(nextOffset, query, filterKey),
+      }),
+      catalogue: searchResponse.catalogue,
     };
 
     // Cache the result
     cache.set(cacheKey, result, 900 * 1000); // Cache for 15 minutes
 
-    logger.info(`Found ${searchResponse.results.length} packages for query: "${query}"`);
+    logger.info(`Found ${searchResponse.total_count} packages for query: "${query}", returning ${searchResponse.results.length} from offset ${offset}`);
     return result;
   } catch (error) {
     handleApiError(error, `search packages with query "${params.query}"`);
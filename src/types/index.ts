@@ -3,12 +3,19 @@ export interface UsageExample {
   description?: string | undefined;
   code: string;
   language: string; // 'cmake', 'cpp', 'bash', etc.
+  verified_by_ci?: boolean | undefined; // Taken from the recipe's test_package, which Conan Center CI builds
 }
 
+export type ConanClientVersion = 1 | 2;
+
 export interface InstallationInfo {
-  conan: string;      // "conan install --requires=package/version@"
+  conan: string;      // "conan install --requires=package/version" (Conan 2) or "conan install package/version@" (Conan 1)
+  conanfile_txt?: string | undefined; // [requires] / [generators] block
+  conanfile_py?: string | undefined;  // Consumer recipe with a requirements() method
   cmake?: string;     // "find_package(package REQUIRED)"
+  cmake_targets?: string[] | undefined; // Targets to pass to target_link_libraries()
   pkgconfig?: string; // "pkg-config --cflags --libs package"
+  pkgconfig_names?: string[] | undefined; // .pc files generated by PkgConfigDeps
 }
 
 export interface AuthorInfo {
@@ -17,10 +24,13 @@ export interface AuthorInfo {
   url?: string;
 }
 
+export type RepositorySource = 'homepage' | 'recipe_url' | 'conandata';
+
 export interface RepositoryInfo {
   type: string;
   url: string;
   directory?: string | undefined;
+  source?: RepositorySource | undefined; // Which recipe field the repository was derived from
 }
 
 export interface PackageBasicInfo {
@@ -34,10 +44,16 @@ export interface PackageBasicInfo {
 }
 
 export interface ConanRecipeRevision {
-  id: string;
+  id: string;        // Recipe revision on Conan remotes, commit SHA for conan-center-index sources
   timestamp: string;
 }
 
+export interface RecipeHistory {
+  created_at?: string | undefined; // First commit or revision of the recipe
+  updated_at?: string | undefined; // Latest commit or revision of the recipe
+  revisions: Record<string, ConanRecipeRevision[]>; // Keyed by version, newest first
+}
+
 export interface ConanPackageSearchResult {
   name: string;
   version: string;
@@ -50,30 +66,83 @@ export interface ConanPackageSearchResult {
   updated_at: string;
 }
 
+export interface ReadmeRefInfo {
+  ref: string; // Tag or branch the README was read from
+  fell_back_to_default_branch: boolean;
+  source?: 'github' | 'mirror' | undefined; // Where the README came from (default: github)
+}
+
+export interface VersionedReadme extends ReadmeRefInfo {
+  content: string;
+}
+
 // Tool Parameters
 export interface GetPackageReadmeParams {
   package_name: string;    // Package name (required)
-  version?: string;        // Version specification (optional, default: "latest")
+  version?: string;        // Version, range like "[>=1.2 <2]" or shortcut like "1.2" (optional, default: "latest")
   include_examples?: boolean; // Whether to include examples (optional, default: true)
+  conan_version?: ConanClientVersion; // Conan client syntax for installation snippets (optional, default: 2)
 }
 
 export interface GetPackageInfoParams {
   package_name: string;
+  version?: string;               // Version, range or shortcut (default: "latest")
   include_dependencies?: boolean; // Whether to include dependencies (default: true)
   include_options?: boolean; // Whether to include package options (default: false)
+  include_sources?: boolean; // Whether to include conandata sources and patches (default: false)
+  include_components?: boolean; // Whether to include package components (default: false)
+  include_revisions?: boolean; // Whether to include recipe revisions and dates (default: false)
+}
+
+export interface GetDependencyTreeParams {
+  package_name: string;
+  version?: string;                 // Version, range or shortcut (default: "latest")
+  include_tool_requires?: boolean;  // Whether to follow tool_requires (default: false)
+  include_test_requires?: boolean;  // Whether to include the root recipe's test_requires (default: false)
+  max_depth?: number;               // Maximum depth to expand (default: 10)
+  include_mermaid?: boolean;        // Whether to render the graph as a Mermaid flowchart (default: false)
+  include_dot?: boolean;            // Whether to render the graph as Graphviz DOT (default: false)
+}
+
+export interface GetReverseDependenciesParams {
+  package_name: string;
+  version?: string;                 // Only list dependents whose constraint admits this version (optional)
+  include_tool_requires?: boolean;  // Whether to include recipes that use the package as a tool (default: true)
+  include_test_requires?: boolean;  // Whether to include recipes that only test with the package (default: false)
+  refresh?: boolean;                // Rebuild the reverse-dependency index first (default: false)
 }
 
-export interface SearchPackagesParams {
+export interface GetRecipeHistoryParams {
+  package_name: string;
+  folder?: string;        // Only list commits touching this recipe folder, e.g. "all" (optional)
+  since?: string;         // Only list commits made at or after this date (optional)
+  until?: string;         // Only list commits made at or before this date (optional)
+  limit?: number;         // Max commits (default: 20)
+}
+
+export interface SearchPackagesParams extends SearchFilters {
   query: string;          // Search query
   limit?: number;         // Max results (default: 20)
+  offset?: number | undefined;  // Matches to skip (default: 0)
+  cursor?: string | undefined;  // next_cursor of the previous page, instead of offset
+}
+
+export interface SearchFilters {
+  license?: string[] | undefined;        // Any of these SPDX license ids, e.g. ["MIT", "BSL-1.0"]
+  topics?: string[] | undefined;         // All of these topics
+  package_type?: string[] | undefined;   // Any of these package types, e.g. ["header-library"]
+  updated_since?: string | undefined;    // Recipe changed at or after this date
+  exclude_deprecated?: boolean | undefined;
 }
 
 // Tool Responses
 export interface PackageReadmeResponse {
   package_name: string;
   version: string;
+  requested_version?: string; // Version specification as passed in, before resolution
   description: string;
   readme_content: string;
+  readme_ref?: ReadmeRefInfo | undefined;
   usage_examples: UsageExample[];
   installation: InstallationInfo;
   basic_info: PackageBasicInfo;
@@ -84,6 +153,7 @@ export interface PackageReadmeResponse {
 export interface PackageInfoResponse {
   name: string;
   package_name?: string;
+  version?: string;
   latest_version: string;
   versions?: string[];
   description: string;
@@ -93,16 +163,96 @@ export interface PackageInfoResponse {
   topics: string[];
   dependencies?: string[] | undefined;
   options?: Record<string, unknown> | undefined;
+  default_options?: Record<string, unknown> | undefined;
+  conandata?: ConanData | undefined;
+  components?: PackageComponent[] | undefined;
   repository?: RepositoryInfo | undefined;
   created_at?: string;
   updated_at?: string;
+  remote?: string | undefined; // Recipe source the package was found in
+  revisions?: ConanRecipeRevision[] | undefined; // Of the selected version, newest first
   exists: boolean;
 }
 
+export interface DependencyNode {
+  name: string;
+  version?: string | undefined;   // Resolved version, missing when nothing matched
+  reference: string;              // Requirement as declared by the parent, e.g. "zlib/[>=1.2.11 <2]"
+  kind: ConanRequirementKind;
+  condition?: string | undefined; // Settings-dependent condition the requirement is declared under
+  dependencies: DependencyNode[];
+  cycle?: boolean | undefined;    // Requires one of its own ancestors; not expanded further
+  truncated?: boolean | undefined; // Cut off at max_depth
+  error?: string | undefined;
+}
+
+export interface DependencyConflict {
+  name: string;
+  versions: string[];
+  required_by: Array<{
+    parent: string;
+    reference: string;
+    version: string;
+  }>;
+}
+
+export interface DependencyTreeResponse {
+  package_name: string;
+  version: string;
+  requested_version?: string;
+  tree: DependencyNode;
+  packages: string[];          // Every resolved reference in the graph
+  cycles: string[][];          // Reference paths ending in the repeated package
+  conflicts: DependencyConflict[];
+  mermaid?: string | undefined;
+  dot?: string | undefined;
+  exists: boolean;
+}
+
+export interface ReverseDependenciesResponse {
+  package_name: string;
+  version?: string | undefined;
+  dependents: ReverseDependency[];
+  total_count: number;
+  complete: boolean;                  // False while some listed recipes have not been read yet
+  warning?: string | undefined;
+  index: Omit<ReverseDependencyIndex, 'dependents'>;
+}
+
+export interface RecipeCommit {
+  sha: string;
+  date: string;                       // Commit date, ISO 8601 UTC
+  author: string;
+  message: string;                    // First line of the commit message
+  pull_request?: number | undefined;  // conan-center-index PR the commit was merged from
+  url: string;
+}
+
+export interface RecipeHistoryResponse {
+  package_name: string;
+  path: string;                       // Repository path the commits were listed for
+  folder?: string | undefined;
+  since?: string | undefined;
+  until?: string | undefined;
+  commits: RecipeCommit[];
+  total_count: number;
+  source: 'github' | 'local';
+}
+
 export interface SearchPackagesResponse {
   query: string;
+  filters?: SearchFilters | undefined;  // Filters that were applied, when any
   results: ConanCenterPackage[];
-  total_count: number;
+  total_count: number;                  // All matches, not just this page
+  offset: number;                       // Position of the first result among all matches
+  next_cursor?: string | undefined;     // Cursor of the next page, when there are more matches
+  catalogue: CatalogueCoverage;
+}
+
+// How much of the listed catalogue has been read; unread recipes match searches by name only
+export interface CatalogueCoverage {
+  recipe_count: number;
+  indexed_count: number;
 }
 
 // Cache Types
@@ -121,18 +271,23 @@ export interface CacheOptions {
 export interface ConanCenterSearchResponse {
   results: ConanCenterPackage[];
   total_count: number;
+  catalogue: CatalogueCoverage;
 }
 
 export interface ConanCenterPackage {
   name: string;
-  description: string;
+  description?: string | undefined;
   topics: string[];
-  license: string;
-  author: string;
+  license?: string | undefined;
+  author?: string | undefined;
   homepage?: string | undefined;
-  created_at: string;
-  updated_at: string;
-  latest_version: string;
+  created_at?: string | undefined;
+  updated_at?: string | undefined;
+  latest_version?: string | undefined; // Missing when the recipe could not be indexed
+  package_type?: string | undefined;
+  deprecated?: boolean | undefined;
+  remote: string; // Recipe source the package was found in, e.g. "conancenter"
+  score: number;  // Search relevance from 0 to 100; 100 is an exact name match
 }
 
 export interface ConanCenterRecipeResponse {
@@ -142,14 +297,152 @@ export interface ConanCenterRecipeResponse {
   license: string;
   author: string;
   homepage?: string | undefined;
-  created_at: string;
-  updated_at: string;
+  created_at?: string | undefined;
+  updated_at?: string | undefined;
   versions: {
     [version: string]: {
-      revisions: ConanRecipeRevision[];
+      folder: string;
     };
   };
   latest_version: string;
+  remote: string;
+}
+
+// Parsed recipes/<name>/<folder>/conandata.yml, narrowed to a single version
+export interface ConanDataSource {
+  url: string[];
+  sha256?: string | undefined;
+  strip_root?: boolean | undefined;
+  target?: string | undefined; // Key path for per-platform or multi-archive sources, e.g. "Windows/x86_64"
+}
+
+export interface ConanDataPatch {
+  patch_file?: string | undefined;
+  patch_description?: string | undefined;
+  patch_type?: string | undefined;
+  patch_source?: string | undefined;
+  base_path?: string | undefined;
+}
+
+export interface ConanData {
+  version: string;
+  sources: ConanDataSource[];
+  patches: ConanDataPatch[];
+}
+
+export interface RecipeFile {
+  path: string; // Relative to the recipe folder, e.g. "test_package/CMakeLists.txt"
+  content: string;
+}
+
+export type RecipeSourceKind = 'local' | 'github' | 'remote';
+
+export interface RecipeSourceConfig {
+  name: string;
+  kind: RecipeSourceKind;
+  location?: string | undefined; // Checkout path for local sources, base URL for remotes
+  credentials?: RemoteCredentials | undefined;
+}
+
+export interface RecipeListing {
+  name: string;
+  remote: string;              // Name of the source that serves the recipe
+  sha?: string | undefined;    // Git tree SHA of the recipe directory, when the source knows it
+}
+
+// Every recipe a source serves, as last listed by the recipe catalogue
+export interface RecipeCatalogueSnapshot {
+  source: string;
+  refreshed_at: string;
+  recipes: RecipeListing[];
+}
+
+// Search metadata of a recipe, read from config.yml and the conanfile.py of its newest version
+export interface RecipeCatalogueEntry {
+  name: string;
+  remote: string;
+  sha?: string | undefined;             // Tree SHA the entry was read at
+  latest_version?: string | undefined;  // Missing until the recipe has been read, or when it could not be
+  versions: string[];
+  description?: string | undefined;
+  license?: string | undefined;
+  topics: string[];
+  homepage?: string | undefined;
+  requirements: RecipeCatalogueRequirement[];  // Of every recipe folder, not just the newest
+  package_type?: string | undefined;
+  deprecated: boolean;
+  replaced_by?: string | undefined;     // Recipe named by a deprecated recipe as its successor
+  updated_at?: string | undefined;      // Date of the newest change to the recipe, when the source knows it
+  indexed_at?: string | undefined;      // When the recipe was last read; missing while it is only listed
+}
+
+// A requirement declared by one recipe folder, evaluated at the newest version the folder builds
+export interface RecipeCatalogueRequirement extends ConanRequirement {
+  version: string;
+  folder: string;
+}
+
+export interface RecipeCatalogueIndex {
+  source: string;
+  built_at: string;
+  recipe_count: number;
+  entries: RecipeCatalogueEntry[];
+}
+
+// On-disk form of a catalogue index; files of another format version are rebuilt
+export interface PersistedRecipeCatalogue extends RecipeCatalogueIndex {
+  format_version: number;
+}
+
+export interface RemoteRecipeConfig extends RecipeConfig {
+  remote: string;
+}
+
+export interface RemoteCredentials {
+  token?: string | undefined;    // Sent as a bearer token as-is
+  username?: string | undefined; // Exchanged for a token at /v2/users/authenticate
+  password?: string | undefined;
+}
+
+// A place recipes can be read from. Folders are the recipe folders named in config.yml;
+// sources without them (Conan remotes) use the version as the folder.
+export interface RecipeSource {
+  readonly name: string;
+  listRecipes(): Promise<RecipeListing[]>;
+  getRecipeConfig(packageName: string): Promise<RemoteRecipeConfig | null>; // null when the source does not have the package
+  readRecipeFile(packageName: string, folder: string, path: string): Promise<string | null>;
+  listRecipeFiles(packageName: string, folder: string, path: string): Promise<string[]>;
+  getRecipeHistory(packageName: string, recipeConfig: RecipeConfig): Promise<RecipeHistory | null>; // null when the source keeps no history
+  getUpdatedAt(packageName: string, recipeConfig: RecipeConfig): Promise<string | null>;            // Date of the newest change; one cheap lookup
+}
+
+// A recipe folder that declares a requirement on another package
+export interface ReverseDependency {
+  name: string;
+  version: string;      // Newest version built from the recipe folder
+  folder: string;
+  reference: string;    // Requirement as declared, e.g. "openssl/[>=1.1 <4]"
+  constraint: string;   // Version part of the reference
+  kind: ConanRequirementKind;
+  enabled: boolean;     // False when only non-default options pull it in
+  condition?: string | undefined;
+}
+
+export interface ReverseDependencyIndex {
+  source: string; // Name of the recipe source the index was built from
+  built_at: string;
+  recipe_count: number;
+  indexed_count: number; // Recipes whose requirements are known; the catalogue reads the others in the background
+  dependents: Record<string, ReverseDependency[]>; // Keyed by the required package name
+}
+
+// Parsed recipes/<name>/config.yml
+export interface RecipeConfig {
+  versions: {
+    [version: string]: {
+      folder: string;
+    };
+  };
 }
 
 export interface ConanRecipeDetails {
@@ -159,14 +452,90 @@ export interface ConanRecipeDetails {
   license: string;
   author: string;
   homepage?: string | undefined;
+  url?: string | undefined;
   topics: string[];
   requires?: string[] | undefined;
+  tool_requires?: string[] | undefined;
+  test_requires?: string[] | undefined;
+  requirements?: ConanRequirement[] | undefined;
   options?: Record<string, unknown> | undefined;
   generators?: string[] | undefined;
   settings?: string[] | undefined;
+  default_options?: Record<string, unknown> | undefined;
+  package_info?: ConanPackageInfo | undefined;
+}
+
+// Statically parsed conanfile.py
+export type PythonLiteral = string | number | boolean | null | PythonLiteral[] | { [key: string]: PythonLiteral };
+
+export interface ParsedConanfile {
+  name?: string | undefined;
+  description?: string | undefined;
+  license?: string | undefined;
+  author?: string | undefined;
+  homepage?: string | undefined;
+  url?: string | undefined;
+  topics: string[];
+  package_type?: string | undefined;
+  deprecated?: boolean | string | undefined; // True, or the name of the recipe that replaces it
+  requires: string[];
+  tool_requires: string[];
+  test_requires: string[];
+  requirements: ConanRequirement[];
+  options: Record<string, unknown>;
+  default_options: Record<string, unknown>;
+  settings: string[];
+  generators: string[];
+  package_info: ConanPackageInfo;
+}
+
+export type ConanRequirementKind = 'requires' | 'tool_requires' | 'test_requires';
+
+// A requirement evaluated against the recipe version and its default options
+export interface ConanRequirement {
+  reference: string;              // As declared, e.g. "zlib/[>=1.2.11 <2]"
+  kind: ConanRequirementKind;
+  enabled: boolean;               // False when the default options rule it out
+  condition?: string | undefined; // Enclosing conditions that depend on settings and could not be evaluated
+}
+
+// Properties set in package_info(), e.g. self.cpp_info.set_property("cmake_file_name", "OpenSSL")
+export interface ConanComponentInfo {
+  properties: Record<string, string>;
+  libs: string[];
+  system_libs: string[];
+  requires: string[]; // "comp" for the same package, "pkg::comp" for another package
+}
+
+export interface ConanPackageInfo extends ConanComponentInfo {
+  components: Record<string, ConanComponentInfo>;
+}
+
+export interface PackageComponent {
+  name: string;
+  cmake_target: string;
+  pkg_config_name: string;
+  libs: string[];
+  system_libs: string[];
+  requires_components: string[];
+  requires_packages: string[];
+}
+
+export interface CMakeInfo {
+  file_name: string;                       // find_package(<file_name>)
+  targets: string[];                       // Targets consumers should link
+  component_targets: Record<string, string>;
 }
 
 // GitHub API Types (for README fetching)
+export interface GitHubRefResponse {
+  ref: string;                        // e.g. "refs/tags/v1.0.0"
+  object: {
+    sha: string;
+    type: string;
+  };
+}
+
 export interface GitHubReadmeResponse {
   name: string;
   path: string;
@@ -186,6 +555,59 @@ export interface GitHubReadmeResponse {
   };
 }
 
+export interface GitHubContentResponse {
+  name: string;
+  path: string;
+  sha: string;
+  size: number;
+  type: string;
+  content?: string;
+  encoding?: string;
+}
+
+export interface GitHubTreeEntry {
+  path: string;
+  mode: string;
+  type: 'blob' | 'tree' | 'commit';
+  sha: string;
+  size?: number;
+}
+
+export interface GitHubTreeResponse {
+  sha: string;
+  tree: GitHubTreeEntry[];
+  truncated: boolean;
+}
+
+export interface GitHubCommitResponse {
+  sha: string;
+  html_url: string;
+  commit: {
+    message: string;
+    author: { name: string; email: string; date: string };
+    committer: { name: string; email: string; date: string };
+  };
+}
+
+// Conan v2 REST API responses
+export interface ConanRemoteSearchResponse {
+  results: string[]; // References, e.g. "zlib/1.3.1"
+}
+
+export interface ConanRemoteRevision {
+  revision: string;
+  time: string;
+}
+
+export interface ConanRemoteRevisionsResponse {
+  reference: string;
+  revisions: ConanRemoteRevision[]; // Newest first
+}
+
+export interface ConanRemoteFilesResponse {
+  files: Record<string, Record<string, unknown>>;
+}
+
 // Error Types
 export class ConanPackageReadmeMcpError extends Error {
   constructor(
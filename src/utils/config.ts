@@ -0,0 +1,101 @@
+import { homedir } from 'node:os';
+import { join } from 'node:path';
+import type { RecipeSourceConfig, RemoteCredentials } from '../types/index.js';
+
+export interface ServerConfig {
+  conanCenterIndexPath?: string | undefined; // Local clone of conan-center-index; recipes are read from it instead of GitHub
+  readmeMirrorPath?: string | undefined;     // Directory of mirrored upstream READMEs, <package>[/<version>]/README.md
+  offline: boolean;                          // Never touch the network
+  githubToken?: string | undefined;          // Raises the GitHub API rate limit from 60 to 5000 requests per hour
+  recipeSources: RecipeSourceConfig[];       // Where recipes are looked up, highest priority first
+  catalogueDir: string;                      // Where the recipe catalogue index is persisted between runs
+  catalogueRequestBudget: number;            // Requests per hour the catalogue may spend reading recipes in the background
+}
+
+// GitHub allows 5000 requests per hour with a token and 60 without; other sources are not rate limited
+export function defaultCatalogueRequestBudget(recipeSources: RecipeSourceConfig[], githubToken?: string): number {
+  if (!recipeSources.some(source => source.kind === 'github')) {
+    return Infinity;
+  }
+  return githubToken ? 1000 : 20;
+}
+
+// CONAN_RECIPE_SOURCES is a comma-separated list of [name=]location entries, where location is
+// "github", "local" (the CONAN_CENTER_INDEX_PATH checkout), a checkout path or a Conan remote URL:
+//   CONAN_RECIPE_SOURCES="internal=https://artifactory.example.com/artifactory/api/conan/conan,github"
+export function parseRecipeSources(value: string | undefined, conanCenterIndexPath?: string): RecipeSourceConfig[] {
+  if (!value || value.trim().length === 0) {
+    return conanCenterIndexPath
+      ? [{ name: 'local', kind: 'local', location: conanCenterIndexPath }]
+      : [{ name: 'conancenter', kind: 'github' }];
+  }
+
+  return value.split(',')
+    .map(entry => entry.trim())
+    .filter(entry => entry.length > 0)
+    .map((entry): RecipeSourceConfig => {
+      // URLs contain no "=" before the scheme, so only a leading name= is split off
+      const match = /^([\w.-]+)=(.+)$/.exec(entry);
+      const name = match?.[1];
+      const location = (match?.[2] ?? entry).trim();
+
+      if (location === 'github') {
+        return { name: name ?? 'conancenter', kind: 'github' };
+      }
+      if (/^https?:\/\//i.test(location)) {
+        return { name: name ?? new URL(location).host, kind: 'remote', location };
+      }
+      if (location === 'local') {
+        if (!conanCenterIndexPath) {
+          throw new Error('CONAN_RECIPE_SOURCES lists "local" but CONAN_CENTER_INDEX_PATH is not set');
+        }
+        return { name: name ?? 'local', kind: 'local', location: conanCenterIndexPath };
+      }
+      return { name: name ?? 'local', kind: 'local', location };
+    });
+}
+
+// Same variables the Conan client reads, e.g. CONAN_LOGIN_USERNAME_INTERNAL for a remote named "internal"
+export function loadRemoteCredentials(remoteName: string, env: NodeJS.ProcessEnv = process.env): RemoteCredentials | undefined {
+  const suffix = remoteName.toUpperCase().replace(/[^A-Z0-9]/g, '_');
+  const value = (name: string): string | undefined => {
+    const raw = env[`${name}_${suffix}`] ?? env[name];
+    return raw && raw.trim().length > 0 ? raw.trim() : undefined;
+  };
+
+  const token = value('CONAN_TOKEN');
+  const username = value('CONAN_LOGIN_USERNAME');
+  const password = value('CONAN_PASSWORD');
+
+  if (!token && !(username && password)) {
+    return undefined;
+  }
+
+  return token ? { token } : { username, password };
+}
+
+export function loadConfig(env: NodeJS.ProcessEnv = process.env): ServerConfig {
+  const nonEmpty = (value: string | undefined): string | undefined =>
+    value && value.trim().length > 0 ? value.trim() : undefined;
+
+  const conanCenterIndexPath = nonEmpty(env.CONAN_CENTER_INDEX_PATH);
+  const githubToken = nonEmpty(env.GITHUB_TOKEN);
+  const recipeSources = parseRecipeSources(env.CONAN_RECIPE_SOURCES, conanCenterIndexPath).map(source => {
+    const credentials = source.kind === 'remote' ? loadRemoteCredentials(source.name, env) : undefined;
+    return credentials ? { ...source, credentials } : source;
+  });
+  const requestBudget = Number(nonEmpty(env.CONAN_CATALOGUE_REQUEST_BUDGET));
+
+  return {
+    conanCenterIndexPath,
+    readmeMirrorPath: nonEmpty(env.CONAN_README_MIRROR_PATH),
+    offline: ['1', 'true', 'yes'].includes((env.CONAN_OFFLINE ?? '').trim().toLowerCase()),
+    githubToken,
+    recipeSources,
+    catalogueDir: nonEmpty(env.CONAN_CATALOGUE_DIR)
+      ?? join(nonEmpty(env.XDG_CACHE_HOME) ?? join(homedir(), '.cache'), 'conan-package-readme-mcp'),
+    catalogueRequestBudget: requestBudget >= 0 ? requestBudget : defaultCatalogueRequestBudget(recipeSources, githubToken),
+  };
+}
+
+export const config = loadConfig();
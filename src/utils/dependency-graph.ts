@@ -0,0 +1,64 @@
+import type { DependencyNode } from '../types/index.js';
+
+interface GraphEdge {
+  from: string;
+  to: string;
+  kind: DependencyNode['kind'];
+}
+
+function getNodeLabel(node: DependencyNode): string {
+  return node.version ? `${node.name}/${node.version}` : node.reference;
+}
+
+// Flattens the nested tree into unique nodes and edges; shared subtrees appear once
+function collectGraph(root: DependencyNode): { nodes: string[]; edges: GraphEdge[] } {
+  const nodes = new Set<string>();
+  const edges = new Map<string, GraphEdge>();
+
+  const visit = (node: DependencyNode): void => {
+    const label = getNodeLabel(node);
+    nodes.add(label);
+
+    for (const child of node.dependencies) {
+      const edge: GraphEdge = { from: label, to: getNodeLabel(child), kind: child.kind };
+      edges.set(`${edge.from}|${edge.to}|${edge.kind}`, edge);
+      visit(child);
+    }
+  };
+
+  visit(root);
+  return { nodes: [...nodes], edges: [...edges.values()] };
+}
+
+export function renderMermaid(root: DependencyNode): string {
+  const { nodes, edges } = collectGraph(root);
+  const ids = new Map(nodes.map((label, index) => [label, `n${index}`]));
+
+  const lines = ['graph TD'];
+  for (const [label, id] of ids) {
+    lines.push(`  ${id}["${label.replace(/"/g, '#quot;')}"]`);
+  }
+  for (const edge of edges) {
+    const arrow = edge.kind === 'requires' ? '-->' : `-.->|${edge.kind}|`;
+    lines.push(`  ${ids.get(edge.from)} ${arrow} ${ids.get(edge.to)}`);
+  }
+
+  return lines.join('\n');
+}
+
+export function renderDot(root: DependencyNode): string {
+  const { nodes, edges } = collectGraph(root);
+  const quote = (value: string): string => `"${value.replace(/"/g, '\\"')}"`;
+
+  const lines = ['digraph dependencies {'];
+  for (const label of nodes) {
+    lines.push(`  ${quote(label)};`);
+  }
+  for (const edge of edges) {
+    const attributes = edge.kind === 'requires' ? '' : ` [style=dashed, label=${quote(edge.kind)}]`;
+    lines.push(`  ${quote(edge.from)} -> ${quote(edge.to)}${attributes};`);
+  }
+  lines.push('}');
+
+  return lines.join('\n');
+}
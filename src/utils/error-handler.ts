@@ -1,5 +1,6 @@
 import { logger } from './logger.js';
-import type { ConanPackageReadmeMcpError, NetworkError, PackageNotFoundError, RateLimitError, VersionNotFoundError } from '../types/index.js';
+import { RateLimitError } from '../types/index.js';
+import type { ConanPackageReadmeMcpError, NetworkError, PackageNotFoundError, VersionNotFoundError } from '../types/index.js';
 
 export function handleApiError(error: unknown, context: string): never {
   logger.error(`API error in ${context}`, { error });
@@ -65,6 +66,21 @@ export function isRateLimitError(error: unknown): error is RateLimitError {
           error.message.includes('429'));
 }
 
+// GitHub answers 429, or 403 with no requests left or a Retry-After, once a rate limit is hit
+export function assertWithinGitHubRateLimit(response: Response): void {
+  const header = (name: string): string | null => response.headers?.get(name) ?? null;
+  const retryAfter = header('retry-after');
+
+  if (response.status !== 429 && !(response.status === 403 && (header('x-ratelimit-remaining') === '0' || retryAfter))) {
+    return;
+  }
+
+  const seconds = retryAfter
+    ? Number(retryAfter)
+    : Number(header('x-ratelimit-reset')) - Math.floor(Date.now() / 1000);
+  throw new RateLimitError('GitHub API', seconds > 0 ? seconds : undefined);
+}
+
 export function extractErrorMessage(error: unknown): string {
   if (error instanceof Error) {
     return error.message;
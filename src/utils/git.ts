@@ -0,0 +1,66 @@
+import { execFile } from 'node:child_process';
+import { promisify } from 'node:util';
+import { toIsoTimestamp } from './recipe-history.js';
+
+const execFileAsync = promisify(execFile);
+const GIT_TIMEOUT = 30000; // 30 seconds
+
+export interface GitLogOptions {
+  path: string;                     // Limit the log to this path, relative to the repository root
+  since?: string | undefined;
+  until?: string | undefined;
+  maxCount?: number | undefined;
+  nameOnly?: boolean | undefined;   // Also list the files each commit touched
+}
+
+export interface GitLogEntry {
+  sha: string;
+  date: string;                     // Committer date, ISO 8601 UTC
+  author: string;
+  subject: string;
+  files: string[];
+}
+
+// Runs `git log` in a local clone; rejects when the directory is not a git repository
+export async function readGitLog(repositoryPath: string, options: GitLogOptions): Promise<GitLogEntry[]> {
+  const args = [
+    '-C', repositoryPath, 'log',
+    '--format=%x00%H%x1f%cI%x1f%an%x1f%s',
+    ...(options.nameOnly ? ['--name-only', '--relative'] : []),
+    ...(options.since ? [`--since=${options.since}`] : []),
+    ...(options.until ? [`--until=${options.until}`] : []),
+    ...(options.maxCount ? [`--max-count=${options.maxCount}`] : []),
+    '--', options.path,
+  ];
+
+  const { stdout } = await execFileAsync('git', args, { timeout: GIT_TIMEOUT, maxBuffer: 32 * 1024 * 1024 });
+
+  // Each commit is "\0<sha>\x1f<date>\x1f<author>\x1f<subject>" followed by the files it touched
+  return stdout
+    .split('\0')
+    .filter(chunk => chunk.trim().length > 0)
+    .map(chunk => {
+      const [header = '', ...files] = chunk.split('\n').filter(line => line.length > 0);
+      const [sha = '', date = '', author = '', subject = ''] = header.split('\x1f');
+      return { sha, date: toIsoTimestamp(date), author, subject, files };
+    });
+}
+
+// Tree SHAs of the directories directly under `path` at HEAD, keyed by directory name
+export async function readTreeShas(repositoryPath: string, path: string): Promise<Map<string, string>> {
+  const { stdout } = await execFileAsync(
+    'git',
+    ['-C', repositoryPath, 'ls-tree', '-d', 'HEAD', `${path.replace(/\/+$/, '')}/`],
+    { timeout: GIT_TIMEOUT, maxBuffer: 32 * 1024 * 1024 }
+  );
+
+  // "040000 tree <sha>\t<path>/<name>"
+  const shas = new Map<string, string>();
+  for (const line of stdout.split('\n')) {
+    const match = /^\d+ tree ([0-9a-f]+)\t(?:.*\/)?([^/]+)$/.exec(line);
+    if (match?.[1] && match[2]) {
+      shas.set(match[2], match[1]);
+    }
+  }
+  return shas;
+}
@@ -0,0 +1,99 @@
+import type { CMakeInfo, ConanClientVersion, ConanPackageInfo, InstallationInfo, PackageComponent } from '../types/index.js';
+
+// Mirrors the defaults CMakeDeps applies when a recipe sets no cmake_* properties
+export function getCMakeInfo(packageName: string, packageInfo?: ConanPackageInfo): CMakeInfo {
+  const properties = packageInfo?.properties ?? {};
+  const fileName = properties.cmake_file_name || packageName;
+  const namespace = properties.cmake_target_name?.split('::')[0] || fileName;
+
+  const componentTargets: Record<string, string> = {};
+  for (const [component, info] of Object.entries(packageInfo?.components ?? {})) {
+    componentTargets[component] = info.properties.cmake_target_name || `${namespace}::${component}`;
+  }
+
+  // An explicit global target wins; otherwise consumers link the declared components
+  let targets: string[];
+  if (properties.cmake_target_name) {
+    targets = [properties.cmake_target_name];
+  } else if (Object.keys(componentTargets).length > 0) {
+    targets = Object.values(componentTargets);
+  } else {
+    // CMakeDeps names the global target after the file name: cmake_file_name "ZLIB" gives ZLIB::ZLIB
+    targets = [`${fileName}::${fileName}`];
+  }
+
+  return {
+    file_name: fileName,
+    targets,
+    component_targets: componentTargets,
+  };
+}
+
+export function getPkgConfigName(packageName: string, packageInfo?: ConanPackageInfo, component?: string): string {
+  if (component) {
+    return packageInfo?.components[component]?.properties.pkg_config_name || `${packageName}-${component}`;
+  }
+
+  return packageInfo?.properties.pkg_config_name || packageName;
+}
+
+export function getComponents(packageName: string, packageInfo?: ConanPackageInfo): PackageComponent[] {
+  const cmakeInfo = getCMakeInfo(packageName, packageInfo);
+
+  return Object.entries(packageInfo?.components ?? {}).map(([name, info]) => ({
+    name,
+    cmake_target: cmakeInfo.component_targets[name],
+    pkg_config_name: getPkgConfigName(packageName, packageInfo, name),
+    libs: info.libs,
+    system_libs: info.system_libs,
+    // "pkg::comp" refers to another package; a bare name is a sibling component
+    requires_components: info.requires.filter(requirement => !requirement.includes('::')),
+    requires_packages: info.requires.filter(requirement => requirement.includes('::')),
+  }));
+}
+
+export function buildInstallationInfo(
+  packageName: string,
+  version: string,
+  packageInfo?: ConanPackageInfo,
+  conanVersion: ConanClientVersion = 2
+): InstallationInfo {
+  const reference = `${packageName}/${version}`;
+  const cmakeInfo = getCMakeInfo(packageName, packageInfo);
+  const pkgConfigNames = [
+    getPkgConfigName(packageName, packageInfo),
+    ...Object.keys(packageInfo?.components ?? {}).map(component => getPkgConfigName(packageName, packageInfo, component)),
+  ];
+
+  const conanfileTxt = [
+    '[requires]',
+    reference,
+    '',
+    '[generators]',
+    'CMakeDeps',
+    'CMakeToolchain',
+  ].join('\n');
+
+  const conanfilePy = [
+    conanVersion === 2 ? 'from conan import ConanFile' : 'from conans import ConanFile',
+    '',
+    '',
+    'class ConsumerConan(ConanFile):',
+    '    settings = "os", "compiler", "build_type", "arch"',
+    '    generators = "CMakeDeps", "CMakeToolchain"',
+    '',
+    '    def requirements(self):',
+    `        self.requires("${reference}")`,
+  ].join('\n');
+
+  return {
+    // Conan 1 takes a positional reference with a trailing "@"; Conan 2 uses --requires
+    conan: conanVersion === 2 ? `conan install --requires=${reference}` : `conan install ${reference}@`,
+    conanfile_txt: conanfileTxt,
+    conanfile_py: conanfilePy,
+    cmake: `find_package(${cmakeInfo.file_name} REQUIRED)`,
+    cmake_targets: cmakeInfo.targets,
+    pkgconfig: `pkg-config --cflags --libs ${pkgConfigNames[0]}`,
+    pkgconfig_names: pkgConfigNames,
+  };
+}
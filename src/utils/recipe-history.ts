@@ -0,0 +1,29 @@
+import type { ConanRecipeRevision, RecipeConfig, RecipeHistory } from '../types/index.js';
+
+// Normalizes timestamps such as "2024-03-02T10:00:00.000+0000" to ISO 8601 UTC
+export function toIsoTimestamp(value: string): string {
+  const date = new Date(value.replace(/([+-]\d{2})(\d{2})$/, '$1:$2'));
+  return Number.isNaN(date.getTime()) ? value : date.toISOString();
+}
+
+// Gives every version the revisions of the folder that builds it. Package dates come from
+// packageRevisions when the source tracks more than its folders (e.g. config.yml edits).
+export function buildRecipeHistory(
+  recipeConfig: RecipeConfig,
+  folderRevisions: Map<string, ConanRecipeRevision[]>,
+  packageRevisions?: ConanRecipeRevision[]
+): RecipeHistory {
+  const revisions: Record<string, ConanRecipeRevision[]> = {};
+  for (const [version, { folder }] of Object.entries(recipeConfig.versions)) {
+    revisions[version] = folderRevisions.get(folder) ?? [];
+  }
+
+  const timestamps = (packageRevisions ?? Object.values(revisions).flat())
+    .map(revision => revision.timestamp)
+    .sort();
+
+  return {
+    ...(timestamps.length > 0 && { created_at: timestamps[0], updated_at: timestamps[timestamps.length - 1] }),
+    revisions,
+  };
+}
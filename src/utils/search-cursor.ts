@@ -0,0 +1,42 @@
+import { createHash } from 'node:crypto';
+import { ConanPackageReadmeMcpError } from '../types/index.js';
+
+// Opaque page cursors for package search. A cursor remembers the search it belongs to,
+// so following it with another query or other filters fails instead of skipping results.
+
+interface SearchCursor {
+  offset: number;
+  search: string;
+}
+
+function fingerprint(query: string, filters: string): string {
+  return createHash('sha256').update(`${query}\0${filters}`).digest('base64url').slice(0, 16);
+}
+
+export function encodeSearchCursor(offset: number, query: string, filters: string = ''): string {
+  const cursor: SearchCursor = { offset, search: fingerprint(query, filters) };
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
+
+// Offset of the page a cursor points at
+export function decodeSearchCursor(cursor: string, query: string, filters: string = ''): number {
+  let decoded: Partial<SearchCursor>;
+  try {
+    decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf-8')) as Partial<SearchCursor>;
+  } catch {
+    throw new ConanPackageReadmeMcpError('cursor is not a valid search cursor', 'INVALID_PARAMETER');
+  }
+
+  if (!decoded || typeof decoded.offset !== 'number' || !Number.isInteger(decoded.offset) || decoded.offset < 0) {
+    throw new ConanPackageReadmeMcpError('cursor is not a valid search cursor', 'INVALID_PARAMETER');
+  }
+
+  if (decoded.search !== fingerprint(query, filters)) {
+    throw new ConanPackageReadmeMcpError(
+      'cursor belongs to a search with another query or other filters',
+      'INVALID_PARAMETER'
+    );
+  }
+
+  return decoded.offset;
+}
@@ -0,0 +1,121 @@
+// Relevance scoring for package search: 0 means no match, 100 an exact name match
+
+export interface SearchCandidate {
+  name: string;
+  description?: string | undefined;
+  topics?: string[] | undefined;
+}
+
+const NAME_SEPARATOR = /[\s_.-]+/;
+
+// Optimal string alignment distance: like Levenshtein, but a swap of two adjacent letters is one edit
+export function editDistance(a: string, b: string): number {
+  const rows: number[][] = Array.from({ length: a.length + 1 }, (_, i) => [i]);
+  for (let j = 0; j <= b.length; j++) {
+    (rows[0] ?? [])[j] = j;
+  }
+
+  const at = (i: number, j: number): number => rows[i]?.[j] ?? 0;
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let distance = Math.min(at(i - 1, j) + 1, at(i, j - 1) + 1, at(i - 1, j - 1) + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        distance = Math.min(distance, at(i - 2, j - 2) + 1);
+      }
+      (rows[i] ?? [])[j] = distance;
+    }
+  }
+
+  return at(a.length, b.length);
+}
+
+function tokenize(value: string): string[] {
+  return value.toLowerCase().split(NAME_SEPARATOR).filter(token => token.length > 0);
+}
+
+// Typos allowed for a query: none for very short ones, where almost everything is one edit away
+function maxTypos(query: string): number {
+  if (query.length < 4) {
+    return 0;
+  }
+  return query.length < 8 ? 1 : 2;
+}
+
+function scoreName(query: string, name: string): number {
+  const tokens = tokenize(name);
+  const compactQuery = query.replace(/\s+/g, '');
+
+  if (name === query || name === compactQuery) {
+    return 100;
+  }
+  if (tokens.includes(query)) {
+    return 90; // "json" in nlohmann_json
+  }
+  if (name.startsWith(query)) {
+    return 80;
+  }
+  if (tokens.some(token => token.startsWith(query))) {
+    return 70;
+  }
+  if (name.includes(query) || name.includes(compactQuery)) {
+    return 60;
+  }
+
+  const queryTokens = tokenize(query);
+  if (queryTokens.length > 1 && queryTokens.every(term => name.includes(term))) {
+    return 60;
+  }
+
+  const typos = maxTypos(query);
+  if (typos > 0) {
+    const distance = Math.min(...[name, ...tokens].map(candidate => editDistance(query, candidate)));
+    if (distance <= typos) {
+      return 50 - 10 * distance;
+    }
+  }
+
+  return 0;
+}
+
+function scoreTopics(terms: string[], topics: string[]): number {
+  const normalized = topics.map(topic => topic.toLowerCase());
+
+  if (terms.every(term => normalized.includes(term))) {
+    return 40;
+  }
+  if (terms.every(term => normalized.some(topic => tokenize(topic).includes(term)))) {
+    return 35;
+  }
+  return 0;
+}
+
+function scoreDescription(terms: string[], description: string): number {
+  const words = new Set(tokenize(description.replace(/[^\w\s.+-]/g, ' ')));
+  const matched = terms.filter(term => words.has(term)).length;
+
+  if (matched === terms.length) {
+    return 30;
+  }
+  return matched > 0 ? Math.round(15 * matched / terms.length) : 0;
+}
+
+export function scorePackage(query: string, candidate: SearchCandidate): number {
+  const normalizedQuery = query.trim().toLowerCase();
+  const terms = tokenize(normalizedQuery);
+
+  if (terms.length === 0) {
+    return 0;
+  }
+
+  return Math.max(
+    scoreName(normalizedQuery, candidate.name.toLowerCase()),
+    candidate.topics ? scoreTopics(terms, candidate.topics) : 0,
+    candidate.description ? scoreDescription(terms, candidate.description) : 0
+  );
+}
+
+// Highest score first; shorter and then alphabetically earlier names break ties
+export function compareSearchResults(a: { name: string; score: number }, b: { name: string; score: number }): number {
+  return b.score - a.score || a.name.length - b.name.length || (a.name < b.name ? -1 : a.name > b.name ? 1 : 0);
+}
@@ -1,4 +1,5 @@
 import { ConanPackageReadmeMcpError } from '../types/index.js';
+import type { ConanClientVersion } from '../types/index.js';
 
 export function validatePackageName(packageName: unknown): string {
   if (typeof packageName !== 'string') {
@@ -43,9 +44,10 @@ export function validateVersion(version: unknown): string | undefined {
     return undefined;
   }
 
-  // Basic version validation - Conan supports various version formats
-  const validVersionRegex = /^[a-zA-Z0-9._-]+$/;
-  if (!validVersionRegex.test(version)) {
+  // Basic version validation - Conan supports various version formats and ranges like "[>=1.2 <2]"
+  const validVersionRegex = /^[a-zA-Z0-9._+-]+$/;
+  const validRangeRegex = /^\[[a-zA-Z0-9._+\-<>=~^*|, ]*\]$/;
+  if (!validVersionRegex.test(version.trim()) && !validRangeRegex.test(version.trim())) {
     throw new ConanPackageReadmeMcpError(
       'Version contains invalid characters',
       'INVALID_VERSION'
@@ -55,6 +57,112 @@ export function validateVersion(version: unknown): string | undefined {
   return version.trim();
 }
 
+// Values of the package_type recipe attribute in Conan 2
+export const CONAN_PACKAGE_TYPES = [
+  'library',
+  'static-library',
+  'shared-library',
+  'header-library',
+  'build-scripts',
+  'application',
+  'python-require',
+  'unknown',
+];
+
+// Accepts a single string or a list of strings; empty lists count as unset
+export function validateStringList(value: unknown, fieldName: string): string[] | undefined {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+
+  const values = typeof value === 'string' ? [value] : value;
+  if (!Array.isArray(values) || values.some(item => typeof item !== 'string')) {
+    throw new ConanPackageReadmeMcpError(
+      `${fieldName} must be a string or an array of strings`,
+      'INVALID_PARAMETER'
+    );
+  }
+
+  const trimmed = (values as string[]).map(item => item.trim()).filter(item => item.length > 0);
+  if (trimmed.length > 20) {
+    throw new ConanPackageReadmeMcpError(
+      `${fieldName} cannot have more than 20 values`,
+      'INVALID_PARAMETER'
+    );
+  }
+
+  return trimmed.length > 0 ? trimmed : undefined;
+}
+
+export function validatePackageTypes(value: unknown): string[] | undefined {
+  const packageTypes = validateStringList(value, 'package_type');
+
+  const unknown = packageTypes?.find(packageType => !CONAN_PACKAGE_TYPES.includes(packageType));
+  if (unknown !== undefined) {
+    throw new ConanPackageReadmeMcpError(
+      `Unknown package_type "${unknown}". Expected one of: ${CONAN_PACKAGE_TYPES.join(', ')}`,
+      'INVALID_PARAMETER'
+    );
+  }
+
+  return packageTypes;
+}
+
+export function validateRecipeFolder(folder: unknown): string | undefined {
+  if (folder === undefined || folder === null) {
+    return undefined;
+  }
+
+  if (typeof folder !== 'string') {
+    throw new ConanPackageReadmeMcpError(
+      'folder must be a string',
+      'INVALID_PARAMETER'
+    );
+  }
+
+  if (folder.trim().length === 0) {
+    return undefined;
+  }
+
+  // A single directory under recipes/<name>/, e.g. "all" or "3.x.x"
+  if (!/^[a-zA-Z0-9._+-]+$/.test(folder.trim()) || /^\.+$/.test(folder.trim())) {
+    throw new ConanPackageReadmeMcpError(
+      'folder must be a single recipe folder name such as "all"',
+      'INVALID_PARAMETER'
+    );
+  }
+
+  return folder.trim();
+}
+
+export function validateDate(value: unknown, fieldName: string): string | undefined {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+
+  if (typeof value !== 'string') {
+    throw new ConanPackageReadmeMcpError(
+      `${fieldName} must be a string`,
+      'INVALID_PARAMETER'
+    );
+  }
+
+  if (value.trim().length === 0) {
+    return undefined;
+  }
+
+  // Accepts "2024-01-31" as well as full ISO 8601 timestamps; normalized to UTC
+  const date = new Date(value.trim());
+  if (!/^\d{4}-\d{2}-\d{2}/.test(value.trim()) || Number.isNaN(date.getTime())) {
+    throw new ConanPackageReadmeMcpError(
+      `${fieldName} must be an ISO 8601 date such as "2024-01-31"`,
+      'INVALID_PARAMETER'
+    );
+  }
+
+  return date.toISOString();
+}
+
 export function validateSearchQuery(query: unknown): string {
   if (typeof query !== 'string') {
     throw new ConanPackageReadmeMcpError(
@@ -116,6 +224,43 @@ export function validateLimit(limit: unknown): number {
   return limit;
 }
 
+export function validateOffset(offset: unknown): number {
+  if (offset === undefined || offset === null) {
+    return 0;
+  }
+
+  if (typeof offset !== 'number' || !Number.isInteger(offset) || offset < 0) {
+    throw new ConanPackageReadmeMcpError(
+      'offset must be a non-negative integer',
+      'INVALID_PARAMETER'
+    );
+  }
+
+  return offset;
+}
+
+export function validateMaxDepth(maxDepth: unknown): number {
+  if (maxDepth === undefined || maxDepth === null) {
+    return 10; // Default depth
+  }
+
+  if (typeof maxDepth !== 'number' || !Number.isInteger(maxDepth)) {
+    throw new ConanPackageReadmeMcpError(
+      'max_depth must be an integer',
+      'INVALID_PARAMETER'
+    );
+  }
+
+  if (maxDepth < 1 || maxDepth > 20) {
+    throw new ConanPackageReadmeMcpError(
+      'max_depth must be between 1 and 20',
+      'INVALID_PARAMETER'
+    );
+  }
+
+  return maxDepth;
+}
+
 export function validateBoolean(value: unknown, fieldName: string): boolean | undefined {
   if (value === undefined || value === null) {
     return undefined;
@@ -131,6 +276,21 @@ export function validateBoolean(value: unknown, fieldName: string): boolean | un
   return value;
 }
 
+export function validateConanVersion(value: unknown): ConanClientVersion | undefined {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+
+  if (value !== 1 && value !== 2) {
+    throw new ConanPackageReadmeMcpError(
+      'conan_version must be 1 or 2',
+      'INVALID_PARAMETER'
+    );
+  }
+
+  return value;
+}
+
 export function isValidUrl(url: string): boolean {
   try {
     new URL(url);
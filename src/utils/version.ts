@@ -0,0 +1,262 @@
+// Version ordering following the rules of Conan 2's `conans.model.version.Version`
+
+type VersionItem = number | string;
+
+export interface ParsedVersion {
+  value: string;
+  main: VersionItem[];
+  nonZero: VersionItem[];
+  pre?: ParsedVersion | undefined;
+  build?: ParsedVersion | undefined;
+}
+
+function parseItem(item: string): VersionItem {
+  return /^\d+$/.test(item) ? parseInt(item, 10) : item;
+}
+
+export function parseVersion(value: string, qualifier: boolean = false): ParsedVersion {
+  let remaining = value.trim();
+  let pre: ParsedVersion | undefined;
+  let build: ParsedVersion | undefined;
+
+  if (!qualifier) {
+    const buildIndex = remaining.lastIndexOf('+');
+    if (buildIndex !== -1) {
+      build = parseVersion(remaining.slice(buildIndex + 1), true);
+      remaining = remaining.slice(0, buildIndex);
+    }
+
+    // The pre-release starts at the first hyphen and may contain more: 1.0-rc-1
+    const preIndex = remaining.indexOf('-');
+    if (preIndex !== -1) {
+      pre = parseVersion(remaining.slice(preIndex + 1), true);
+      remaining = remaining.slice(0, preIndex);
+    }
+  }
+
+  const main = remaining.split('.').map(parseItem);
+
+  // Trailing zeros are not significant: 1.2 == 1.2.0
+  const nonZero = [...main];
+  while (nonZero.length > 0 && nonZero[nonZero.length - 1] === 0) {
+    nonZero.pop();
+  }
+
+  return { value, main, nonZero, pre, build };
+}
+
+function compareItem(a: VersionItem, b: VersionItem): number {
+  if (typeof a === 'number' && typeof b === 'number') {
+    return a - b;
+  }
+
+  if (a === b) {
+    return 0;
+  }
+
+  // Mixed numeric/text items fall back to string comparison, like Conan does
+  const aText = String(a);
+  const bText = String(b);
+  return aText < bText ? -1 : aText > bText ? 1 : 0;
+}
+
+function compareItems(a: VersionItem[], b: VersionItem[]): number {
+  const length = Math.min(a.length, b.length);
+
+  for (let i = 0; i < length; i++) {
+    const result = compareItem(a[i], b[i]);
+    if (result !== 0) {
+      return result;
+    }
+  }
+
+  return a.length - b.length;
+}
+
+function compareQualifier(a: ParsedVersion | undefined, b: ParsedVersion | undefined): number {
+  if (!a || !b) {
+    return (a ? 1 : 0) - (b ? 1 : 0);
+  }
+
+  return compareItems(a.nonZero, b.nonZero);
+}
+
+function compareParsed(a: ParsedVersion, b: ParsedVersion): number {
+  const mainResult = compareItems(a.nonZero, b.nonZero);
+
+  if (a.pre && b.pre) {
+    return mainResult || compareQualifier(a.pre, b.pre) || compareQualifier(a.build, b.build);
+  }
+
+  // A pre-release sorts before the release it precedes
+  if (a.pre || b.pre) {
+    return mainResult || (a.pre ? -1 : 1);
+  }
+
+  return mainResult || compareQualifier(a.build, b.build);
+}
+
+export function compareVersions(a: string, b: string): number {
+  return compareParsed(parseVersion(a), parseVersion(b));
+}
+
+export function sortVersions(versions: string[], order: 'asc' | 'desc' = 'asc'): string[] {
+  const sorted = [...versions].sort(compareVersions);
+  return order === 'asc' ? sorted : sorted.reverse();
+}
+
+export function getLatestVersion(versions: string[]): string | undefined {
+  return sortVersions(versions, 'desc')[0];
+}
+
+export function isPrerelease(version: string): boolean {
+  return parseVersion(version).pre !== undefined;
+}
+
+// Version ranges, e.g. "[>=1.2 <2]", "[~1.4]", "[^3.0 || >=4.1, include_prerelease]"
+
+interface RangeCondition {
+  operator: '>' | '>=' | '<' | '<=' | '=';
+  version: ParsedVersion;
+}
+
+export interface VersionRange {
+  conditionSets: RangeCondition[][];
+  includePrerelease: boolean;
+}
+
+function equalsParsed(a: ParsedVersion, b: ParsedVersion): boolean {
+  return compareParsed(a, b) === 0;
+}
+
+function upperBound(version: ParsedVersion, index: number): ParsedVersion {
+  const boundIndex = Math.min(index, version.main.length - 1);
+  const bumped = version.main[boundIndex];
+
+  if (typeof bumped !== 'number') {
+    throw new Error(`Cannot bump '${version.value}' at index ${boundIndex}, not a number`);
+  }
+
+  const items = [...version.main.slice(0, boundIndex), bumped + 1];
+  // The trailing "-" keeps pre-releases of the bound itself out of range
+  return parseVersion(`${items.join('.')}-`);
+}
+
+function createCondition(operator: RangeCondition['operator'], value: string): RangeCondition {
+  const version = parseVersion(value);
+  // ">=1.2" admits 1.2 pre-releases and "<2" rejects 2.0 pre-releases
+  if ((operator === '>=' || operator === '<') && !version.pre && !version.build) {
+    return { operator, version: parseVersion(`${value}-`) };
+  }
+  return { operator, version };
+}
+
+function parseRangeExpression(expression: string): RangeCondition[] {
+  if (expression === '' || expression === '*') {
+    return [createCondition('>=', '0')];
+  }
+
+  const operatorMatch = /^(>=|<=|>|<|~|\^|=)?(.*)$/.exec(expression);
+  const operator = operatorMatch?.[1];
+  const value = (operatorMatch?.[2] ?? '').trim();
+
+  if (operator === '~') {
+    const version = parseVersion(value.includes('-') ? value : `${value}-`);
+    const index = version.main.length > 1 ? 1 : 0;
+    return [{ operator: '>=', version }, { operator: '<', version: upperBound(version, index) }];
+  }
+
+  if (operator === '^') {
+    const version = parseVersion(value);
+    let index = version.main.findIndex(item => item !== 0);
+    if (index === -1) {
+      index = version.main.length;
+    }
+    return [createCondition('>=', value), { operator: '<', version: upperBound(version, index) }];
+  }
+
+  return [createCondition((operator as RangeCondition['operator'] | undefined) ?? '=', value)];
+}
+
+export function isVersionRange(spec: string): boolean {
+  const trimmed = spec.trim();
+  return trimmed.startsWith('[') && trimmed.endsWith(']');
+}
+
+export function parseVersionRange(spec: string): VersionRange {
+  const body = spec.trim().replace(/^\[/, '').replace(/\]$/, '');
+  const [expression = '', ...rangeOptions] = body.split(',').map(part => part.trim());
+
+  const includePrerelease = rangeOptions.some(option => option === 'include_prerelease');
+
+  const conditionSets = expression
+    .split('||')
+    .map(set => set.trim().split(/\s+/).filter(token => token.length > 0))
+    .map(tokens => (tokens.length > 0 ? tokens : ['*']).flatMap(parseRangeExpression));
+
+  return { conditionSets, includePrerelease };
+}
+
+function satisfiesCondition(version: ParsedVersion, condition: RangeCondition): boolean {
+  const result = compareParsed(version, condition.version);
+
+  switch (condition.operator) {
+    case '>':
+      return result > 0;
+    case '>=':
+      return result >= 0;
+    case '<':
+      return result < 0;
+    case '<=':
+      return result <= 0;
+    case '=':
+      return equalsParsed(version, condition.version);
+  }
+}
+
+export function satisfiesRange(version: string, range: VersionRange | string): boolean {
+  const parsedRange = typeof range === 'string' ? parseVersionRange(range) : range;
+  const parsedVersion = parseVersion(version);
+
+  if (parsedVersion.pre && !parsedRange.includePrerelease) {
+    return false;
+  }
+
+  return parsedRange.conditionSets.some(conditions =>
+    conditions.every(condition => satisfiesCondition(parsedVersion, condition))
+  );
+}
+
+/**
+ * Resolves a version specification against the available versions:
+ * "latest", an exact version, a range such as "[>=1.2 <2]", or a
+ * shortcut such as "1.2" meaning the newest 1.2.x release.
+ */
+export function resolveVersion(spec: string, available: string[]): string | undefined {
+  const trimmed = spec.trim();
+
+  if (trimmed === 'latest') {
+    return getLatestVersion(available);
+  }
+
+  if (available.includes(trimmed)) {
+    return trimmed;
+  }
+
+  if (isVersionRange(trimmed)) {
+    const range = parseVersionRange(trimmed);
+    return getLatestVersion(available.filter(version => satisfiesRange(version, range)));
+  }
+
+  const prefix = parseVersion(trimmed);
+  const matches = available.filter(version => {
+    const candidate = parseVersion(version);
+    if (candidate.pre && !prefix.pre) {
+      return false;
+    }
+    return prefix.main.every((item, index) => candidate.main[index] === item) &&
+      (!prefix.pre || (candidate.pre !== undefined && compareQualifier(candidate.pre, prefix.pre) === 0));
+  });
+
+  return getLatestVersion(matches);
+}
@@ -0,0 +1,61 @@
+import { expect, test, describe, beforeEach, afterEach } from "vitest";
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { CatalogueStore } from '../../src/services/catalogue-store.js';
+import type { RecipeCatalogueIndex } from '../../src/types/index.js';
+
+describe('catalogue-store service', () => {
+  const index: RecipeCatalogueIndex = {
+    source: 'conancenter+internal',
+    built_at: '2024-01-01T00:00:00.000Z',
+    recipe_count: 1,
+    entries: [{
+      name: 'zlib',
+      remote: 'conancenter',
+      sha: 'abc',
+      latest_version: '1.3.1',
+      versions: ['1.3.1'],
+      topics: ['zip'],
+      requirements: [],
+      deprecated: false,
+      indexed_at: '2024-01-01T00:00:00.000Z',
+    }],
+  };
+
+  let directory: string;
+  let store: CatalogueStore;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'conan-catalogue-'));
+    store = new CatalogueStore(join(directory, 'nested'));
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  test('should save and load an index per source', async () => {
+    await store.save(index);
+
+    expect(store.getPath('conancenter+internal')).toBe(join(directory, 'nested', 'catalogue-conancenter+internal.json'));
+    expect(JSON.parse(await readFile(store.getPath(index.source), 'utf-8')).format_version).toBe(3);
+    expect(await store.load('conancenter+internal')).toEqual(index);
+    expect(await store.load('local')).toBeNull();
+  });
+
+  test('should ignore indexes of another format version', async () => {
+    await store.save(index);
+    const path = store.getPath(index.source);
+    await writeFile(path, JSON.stringify({ ...index, format_version: 0 }));
+
+    expect(await store.load(index.source)).toBeNull();
+  });
+
+  test('should ignore unreadable files', async () => {
+    await store.save(index);
+    await writeFile(store.getPath(index.source), '{"format_version": 1, "entr');
+
+    expect(await store.load(index.source)).toBeNull();
+  });
+});
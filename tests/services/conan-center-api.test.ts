@@ -1,5 +1,33 @@
 import { expect, test, describe, vi, beforeEach, afterEach } from "vitest";
+import { mkdtemp, mkdir, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
 import { ConanCenterApi } from '../../src/services/conan-center-api.js';
+import { LocalRecipeSource } from '../../src/services/local-recipe-source.js';
+import { RecipeCatalogue } from '../../src/services/recipe-catalogue.js';
+import { recipeSource } from '../../src/services/recipe-source.js';
+import { config } from '../../src/utils/config.js';
+
+const mockFileResponse = (content: string) => ({
+  ok: true,
+  status: 200,
+  json: vi.fn().mockResolvedValue({
+    encoding: 'base64',
+    content: Buffer.from(content).toString('base64')
+  })
+});
+
+const mockConfigYml = (versions: Record<string, string>) => mockFileResponse(
+  'versions:\n' + Object.entries(versions)
+    .map(([version, folder]) => `  "${version}":\n    folder: ${folder}\n`)
+    .join('')
+);
+
+const mockTree = (recipes: string[]) => ({
+  sha: 'abc',
+  truncated: false,
+  tree: recipes.map((path, i) => ({ path, type: 'tree', mode: '040000', sha: String(i) }))
+});
 
 describe('conan-center-api service', () => {
   let conanApi: ConanCenterApi;
@@ -69,35 +97,69 @@ describe('conan-center-api service', () => {
   });
 
   describe('searchPackages', () => {
-    test('should search packages successfully', async () => {
-      const mockResponse = [
-        { name: 'boost', type: 'dir' },
-        { name: 'zlib', type: 'dir' },
-        { name: 'openssl', type: 'dir' }
-      ];
+    let catalogue: RecipeCatalogue;
 
-      fetchMock.mockResolvedValueOnce({
-        ok: true,
-        json: vi.fn().mockResolvedValue(mockResponse)
+    beforeEach(() => {
+      catalogue = new RecipeCatalogue(recipeSource, null, Infinity);
+      conanApi = new ConanCenterApi(recipeSource, catalogue);
+    });
+
+    // Serves the recipe tree and the files of each recipe like the GitHub API does
+    const mockRepository = (recipes: Record<string, string | null>, updatedAt: Record<string, string> = {}) => {
+      fetchMock.mockImplementation(async (url: string) => {
+        if (url.endsWith('/git/trees/master:recipes')) {
+          return { ok: true, status: 200, headers: new Headers(), json: vi.fn().mockResolvedValue(mockTree(Object.keys(recipes))) };
+        }
+        if (url.includes('/commits?')) {
+          const date = updatedAt[(new URL(url).searchParams.get('path') ?? '').replace('recipes/', '')] ?? '2024-05-01T00:00:00Z';
+          const commit = { sha: 'c0ffee', html_url: '', commit: { message: '', author: { name: '', email: '', date }, committer: { name: '', email: '', date } } };
+          return { ok: true, status: 200, headers: new Headers(), json: vi.fn().mockResolvedValue([commit]) };
+        }
+        const [, name = '', file = ''] = /\/contents\/recipes\/([^/]+)\/(.+)$/.exec(url) ?? [];
+        const conanfile = recipes[name];
+        if (conanfile && file === 'config.yml') {
+          return mockConfigYml({ '1.0': 'all', '2.0': 'all' });
+        }
+        if (conanfile && file === 'all/conanfile.py') {
+          return mockFileResponse(conanfile);
+        }
+        return { ok: false, status: 404, statusText: 'Not Found' };
       });
+    };
+
+    const conanfile = (description: string, topics: string[], extra: string[] = ['    license = "MIT"']) => [
+      'class Recipe(ConanFile):',
+      `    description = "${description}"`,
+      '    homepage = "https://example.com"',
+      `    topics = (${topics.map(topic => `"${topic}"`).join(', ')})`,
+      ...extra,
+    ].join('\n');
+
+    test('should search packages successfully', async () => {
+      mockRepository({ boost: conanfile('Boost libraries', ['boost']), zlib: null, openssl: null });
+      await catalogue.rebuild();
 
       const result = await conanApi.searchPackages('boost', 10);
 
       expect(result.results).toHaveLength(1);
-      expect(result.results[0].name).toBe('boost');
+      expect(result.results[0]).toEqual({
+        name: 'boost',
+        description: 'Boost libraries',
+        topics: ['boost'],
+        license: 'MIT',
+        homepage: 'https://example.com',
+        updated_at: '2024-05-01T00:00:00.000Z',
+        latest_version: '2.0',
+        deprecated: false,
+        remote: 'conancenter',
+        score: 100,
+      });
       expect(result.total_count).toBe(1);
-      expect(fetchMock).toHaveBeenCalledTimes(1);
+      expect(result.catalogue).toEqual({ recipe_count: 3, indexed_count: 1 });
     });
 
     test('should handle empty search results', async () => {
-      const mockResponse = [
-        { name: 'unrelated-package', type: 'dir' }
-      ];
-
-      fetchMock.mockResolvedValueOnce({
-        ok: true,
-        json: vi.fn().mockResolvedValue(mockResponse)
-      });
+      mockRepository({ 'unrelated-package': null });
 
       const result = await conanApi.searchPackages('nonexistent', 10);
 
@@ -116,41 +178,111 @@ describe('conan-center-api service', () => {
     });
 
     test('should respect limit parameter', async () => {
-      const mockResponse = Array.from({ length: 10 }, (_, i) => ({ 
-        name: `package${i}`, 
-        type: 'dir' 
-      }));
-
-      fetchMock.mockResolvedValueOnce({
-        ok: true,
-        json: vi.fn().mockResolvedValue(mockResponse)
-      });
+      mockRepository(Object.fromEntries(Array.from({ length: 10 }, (_, i) => [`package${i}`, null])));
 
       const result = await conanApi.searchPackages('package', 5);
 
       expect(result.results).toHaveLength(5);
     });
+
+    test('should count all matches and page from an offset', async () => {
+      mockRepository(Object.fromEntries(Array.from({ length: 10 }, (_, i) => [`package${i}`, null])));
+
+      const first = await conanApi.searchPackages('package', 4);
+      const last = await conanApi.searchPackages('package', 4, {}, 8);
+
+      expect(first.total_count).toBe(10);
+      expect(last.total_count).toBe(10);
+      expect(last.results.map(pkg => pkg.name)).toEqual(['package8', 'package9']);
+    });
+
+    test('should rank results by relevance', async () => {
+      mockRepository({ 'jsoncpp': null, 'json-c': null, 'libcurl': null, 'nlohmann_json': null, 'rapidjson': null, 'zlib': null });
+
+      const result = await conanApi.searchPackages('json', 10);
+      const typo = await conanApi.searchPackages('libcrul', 10);
+
+      expect(result.results.map(pkg => `${pkg.name}:${pkg.score}`)).toEqual(['json-c:90', 'nlohmann_json:90', 'jsoncpp:80', 'rapidjson:60']);
+      expect(typo.results.map(pkg => pkg.name)).toEqual(['libcurl']);
+    });
+
+    test('should match descriptions and topics from the catalogue index', async () => {
+      mockRepository({ rapidxml: conanfile('A fast XML parser', ['xml', 'parser']), zlib: conanfile('Compression library', ['zip']) });
+      await catalogue.rebuild();
+
+      const result = await conanApi.searchPackages('parser', 10);
+
+      expect(result.results.map(pkg => pkg.name)).toEqual(['rapidxml']);
+    });
+
+    test('should leave out metadata of recipes it could not read', async () => {
+      mockRepository({ boost: null });
+
+      const result = await conanApi.searchPackages('boost', 10);
+
+      expect(result.results).toEqual([{ name: 'boost', topics: [], deprecated: false, remote: 'conancenter', score: 100 }]);
+    });
+
+    test('should match names at once and read metadata in the background', async () => {
+      mockRepository({ boost: conanfile('Boost libraries', []), zlib: conanfile('Compression library', []) });
+
+      const first = await conanApi.searchPackages('compression', 10);
+      const byName = await conanApi.searchPackages('zlib', 10);
+      expect(first.results).toEqual([]);
+      expect(byName.results).toEqual([{ name: 'zlib', topics: [], deprecated: false, remote: 'conancenter', score: 100 }]);
+
+      await catalogue.waitForIndexing();
+      const result = await conanApi.searchPackages('compression', 10);
+
+      // One listing, then config.yml, conanfile.py and the newest commit of each recipe
+      expect(result.results.map(pkg => pkg.name)).toEqual(['zlib']);
+      expect(fetchMock).toHaveBeenCalledTimes(7);
+    });
+
+    describe('filters', () => {
+      beforeEach(async () => {
+        mockRepository({
+          'nlohmann_json': conanfile('JSON for Modern C++', ['json', 'header-only'], ['    license = "MIT"', '    package_type = "header-library"']),
+          'jsoncpp': conanfile('JSON library', ['json'], ['    license = "MIT"', '    package_type = "library"']),
+          'json-boost': conanfile('JSON on Boost', ['json'], ['    license = "BSL-1.0"', '    package_type = "header-library"']),
+          'json-gpl': conanfile('JSON under GPL', ['json'], ['    license = ("GPL-3.0-or-later", "LGPL-3.0")', '    package_type = "header-library"']),
+          'json-old': conanfile('Old JSON', ['json'], ['    license = "MIT"', '    package_type = "header-library"', '    deprecated = "nlohmann_json"']),
+        }, {
+          'json-boost': '2020-01-01T00:00:00Z',
+        });
+        await catalogue.rebuild();
+      });
+
+      const names = async (filters: Parameters<ConanCenterApi['searchPackages']>[2]) =>
+        (await conanApi.searchPackages('json', 20, filters)).results.map(pkg => pkg.name).sort();
+
+      test('should filter by license and package type', async () => {
+        expect(await names({ license: ['mit', 'BSL-1.0'], package_type: ['header-library'] })).toEqual(['json-boost', 'json-old', 'nlohmann_json']);
+        expect(await names({ license: ['LGPL-3.0'] })).toEqual(['json-gpl']);
+      });
+
+      test('should require every topic', async () => {
+        expect(await names({ topics: ['JSON', 'header-only'] })).toEqual(['nlohmann_json']);
+      });
+
+      test('should filter by last change and deprecation', async () => {
+        expect(await names({ updated_since: '2023-01-01T00:00:00.000Z', exclude_deprecated: true })).toEqual(['json-gpl', 'jsoncpp', 'nlohmann_json']);
+      });
+    });
   });
 
   describe('getRecipeInfo', () => {
     test('should get recipe info successfully', async () => {
-      const mockResponse = [
-        { name: '1.82.0', type: 'dir' },
-        { name: '1.81.0', type: 'dir' },
-        { name: 'all', type: 'dir' }
-      ];
-
-      fetchMock.mockResolvedValueOnce({
-        ok: true,
-        json: vi.fn().mockResolvedValue(mockResponse)
-      });
+      fetchMock.mockResolvedValueOnce(mockConfigYml({ '1.82.0': 'all', '1.81.0': 'all' }));
 
       const result = await conanApi.getRecipeInfo('boost');
 
       expect(result.name).toBe('boost');
+      expect(result.remote).toBe('conancenter');
       expect(result.latest_version).toBe('1.82.0');
       expect(Object.keys(result.versions)).toContain('1.82.0');
       expect(Object.keys(result.versions)).toContain('1.81.0');
+      expect(fetchMock.mock.calls[0][0]).toContain('/contents/recipes/boost/config.yml');
     });
 
     test('should handle package not found', async () => {
@@ -163,94 +295,228 @@ describe('conan-center-api service', () => {
       await expect(conanApi.getRecipeInfo('nonexistent')).rejects.toThrow("Package 'nonexistent' not found");
     });
 
-    test('should handle non-version directories', async () => {
-      const mockResponse = [
-        { name: 'all', type: 'dir' },
-        { name: 'config.yml', type: 'file' },
-        { name: '1.82.0', type: 'dir' }
-      ];
+    test('should not make up revisions or dates', async () => {
+      fetchMock.mockResolvedValueOnce(mockConfigYml({ '1.3.1': 'all' }));
 
-      fetchMock.mockResolvedValueOnce({
-        ok: true,
-        json: vi.fn().mockResolvedValue(mockResponse)
-      });
+      const result = await conanApi.getRecipeInfo('zlib');
 
-      const result = await conanApi.getRecipeInfo('boost');
+      expect(result.versions['1.3.1']).toEqual({ folder: 'all' });
+      expect(result).not.toHaveProperty('created_at');
+      expect(result).not.toHaveProperty('updated_at');
+    });
 
-      expect(Object.keys(result.versions)).toEqual(['1.82.0']);
-      expect(result.latest_version).toBe('1.82.0');
+    test('should map versions to their recipe folders', async () => {
+      fetchMock.mockResolvedValueOnce(mockConfigYml({ '1.2.13': 'all', '1.2.8': 'all', '1.2.0': 'legacy' }));
+
+      const result = await conanApi.getRecipeInfo('zlib');
+
+      expect(result.versions['1.2.13'].folder).toBe('all');
+      expect(result.versions['1.2.0'].folder).toBe('legacy');
+    });
+
+    test('should keep version keys as strings', async () => {
+      fetchMock.mockResolvedValueOnce(mockFileResponse('versions:\n  1.10:\n    folder: all\n'));
+
+      const result = await conanApi.getRecipeInfo('somelib');
+
+      expect(Object.keys(result.versions)).toEqual(['1.10']);
+    });
+
+    test('should ignore versions without a folder', async () => {
+      fetchMock.mockResolvedValueOnce(mockFileResponse('versions:\n  "1.0":\n    folder: all\n  "2.0": {}\n'));
+
+      const result = await conanApi.getRecipeInfo('somelib');
+
+      expect(Object.keys(result.versions)).toEqual(['1.0']);
     });
   });
 
   describe('getRecipeDetails', () => {
     test('should get recipe details successfully', async () => {
-      const mockResponse = [
-        { name: '1.82.0', type: 'dir' }
-      ];
-
-      fetchMock.mockResolvedValueOnce({
-        ok: true,
-        json: vi.fn().mockResolvedValue(mockResponse)
-      });
+      const conanfile = [
+        'from conan import ConanFile',
+        '',
+        'class BoostConan(ConanFile):',
+        '    name = "boost"',
+        '    license = "BSL-1.0"',
+        '    settings = "os", "arch", "compiler", "build_type"',
+        '    options = {"shared": [True, False], "without_python": [True, False]}',
+        '    default_options = {"shared": False, "without_python": True}',
+        '',
+        '    def requirements(self):',
+        '        self.requires("zlib/[>=1.2.11 <2]")',
+      ].join('\n');
+
+      fetchMock
+        .mockResolvedValueOnce(mockConfigYml({ '1.82.0': 'all' }))
+        .mockResolvedValueOnce(mockFileResponse(conanfile));
 
       const result = await conanApi.getRecipeDetails('boost', '1.82.0');
 
       expect(result).not.toBeNull();
       expect(result?.name).toBe('boost');
       expect(result?.version).toBe('1.82.0');
+      expect(result?.license).toBe('BSL-1.0');
+      expect(result?.requires).toEqual(['zlib/[>=1.2.11 <2]']);
+      expect(result?.settings).toEqual(['os', 'arch', 'compiler', 'build_type']);
+      expect(result?.options).toEqual({ shared: [true, false], without_python: [true, false] });
+      expect(result?.default_options).toEqual({ shared: false, without_python: true });
+      expect(fetchMock.mock.calls[1][0]).toContain('/contents/recipes/boost/all/conanfile.py');
     });
 
-    test('should return null for non-existent version', async () => {
-      const mockResponse = [
-        { name: '1.82.0', type: 'dir' }
-      ];
+    test('should return null when conanfile.py is missing', async () => {
+      fetchMock
+        .mockResolvedValueOnce(mockConfigYml({ '1.82.0': 'all' }))
+        .mockResolvedValueOnce({
+          ok: false,
+          status: 404,
+          statusText: 'Not Found'
+        });
 
-      fetchMock.mockResolvedValueOnce({
-        ok: true,
-        json: vi.fn().mockResolvedValue(mockResponse)
-      });
+      const result = await conanApi.getRecipeDetails('boost', '1.82.0');
+
+      expect(result).toBeNull();
+    });
+
+    test('should return null for non-existent version', async () => {
+      fetchMock.mockResolvedValueOnce(mockConfigYml({ '1.82.0': 'all' }));
 
       const result = await conanApi.getRecipeDetails('boost', '1.99.0');
 
       expect(result).toBeNull();
     });
+
+    test('should not fetch config.yml again when given the recipe info', async () => {
+      fetchMock.mockResolvedValueOnce(mockFileResponse('class BoostConan(ConanFile):\n    license = "BSL-1.0"'));
+      const recipeInfo = {
+        name: 'boost',
+        latest_version: '1.82.0',
+        versions: { '1.82.0': { folder: 'all' } },
+        description: 'Conan package for boost',
+        license: 'Unknown',
+        author: 'Conan Center',
+        topics: [],
+        remote: 'conancenter'
+      };
+
+      const result = await conanApi.getRecipeDetails('boost', '1.82.0', recipeInfo);
+
+      expect(result?.license).toBe('BSL-1.0');
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+      expect(fetchMock.mock.calls[0][0]).toContain('/contents/recipes/boost/all/conanfile.py');
+    });
+  });
+
+  describe('getConanData', () => {
+    test('should fetch conandata.yml from the version folder', async () => {
+      const conandata = [
+        'sources:',
+        '  "1.3.1":',
+        '    url: "https://zlib.net/fossils/zlib-1.3.1.tar.gz"',
+        '    sha256: "abc123"',
+        'patches:',
+        '  "1.3.1":',
+        '    - patch_file: "patches/0001-fix.patch"',
+        '      patch_description: "fix build"',
+        '      patch_type: "conan"',
+      ].join('\n');
+
+      fetchMock
+        .mockResolvedValueOnce(mockConfigYml({ '1.3.1': 'all' }))
+        .mockResolvedValueOnce(mockFileResponse(conandata));
+
+      const result = await conanApi.getConanData('zlib', '1.3.1');
+
+      expect(result?.sources).toEqual([{ url: ['https://zlib.net/fossils/zlib-1.3.1.tar.gz'], sha256: 'abc123' }]);
+      expect(result?.patches[0].patch_type).toBe('conan');
+      expect(fetchMock.mock.calls[1][0]).toContain('/contents/recipes/zlib/all/conandata.yml');
+    });
+
+    test('should return null when conandata.yml is missing', async () => {
+      fetchMock
+        .mockResolvedValueOnce(mockConfigYml({ '1.3.1': 'all' }))
+        .mockResolvedValueOnce({ ok: false, status: 404, statusText: 'Not Found' });
+
+      const result = await conanApi.getConanData('zlib', '1.3.1');
+
+      expect(result).toBeNull();
+    });
+  });
+
+  describe('getTestPackageFiles', () => {
+    test('should fetch build and source files from test_package', async () => {
+      fetchMock
+        .mockResolvedValueOnce(mockConfigYml({ '10.2.1': 'all' }))
+        .mockResolvedValueOnce({
+          ok: true,
+          status: 200,
+          json: vi.fn().mockResolvedValue([
+            { name: 'CMakeLists.txt', type: 'file' },
+            { name: 'conanfile.py', type: 'file' },
+            { name: 'test_package.cpp', type: 'file' },
+            { name: 'README.md', type: 'file' },
+            { name: 'subdir', type: 'dir' }
+          ])
+        })
+        .mockResolvedValueOnce(mockFileResponse('find_package(fmt REQUIRED CONFIG)'))
+        .mockResolvedValueOnce(mockFileResponse('from conan import ConanFile'))
+        .mockResolvedValueOnce(mockFileResponse('#include <fmt/core.h>'));
+
+      const result = await conanApi.getTestPackageFiles('fmt', '10.2.1');
+
+      expect(result).toEqual([
+        { path: 'test_package/CMakeLists.txt', content: 'find_package(fmt REQUIRED CONFIG)' },
+        { path: 'test_package/conanfile.py', content: 'from conan import ConanFile' },
+        { path: 'test_package/test_package.cpp', content: '#include <fmt/core.h>' },
+      ]);
+      expect(fetchMock.mock.calls[1][0]).toContain('/contents/recipes/fmt/all/test_package');
+    });
+
+    test('should return an empty list when test_package is missing', async () => {
+      fetchMock
+        .mockResolvedValueOnce(mockConfigYml({ '10.2.1': 'all' }))
+        .mockResolvedValueOnce({ ok: false, status: 404, statusText: 'Not Found' });
+
+      const result = await conanApi.getTestPackageFiles('fmt', '10.2.1');
+
+      expect(result).toEqual([]);
+    });
   });
 
   describe('getLatestVersion', () => {
     test('should get latest version successfully', async () => {
-      const mockResponse = [
-        { name: '1.82.0', type: 'dir' },
-        { name: '1.81.0', type: 'dir' }
-      ];
-
-      fetchMock.mockResolvedValueOnce({
-        ok: true,
-        json: vi.fn().mockResolvedValue(mockResponse)
-      });
+      fetchMock.mockResolvedValueOnce(mockConfigYml({ '1.81.0': 'all', '1.82.0': 'all' }));
 
       const result = await conanApi.getLatestVersion('boost');
 
       expect(result).toBe('1.82.0');
     });
+
+    test('should pick the highest version when minor numbers have two digits', async () => {
+      fetchMock.mockResolvedValueOnce(mockConfigYml({ '1.9.0': 'all', '1.10.0': 'all' }));
+
+      const result = await conanApi.getLatestVersion('fmt');
+
+      expect(result).toBe('1.10.0');
+    });
   });
 
   describe('getAvailableVersions', () => {
     test('should get available versions successfully', async () => {
-      const mockResponse = [
-        { name: '1.82.0', type: 'dir' },
-        { name: '1.81.0', type: 'dir' },
-        { name: '1.80.0', type: 'dir' }
-      ];
-
-      fetchMock.mockResolvedValueOnce({
-        ok: true,
-        json: vi.fn().mockResolvedValue(mockResponse)
-      });
+      fetchMock.mockResolvedValueOnce(mockConfigYml({ '1.82.0': 'all', '1.81.0': 'all', '1.80.0': 'all' }));
 
       const result = await conanApi.getAvailableVersions('boost');
 
       expect(result).toEqual(['1.80.0', '1.81.0', '1.82.0']);
     });
+
+    test('should order versions with Conan semantics', async () => {
+      fetchMock.mockResolvedValueOnce(mockConfigYml({ '1.10.0': 'all', '1.9.2': 'all', '1.9.10': 'all', '1.10.0-rc1': 'all' }));
+
+      const result = await conanApi.getAvailableVersions('fmt');
+
+      expect(result).toEqual(['1.9.2', '1.9.10', '1.10.0-rc1', '1.10.0']);
+    });
   });
 
   describe('fetchWithTimeout', () => {
@@ -263,4 +529,67 @@ describe('conan-center-api service', () => {
       await expect(conanApi.searchPackages('boost', 10)).rejects.toThrow();
     }, 12000); // Increase timeout for this specific test
   });
-});
\ No newline at end of file
+
+  describe('with a local checkout', () => {
+    let rootPath: string;
+    let localApi: ConanCenterApi;
+
+    beforeEach(async () => {
+      rootPath = await mkdtemp(join(tmpdir(), 'conan-center-index-'));
+      const recipePath = join(rootPath, 'recipes', 'zlib');
+      await mkdir(join(recipePath, 'all', 'test_package'), { recursive: true });
+      await mkdir(join(rootPath, 'recipes', 'zstd'), { recursive: true });
+      await writeFile(join(recipePath, 'config.yml'), 'versions:\n  "1.3.1":\n    folder: all\n  "1.2.13":\n    folder: all\n');
+      await writeFile(join(recipePath, 'all', 'conanfile.py'), [
+        'class ZlibConan(ConanFile):',
+        '    name = "zlib"',
+        '    license = "Zlib"',
+      ].join('\n'));
+      await writeFile(join(recipePath, 'all', 'conandata.yml'), 'sources:\n  "1.3.1":\n    url: "https://zlib.net/zlib-1.3.1.tar.gz"\n');
+      await writeFile(join(recipePath, 'all', 'test_package', 'test_package.c'), 'int main(void) { return 0; }');
+      await writeFile(join(recipePath, 'all', 'test_package', 'notes.txt'), 'ignored');
+      localApi = new ConanCenterApi(new LocalRecipeSource(rootPath));
+    });
+
+    afterEach(async () => {
+      await rm(rootPath, { recursive: true, force: true });
+    });
+
+    test('should read recipes without touching the network', async () => {
+      const recipeInfo = await localApi.getRecipeInfo('zlib');
+      const details = await localApi.getRecipeDetails('zlib', '1.3.1');
+      const conandata = await localApi.getConanData('zlib', '1.3.1');
+      const testPackage = await localApi.getTestPackageFiles('zlib', '1.3.1');
+
+      expect(recipeInfo.latest_version).toBe('1.3.1');
+      expect(details?.license).toBe('Zlib');
+      expect(conandata?.sources[0].url).toEqual(['https://zlib.net/zlib-1.3.1.tar.gz']);
+      expect(testPackage).toEqual([{ path: 'test_package/test_package.c', content: 'int main(void) { return 0; }' }]);
+      expect(fetchMock).not.toHaveBeenCalled();
+    });
+
+    test('should search the local recipe directories', async () => {
+      const result = await localApi.searchPackages('z');
+
+      expect(result.results.map(pkg => pkg.name)).toEqual(['zlib', 'zstd']);
+      expect(fetchMock).not.toHaveBeenCalled();
+    });
+
+    test('should report missing packages', async () => {
+      await expect(localApi.getRecipeInfo('missing')).rejects.toThrow("Package 'missing' not found");
+    });
+  });
+
+  describe('offline mode', () => {
+    afterEach(() => {
+      config.offline = false;
+    });
+
+    test('should refuse network requests', async () => {
+      config.offline = true;
+
+      await expect(conanApi.getRecipeInfo('zlib')).rejects.toThrow('offline mode');
+      expect(fetchMock).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,200 @@
+import { expect, test, describe, beforeAll, afterAll, beforeEach } from "vitest";
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { ConanRemoteSource } from '../../src/services/conan-remote-source.js';
+import { ConanCenterApi } from '../../src/services/conan-center-api.js';
+
+const conanfile = [
+  'from conan import ConanFile',
+  '',
+  'class MyLibConan(ConanFile):',
+  '    name = "mylib"',
+  '    description = "Internal utilities"',
+  '    license = "Proprietary"',
+  '',
+  '    def requirements(self):',
+  '        self.requires("zlib/[>=1.2.11 <2]")',
+].join('\n');
+
+// reference -> revisions (newest first) with their files
+const recipes: Record<string, Array<{ revision: string; time: string; files: Record<string, string> }>> = {
+  'mylib/1.0': [
+    { revision: 'bbb222', time: '2024-03-02T10:00:00.000+0000', files: { 'conanfile.py': conanfile, 'conanmanifest.txt': 'manifest' } },
+    { revision: 'aaa111', time: '2024-03-01T10:00:00.000+0000', files: { 'conanfile.py': 'old' } },
+  ],
+  'mylib/1.1': [
+    { revision: 'ccc333', time: '2024-04-01T10:00:00.000+0000', files: { 'conanfile.py': conanfile } },
+  ],
+  'tools/2.0': [
+    { revision: 'ddd444', time: '2024-04-01T10:00:00.000+0000', files: { 'conanfile.py': 'class Tools: pass' } },
+  ],
+};
+
+// Minimal conan_server: basic auth hands out tokens, everything else needs one
+function startConanServer(): Promise<{ server: Server; url: string; tokens: Set<string>; logins: () => number }> {
+  const tokens = new Set<string>();
+  let loginCount = 0;
+
+  const send = (res: ServerResponse, status: number, body: unknown) => {
+    res.writeHead(status, { 'Content-Type': typeof body === 'string' ? 'text/plain' : 'application/json' });
+    res.end(typeof body === 'string' ? body : JSON.stringify(body));
+  };
+
+  const server = createServer((req: IncomingMessage, res: ServerResponse) => {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    const authorization = req.headers.authorization ?? '';
+
+    if (url.pathname === '/v2/users/authenticate') {
+      if (authorization !== `Basic ${Buffer.from('demo:secret').toString('base64')}`) {
+        return send(res, 401, 'Wrong user or password');
+      }
+      const token = `token-${++loginCount}`;
+      tokens.add(token);
+      return send(res, 200, token);
+    }
+
+    if (!tokens.has(authorization.replace(/^Bearer /, ''))) {
+      return send(res, 401, 'Unauthorized');
+    }
+
+    if (url.pathname === '/v2/conans/search') {
+      const pattern = new RegExp(`^${(url.searchParams.get('q') ?? '*').replace(/[.+?^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*')}$`);
+      return send(res, 200, { results: Object.keys(recipes).filter(reference => pattern.test(reference)) });
+    }
+
+    const match = /^\/v2\/conans\/([^/]+)\/([^/]+)\/_\/_\/revisions(?:\/([^/]+)\/files(?:\/(.+))?)?$/.exec(url.pathname);
+    const revisions = match ? recipes[`${match[1]}/${match[2]}`] : undefined;
+    if (!match || !revisions) {
+      return send(res, 404, { errors: [{ message: 'Recipe not found' }] });
+    }
+
+    if (!match[3]) {
+      return send(res, 200, { reference: `${match[1]}/${match[2]}`, revisions: revisions.map(({ revision, time }) => ({ revision, time })) });
+    }
+
+    const files = revisions.find(entry => entry.revision === match[3])?.files;
+    if (!files) {
+      return send(res, 404, { errors: [{ message: 'Revision not found' }] });
+    }
+
+    if (!match[4]) {
+      return send(res, 200, { files: Object.fromEntries(Object.keys(files).map(file => [file, {}])) });
+    }
+
+    const content = files[decodeURIComponent(match[4])];
+    return content === undefined ? send(res, 404, { errors: [{ message: 'File not found' }] }) : send(res, 200, content);
+  });
+
+  return new Promise(resolve => {
+    server.listen(0, '127.0.0.1', () => {
+      const { port } = server.address() as AddressInfo;
+      resolve({ server, url: `http://127.0.0.1:${port}`, tokens, logins: () => loginCount });
+    });
+  });
+}
+
+describe('conan-remote-source service', () => {
+  let stub: Awaited<ReturnType<typeof startConanServer>>;
+  let source: ConanRemoteSource;
+
+  beforeAll(async () => {
+    stub = await startConanServer();
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => stub.server.close(resolve));
+  });
+
+  beforeEach(() => {
+    source = new ConanRemoteSource('internal', `${stub.url}/`, { username: 'demo', password: 'secret' });
+  });
+
+  test('should list recipe names from a wildcard search', async () => {
+    expect(await source.listRecipes()).toEqual([{ name: 'mylib', remote: 'internal' }, { name: 'tools', remote: 'internal' }]);
+  });
+
+  test('should expose each version as its own folder', async () => {
+    expect(await source.getRecipeConfig('mylib')).toEqual({
+      versions: { '1.0': { folder: '1.0' }, '1.1': { folder: '1.1' } },
+      remote: 'internal',
+    });
+    expect(await source.getRecipeConfig('missing')).toBeNull();
+  });
+
+  test('should list recipe revisions newest first', async () => {
+    expect(await source.getRevisions('mylib', '1.0')).toEqual([
+      { revision: 'bbb222', time: '2024-03-02T10:00:00.000+0000' },
+      { revision: 'aaa111', time: '2024-03-01T10:00:00.000+0000' },
+    ]);
+    expect(await source.getRevisions('mylib', '9.9')).toEqual([]);
+  });
+
+  test('should report recipe revisions as history', async () => {
+    const history = await source.getRecipeHistory('mylib', { versions: { '1.0': { folder: '1.0' }, '1.1': { folder: '1.1' } } });
+
+    expect(history).toEqual({
+      created_at: '2024-03-01T10:00:00.000Z',
+      updated_at: '2024-04-01T10:00:00.000Z',
+      revisions: {
+        '1.0': [{ id: 'bbb222', timestamp: '2024-03-02T10:00:00.000Z' }, { id: 'aaa111', timestamp: '2024-03-01T10:00:00.000Z' }],
+        '1.1': [{ id: 'ccc333', timestamp: '2024-04-01T10:00:00.000Z' }],
+      },
+    });
+  });
+
+  test('should date the last change from the newest revision', async () => {
+    expect(await source.getUpdatedAt('mylib', { versions: { '1.0': { folder: '1.0' }, '1.1': { folder: '1.1' } } })).toBe('2024-04-01T10:00:00.000Z');
+  });
+
+  test('should download files from the latest recipe revision', async () => {
+    expect(await source.readRecipeFile('mylib', '1.0', 'conanfile.py')).toBe(conanfile);
+    expect(await source.readRecipeFile('mylib', '1.0', 'conandata.yml')).toBeNull();
+    expect(await source.listRecipeFiles('mylib', '1.0', '')).toEqual(['conanfile.py', 'conanmanifest.txt']);
+  });
+
+  test('should log in once and again when the token expires', async () => {
+    const loginsBefore = stub.logins();
+
+    await Promise.all([source.listRecipes(), source.getRecipeConfig('mylib')]);
+    expect(stub.logins()).toBe(loginsBefore + 1);
+
+    stub.tokens.clear();
+    expect(await source.listRecipes()).toHaveLength(2);
+    expect(stub.logins()).toBe(loginsBefore + 2);
+  });
+
+  test('should use a configured token as-is', async () => {
+    stub.tokens.add('static-token');
+    const tokenSource = new ConanRemoteSource('internal', stub.url, { token: 'static-token' });
+
+    expect(await tokenSource.listRecipes()).toHaveLength(2);
+  });
+
+  test('should report rejected credentials', async () => {
+    const wrong = new ConanRemoteSource('internal', stub.url, { username: 'demo', password: 'wrong' });
+
+    await expect(wrong.listRecipes()).rejects.toThrow('Authentication with Conan remote internal failed: HTTP 401');
+  });
+
+  test('should fail without credentials on a private remote', async () => {
+    const anonymous = new ConanRemoteSource('internal', stub.url);
+
+    await expect(anonymous.listRecipes()).rejects.toThrow('HTTP 401');
+  });
+
+  describe('through ConanCenterApi', () => {
+    test('should answer search, info and recipe details for internal packages', async () => {
+      const api = new ConanCenterApi(source);
+
+      const search = await api.searchPackages('lib');
+      const info = await api.getRecipeInfo('mylib');
+      const details = await api.getRecipeDetails('mylib', '1.0');
+
+      expect(search.results.map(pkg => `${pkg.remote}:${pkg.name}`)).toEqual(['internal:mylib']);
+      expect(info.latest_version).toBe('1.1');
+      expect(info.remote).toBe('internal');
+      expect(details?.description).toBe('Internal utilities');
+      expect(details?.requires).toEqual(['zlib/[>=1.2.11 <2]']);
+    });
+  });
+});
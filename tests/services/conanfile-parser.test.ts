@@ -0,0 +1,320 @@
+import { expect, test, describe, beforeEach } from "vitest";
+import { ConanfileParser } from '../../src/services/conanfile-parser.js';
+
+const FMT_CONANFILE = `from conan import ConanFile
+from conan.tools.files import get, copy
+import os
+
+required_conan_version = ">=1.53.0"
+
+
+class FmtConan(ConanFile):
+    name = "fmt"
+    homepage = "https://github.com/fmtlib/fmt"
+    description = (
+        "A safe and fast alternative to printf and IOStreams "
+        "for C++"
+    )
+    topics = ("format", "iostream", "printf")
+    url = "https://github.com/conan-io/conan-center-index"
+    license = "MIT"
+    package_type = "library"
+    settings = "os", "arch", "compiler", "build_type"
+    options = {
+        "header_only": [True, False],
+        "shared": [True, False],  # comment inside a dict
+        "fPIC": [True, False],
+        "with_os_api": [True, False],
+    }
+    default_options = {
+        "header_only": False,
+        "shared": False,
+        "fPIC": True,
+        "with_os_api": True,
+    }
+    generators = "CMakeDeps"
+
+    @property
+    def _has_with_os_api_option(self):
+        return Version(self.version) >= "7.0.0"
+
+    def requirements(self):
+        self.requires("zlib/[>=1.2.11 <2]")
+        if self.options.with_os_api:
+            self.requires('openssl/[>=1.1 <4]', transitive_headers=True)
+        self.requires(f"boost/{self._boost_version}")
+
+    def build_requirements(self):
+        self.tool_requires("cmake/[>=3.16 <4]")
+
+    def package_info(self):
+        name = "not_an_attribute"
+`;
+
+describe('conanfile-parser service', () => {
+  let parser: ConanfileParser;
+
+  beforeEach(() => {
+    parser = new ConanfileParser();
+  });
+
+  test('should create instance properly', () => {
+    expect(parser).toBeInstanceOf(ConanfileParser);
+  });
+
+  describe('parse', () => {
+    test('should parse metadata attributes', () => {
+      const result = parser.parse(FMT_CONANFILE);
+
+      expect(result.name).toBe('fmt');
+      expect(result.license).toBe('MIT');
+      expect(result.homepage).toBe('https://github.com/fmtlib/fmt');
+      expect(result.url).toBe('https://github.com/conan-io/conan-center-index');
+      expect(result.description).toBe('A safe and fast alternative to printf and IOStreams for C++');
+      expect(result.topics).toEqual(['format', 'iostream', 'printf']);
+      expect(result.package_type).toBe('library');
+      expect(result.deprecated).toBeUndefined();
+    });
+
+    test('should parse deprecation flags and successors', () => {
+      expect(parser.parse('class A(ConanFile):\n    deprecated = True\n').deprecated).toBe(true);
+      expect(parser.parse('class A(ConanFile):\n    deprecated = "zlib-ng"\n').deprecated).toBe('zlib-ng');
+    });
+
+    test('should parse bare tuples and single string attributes', () => {
+      const result = parser.parse(FMT_CONANFILE);
+
+      expect(result.settings).toEqual(['os', 'arch', 'compiler', 'build_type']);
+      expect(result.generators).toEqual(['CMakeDeps']);
+    });
+
+    test('should parse multi-line options and default options', () => {
+      const result = parser.parse(FMT_CONANFILE);
+
+      expect(result.options).toEqual({
+        header_only: [true, false],
+        shared: [true, false],
+        fPIC: [true, false],
+        with_os_api: [true, false],
+      });
+      expect(result.default_options).toEqual({
+        header_only: false,
+        shared: false,
+        fPIC: true,
+        with_os_api: true,
+      });
+    });
+
+    test('should collect self.requires calls and skip unresolved f-strings', () => {
+      const result = parser.parse(FMT_CONANFILE);
+
+      expect(result.requires).toEqual(['zlib/[>=1.2.11 <2]', 'openssl/[>=1.1 <4]']);
+    });
+
+    test('should combine the requires class attribute with requirements()', () => {
+      const content = [
+        'class FooConan(ConanFile):',
+        '    requires = "bar/1.0", "baz/2.0"',
+        '',
+        '    def requirements(self):',
+        '        self.requires("qux/3.0")',
+      ].join('\n');
+
+      expect(parser.parse(content).requires).toEqual(['bar/1.0', 'baz/2.0', 'qux/3.0']);
+    });
+
+    test('should join license tuples', () => {
+      const content = [
+        'class FooConan(ConanFile):',
+        '    license = ("MIT", "BSD-3-Clause")',
+      ].join('\n');
+
+      expect(parser.parse(content).license).toBe('MIT, BSD-3-Clause');
+    });
+
+    test('should return empty values when no ConanFile class exists', () => {
+      const result = parser.parse('print("hello")');
+
+      expect(result.name).toBeUndefined();
+      expect(result.requires).toEqual([]);
+      expect(result.options).toEqual({});
+      expect(result.settings).toEqual([]);
+    });
+
+    test('should skip attributes that are not literals', () => {
+      const content = [
+        'class FooConan(ConanFile):',
+        '    exports_sources = os.path.join("a", "b")',
+        '    license = "MIT"',
+      ].join('\n');
+
+      const attributes = parser.extractClassAttributes(content);
+
+      expect(attributes).not.toHaveProperty('exports_sources');
+      expect(attributes.license).toBe('MIT');
+    });
+  });
+
+  describe('parsePackageInfo', () => {
+    test('should collect global and per-component properties', () => {
+      const content = [
+        'class OpenSSLConan(ConanFile):',
+        '    name = "openssl"',
+        '',
+        '    def package_info(self):',
+        '        self.cpp_info.set_property("cmake_file_name", "OpenSSL")',
+        '        self.cpp_info.set_property("cmake_find_mode", "both")',
+        '        self.cpp_info.set_property("pkg_config_name", "openssl")',
+        '        self.cpp_info.components["crypto"].set_property("cmake_target_name", "OpenSSL::Crypto")',
+        "        self.cpp_info.components['ssl'].set_property('cmake_target_name', 'OpenSSL::SSL')",
+        '        self.cpp_info.components["ssl"].set_property("pkg_config_name", "libssl")',
+        '        self.cpp_info.set_property("cmake_target_name", f"{self._name}::{self._name}")',
+      ].join('\n');
+
+      const result = parser.parse(content).package_info;
+
+      expect(result.properties).toEqual({
+        cmake_file_name: 'OpenSSL',
+        cmake_find_mode: 'both',
+        pkg_config_name: 'openssl',
+      });
+      expect(result.components.crypto.properties).toEqual({ cmake_target_name: 'OpenSSL::Crypto' });
+      expect(result.components.ssl.properties).toEqual({ cmake_target_name: 'OpenSSL::SSL', pkg_config_name: 'libssl' });
+    });
+
+    test('should collect component libs, system libs and requires', () => {
+      const content = [
+        'class OpenSSLConan(ConanFile):',
+        '    def package_info(self):',
+        '        self.cpp_info.components["crypto"].libs = ["libcrypto"]',
+        '        self.cpp_info.components["crypto"].requires = ["zlib::zlib"]',
+        '        if self.settings.os == "Linux":',
+        '            self.cpp_info.components["crypto"].system_libs.extend(["dl", "rt"])',
+        '            self.cpp_info.components["crypto"].system_libs.append("pthread")',
+        '        self.cpp_info.components["ssl"].libs = ["libssl"]',
+        '        self.cpp_info.components["ssl"].requires.append("crypto")',
+        '        self.cpp_info.components["ssl"].libs += [self._ssl_name]',
+      ].join('\n');
+
+      const result = parser.parse(content).package_info;
+
+      expect(result.components.crypto).toEqual({
+        properties: {},
+        libs: ['libcrypto'],
+        system_libs: ['dl', 'rt', 'pthread'],
+        requires: ['zlib::zlib'],
+      });
+      expect(result.components.ssl.libs).toEqual(['libssl']);
+      expect(result.components.ssl.requires).toEqual(['crypto']);
+    });
+
+    test('should collect libs of packages without components', () => {
+      const content = [
+        'class ZlibConan(ConanFile):',
+        '    def package_info(self):',
+        '        self.cpp_info.libs = ["z"]',
+      ].join('\n');
+
+      const result = parser.parse(content).package_info;
+
+      expect(result.libs).toEqual(['z']);
+      expect(result.components).toEqual({});
+    });
+
+    test('should return empty info without package_info()', () => {
+      expect(parser.parse(FMT_CONANFILE.replace('def package_info', 'def other')).package_info)
+        .toEqual({ properties: {}, libs: [], system_libs: [], requires: [], components: {} });
+    });
+  });
+
+  describe('requirements', () => {
+    const CONDITIONAL_CONANFILE = [
+      'class FooConan(ConanFile):',
+      '    tool_requires = "ninja/1.11.1"',
+      '    options = {"with_ssl": [True, False], "backend": ["epoll", "select"], "with_zstd": [True, False]}',
+      '    default_options = {"with_ssl": True, "backend": "epoll", "with_zstd": False}',
+      '',
+      '    def requirements(self):',
+      '        self.requires("zlib/[>=1.2.11 <2]")',
+      '        if self.options.with_ssl:',
+      '            self.requires("openssl/[>=1.1 <4]")',
+      '        if self.options.with_zstd:',
+      '            self.requires("zstd/1.5.5")',
+      '        elif self.options.backend == "select":',
+      '            self.requires("libselect/1.0")',
+      '        else:',
+      '            self.requires("liburing/2.4")',
+      '        if self.settings.os == "Windows":',
+      '            self.requires("winapi/1.0")',
+      '        if Version(self.version) >= "2.0" and not self.options.get_safe("legacy"):',
+      '            self.requires("fmt/10.2.1")',
+      '',
+      '    def build_requirements(self):',
+      '        self.tool_requires("cmake/[>=3.16 <4]")',
+      '        self.build_requires("pkgconf/2.1.0")',
+      '        self.test_requires("gtest/1.14.0")',
+    ].join('\n');
+
+    test('should evaluate option conditions against the default options', () => {
+      const result = parser.parse(CONDITIONAL_CONANFILE, '2.1.0');
+      const enabled = result.requirements.filter(requirement => requirement.enabled).map(requirement => requirement.reference);
+
+      expect(enabled).toEqual([
+        'ninja/1.11.1',
+        'zlib/[>=1.2.11 <2]',
+        'openssl/[>=1.1 <4]',
+        'liburing/2.4',
+        'winapi/1.0',
+        'fmt/10.2.1',
+        'cmake/[>=3.16 <4]',
+        'pkgconf/2.1.0',
+        'gtest/1.14.0',
+      ]);
+      expect(result.requirements.find(requirement => requirement.reference === 'zstd/1.5.5')?.enabled).toBe(false);
+      expect(result.requirements.find(requirement => requirement.reference === 'libselect/1.0')?.enabled).toBe(false);
+    });
+
+    test('should report settings conditions that cannot be evaluated', () => {
+      const result = parser.parse(CONDITIONAL_CONANFILE, '2.1.0');
+
+      expect(result.requirements.find(requirement => requirement.reference === 'winapi/1.0')).toEqual({
+        reference: 'winapi/1.0',
+        kind: 'requires',
+        enabled: true,
+        condition: 'self.settings.os == "Windows"',
+      });
+    });
+
+    test('should evaluate version conditions against the recipe version', () => {
+      const result = parser.parse(CONDITIONAL_CONANFILE, '1.9.0');
+
+      expect(result.requirements.find(requirement => requirement.reference === 'fmt/10.2.1')?.enabled).toBe(false);
+    });
+
+    test('should classify tool_requires and test_requires', () => {
+      const result = parser.parse(CONDITIONAL_CONANFILE, '2.1.0');
+
+      expect(result.tool_requires).toEqual(['ninja/1.11.1', 'cmake/[>=3.16 <4]', 'pkgconf/2.1.0']);
+      expect(result.test_requires).toEqual(['gtest/1.14.0']);
+    });
+
+    test('should leave requirements disabled by the default options out of the flat lists', () => {
+      const result = parser.parse(CONDITIONAL_CONANFILE, '2.1.0');
+
+      expect(result.requires).toEqual(['zlib/[>=1.2.11 <2]', 'openssl/[>=1.1 <4]', 'liburing/2.4', 'winapi/1.0', 'fmt/10.2.1']);
+    });
+  });
+
+  describe('extractMethodBody', () => {
+    test('should return only the body of the requested method', () => {
+      const body = parser.extractMethodBody(FMT_CONANFILE, 'build_requirements');
+
+      expect(body).toContain('self.tool_requires("cmake/[>=3.16 <4]")');
+      expect(body).not.toContain('package_info');
+    });
+
+    test('should return empty string for missing method', () => {
+      expect(parser.extractMethodBody(FMT_CONANFILE, 'validate')).toBe('');
+    });
+  });
+});
@@ -0,0 +1,226 @@
+import { expect, test, describe, vi, beforeEach, afterEach } from "vitest";
+import { DependencyResolver, parseReference } from '../../src/services/dependency-resolver.js';
+import { conanCenterApi } from '../../src/services/conan-center-api.js';
+import { cache, createCacheKey } from '../../src/services/cache.js';
+import type { ConanRequirement } from '../../src/types/index.js';
+
+vi.mock('../../src/services/conan-center-api.js');
+vi.mock('../../src/services/cache.js');
+
+const requires = (reference: string, extra: Partial<ConanRequirement> = {}): ConanRequirement => ({
+  reference,
+  kind: 'requires',
+  enabled: true,
+  ...extra,
+});
+
+// name -> version -> requirements
+function mockRecipes(recipes: Record<string, Record<string, ConanRequirement[]>>): void {
+  (conanCenterApi.getRecipeInfo as any).mockImplementation(async (name: string) => {
+    if (!recipes[name]) {
+      throw new Error(`Package '${name}' not found`);
+    }
+    return { name, versions: Object.fromEntries(Object.keys(recipes[name]).map(version => [version, { folder: 'all' }])) };
+  });
+  (conanCenterApi.getRecipeDetails as any).mockImplementation(async (name: string, version: string) =>
+    recipes[name]?.[version] ? { name, version, requirements: recipes[name][version] } : null
+  );
+}
+
+describe('dependency-resolver service', () => {
+  let resolver: DependencyResolver;
+  const options = { includeToolRequires: false, includeTestRequires: false, maxDepth: 10 };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    resolver = new DependencyResolver();
+    (cache.get as any).mockReturnValue(null);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('parseReference', () => {
+    test('should split name and version range', () => {
+      expect(parseReference('zlib/[>=1.2.11 <2]')).toEqual({ name: 'zlib', version: '[>=1.2.11 <2]' });
+    });
+
+    test('should drop user, channel and revision', () => {
+      expect(parseReference('foo/1.0@user/stable#abc123')).toEqual({ name: 'foo', version: '1.0' });
+    });
+
+    test('should reject references without a version', () => {
+      expect(parseReference('zlib')).toBeNull();
+    });
+  });
+
+  describe('resolve', () => {
+    test('should resolve transitive requires and version ranges', async () => {
+      mockRecipes({
+        libcurl: { '8.6.0': [requires('openssl/[>=1.1 <4]'), requires('zlib/[>=1.2.11 <2]')] },
+        openssl: { '3.2.1': [requires('zlib/[>=1.2.11 <2]')], '1.1.1w': [] },
+        zlib: { '1.3.1': [], '1.2.13': [] },
+      });
+
+      const result = await resolver.resolve('libcurl', '8.6.0', options);
+
+      expect(result.tree.version).toBe('8.6.0');
+      expect(result.tree.dependencies.map(node => `${node.name}/${node.version}`)).toEqual(['openssl/3.2.1', 'zlib/1.3.1']);
+      expect(result.tree.dependencies[0].dependencies[0]).toMatchObject({ name: 'zlib', version: '1.3.1', reference: 'zlib/[>=1.2.11 <2]' });
+      expect(result.packages).toEqual(['libcurl/8.6.0', 'openssl/3.2.1', 'zlib/1.3.1']);
+      expect(result.conflicts).toEqual([]);
+    });
+
+    test('should reuse cached recipe details for repeated subtrees', async () => {
+      mockRecipes({
+        app: { '1.0': [requires('a/1.0'), requires('b/1.0')] },
+        a: { '1.0': [requires('zlib/1.3.1')] },
+        b: { '1.0': [requires('zlib/1.3.1')] },
+        zlib: { '1.3.1': [] },
+      });
+      const store = new Map<string, unknown>();
+      (createCacheKey.recipeInfo as any).mockImplementation((name: string) => `info:${name}`);
+      (createCacheKey.recipeDetails as any).mockImplementation((name: string, version: string) => `recipe:${name}:${version}`);
+      (cache.get as any).mockImplementation((key: string) => store.get(key) ?? null);
+      (cache.set as any).mockImplementation((key: string, value: unknown) => store.set(key, value));
+
+      await resolver.resolve('app', '1.0', options);
+
+      // zlib is reached through both a and b but fetched once
+      expect(conanCenterApi.getRecipeDetails).toHaveBeenCalledTimes(4);
+      expect(conanCenterApi.getRecipeInfo).toHaveBeenCalledTimes(4);
+    });
+
+    test('should report diamond conflicts between pinned versions', async () => {
+      mockRecipes({
+        app: { '1.0': [requires('a/1.0'), requires('b/1.0')] },
+        a: { '1.0': [requires('zlib/1.2.13')] },
+        b: { '1.0': [requires('zlib/1.3.1')] },
+        zlib: { '1.3.1': [], '1.2.13': [] },
+      });
+
+      const result = await resolver.resolve('app', '1.0', options);
+
+      expect(result.conflicts).toEqual([{
+        name: 'zlib',
+        versions: ['1.2.13', '1.3.1'],
+        required_by: [
+          { parent: 'a/1.0', reference: 'zlib/1.2.13', version: '1.2.13' },
+          { parent: 'b/1.0', reference: 'zlib/1.3.1', version: '1.3.1' },
+        ],
+      }]);
+    });
+
+    test('should detect cycles without expanding them', async () => {
+      mockRecipes({
+        a: { '1.0': [requires('b/1.0')] },
+        b: { '1.0': [requires('a/[>=1.0]')] },
+      });
+
+      const result = await resolver.resolve('a', '1.0', options);
+
+      expect(result.cycles).toEqual([['a/1.0', 'b/1.0', 'a/1.0']]);
+      expect(result.tree.dependencies[0].dependencies[0]).toMatchObject({ name: 'a', cycle: true, dependencies: [] });
+    });
+
+    test('should skip disabled requirements and follow tool_requires only on request', async () => {
+      mockRecipes({
+        app: {
+          '1.0': [
+            requires('zlib/1.3.1', { enabled: false }),
+            requires('cmake/3.28.1', { kind: 'tool_requires' }),
+            requires('gtest/1.14.0', { kind: 'test_requires' }),
+          ],
+        },
+        cmake: { '3.28.1': [requires('openssl/3.2.1')] },
+        gtest: { '1.14.0': [] },
+        openssl: { '3.2.1': [] },
+      });
+
+      const hostOnly = await resolver.resolve('app', '1.0', options);
+      const withTools = await resolver.resolve('app', '1.0', { ...options, includeToolRequires: true, includeTestRequires: true });
+
+      expect(hostOnly.tree.dependencies).toEqual([]);
+      expect(withTools.tree.dependencies.map(node => node.kind)).toEqual(['tool_requires', 'test_requires']);
+      expect(withTools.tree.dependencies[0].dependencies[0]).toMatchObject({ name: 'openssl', kind: 'requires' });
+    });
+
+    test('should keep build-context versions out of conflict detection', async () => {
+      mockRecipes({
+        app: { '1.0': [requires('openssl/1.1.1w'), requires('cmake/3.28.1', { kind: 'tool_requires' })] },
+        cmake: { '3.28.1': [requires('openssl/3.2.1')] },
+        openssl: { '3.2.1': [], '1.1.1w': [] },
+      });
+
+      const result = await resolver.resolve('app', '1.0', { ...options, includeToolRequires: true });
+
+      expect(result.conflicts).toEqual([]);
+    });
+
+    test('should report unresolvable requirements on the node', async () => {
+      mockRecipes({
+        app: { '1.0': [requires('missing/1.0'), requires('zlib/[>=2]')] },
+        zlib: { '1.3.1': [] },
+      });
+
+      const result = await resolver.resolve('app', '1.0', options);
+
+      expect(result.tree.dependencies.map(node => node.error)).toEqual([
+        "Package 'missing' not found",
+        "No version of 'zlib' matches '[>=2]'",
+      ]);
+    });
+
+    test('should report read failures on the node instead of dropping its dependencies', async () => {
+      mockRecipes({
+        app: { '1.0': [requires('openssl/3.2.1'), requires('zlib/1.3.1')] },
+        openssl: { '3.2.1': [requires('zlib/1.3.1')] },
+        zlib: { '1.3.1': [] },
+      });
+      const getRecipeInfo = (conanCenterApi.getRecipeInfo as any).getMockImplementation();
+      (conanCenterApi.getRecipeInfo as any).mockImplementation(async (name: string) => {
+        if (name === 'zlib') {
+          throw new Error('Error in Conan Center recipe for zlib: Network error');
+        }
+        return getRecipeInfo(name);
+      });
+      (conanCenterApi.getRecipeDetails as any).mockImplementation(async (name: string, version: string) => {
+        if (name === 'openssl') {
+          throw new Error('GitHub API rate limit exceeded');
+        }
+        return { name, version, requirements: [requires('openssl/3.2.1'), requires('zlib/1.3.1')] };
+      });
+
+      const result = await resolver.resolve('app', '1.0', options);
+
+      expect(result.tree.dependencies.map(node => node.error)).toEqual([
+        "Could not read the conanfile of 'openssl/3.2.1': GitHub API rate limit exceeded",
+        "Could not read the recipe of 'zlib': Error in Conan Center recipe for zlib: Network error",
+      ]);
+      expect(result.tree.dependencies[0].version).toBe('3.2.1');
+    });
+
+    test('should pass the recipe info on when reading recipe details', async () => {
+      mockRecipes({
+        app: { '1.0': [] },
+      });
+
+      await resolver.resolve('app', '1.0', options);
+
+      expect(conanCenterApi.getRecipeDetails).toHaveBeenCalledWith('app', '1.0', expect.objectContaining({ name: 'app' }));
+    });
+
+    test('should stop expanding at max depth', async () => {
+      mockRecipes({
+        a: { '1.0': [requires('b/1.0')] },
+        b: { '1.0': [requires('c/1.0')] },
+        c: { '1.0': [] },
+      });
+
+      const result = await resolver.resolve('a', '1.0', { ...options, maxDepth: 1 });
+
+      expect(result.tree.dependencies[0]).toMatchObject({ name: 'b', truncated: true, dependencies: [] });
+    });
+  });
+});
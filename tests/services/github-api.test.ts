@@ -1,5 +1,7 @@
 import { expect, test, describe, vi, beforeEach, afterEach } from "vitest";
 import { GitHubApi } from '../../src/services/github-api.js';
+import { config } from '../../src/utils/config.js';
+import { RateLimitError } from '../../src/types/index.js';
 
 describe('github-api service', () => {
   let githubApi: GitHubApi;
@@ -202,6 +204,125 @@ describe('github-api service', () => {
     });
   });
 
+  describe('getReadme', () => {
+    test('should request the README at the given ref', async () => {
+      fetchMock.mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        json: vi.fn().mockResolvedValue({
+          content: Buffer.from('# v1', 'utf-8').toString('base64'),
+          encoding: 'base64',
+          url: 'https://api.github.com/repos/owner/repo/contents/README.md?ref=v1.0.0'
+        })
+      });
+
+      const result = await githubApi.getReadme('https://github.com/owner/repo', 'v1.0.0');
+
+      expect(result).toEqual({ content: '# v1', ref: 'v1.0.0', fell_back_to_default_branch: false });
+      expect(fetchMock).toHaveBeenCalledWith(
+        'https://api.github.com/repos/owner/repo/readme?ref=v1.0.0',
+        expect.any(Object)
+      );
+    });
+
+    test('should report the default branch from the response url', async () => {
+      fetchMock.mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        json: vi.fn().mockResolvedValue({
+          content: Buffer.from('# main', 'utf-8').toString('base64'),
+          encoding: 'base64',
+          url: 'https://api.github.com/repos/owner/repo/contents/README.md?ref=main'
+        })
+      });
+
+      const result = await githubApi.getReadme('https://github.com/owner/repo');
+
+      expect(result).toEqual({ content: '# main', ref: 'main', fell_back_to_default_branch: true });
+    });
+
+    test('should throw when rate limited', async () => {
+      fetchMock.mockResolvedValueOnce({ ok: false, status: 429, statusText: 'Too Many Requests', headers: new Headers({ 'retry-after': '30' }) });
+
+      await expect(githubApi.getReadme('https://github.com/owner/repo')).rejects.toBeInstanceOf(RateLimitError);
+    });
+  });
+
+  describe('getVersionedReadme', () => {
+    const tags = (...names: string[]) => ({
+      ok: true,
+      status: 200,
+      json: vi.fn().mockResolvedValue(names.map(name => ({ ref: `refs/tags/${name}`, object: { sha: 'abc', type: 'commit' } })))
+    });
+
+    test('should fetch the README at the first candidate the repository has as a tag', async () => {
+      fetchMock
+        .mockResolvedValueOnce(tags('0.9.0', '1.0.0', 'release-1.0.0'))
+        .mockResolvedValueOnce({
+          ok: true,
+          status: 200,
+          json: vi.fn().mockResolvedValue({
+            content: Buffer.from('# 1.0.0', 'utf-8').toString('base64'),
+            encoding: 'base64'
+          })
+        });
+
+      const result = await githubApi.getVersionedReadme('https://github.com/owner/repo', ['v1.0.0', '1.0.0', 'release-1.0.0']);
+
+      expect(result).toEqual({ content: '# 1.0.0', ref: '1.0.0', fell_back_to_default_branch: false });
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+      expect(fetchMock.mock.calls[0][0]).toBe('https://api.github.com/repos/owner/repo/git/matching-refs/tags/');
+      expect(fetchMock.mock.calls[1][0]).toBe('https://api.github.com/repos/owner/repo/readme?ref=1.0.0');
+    });
+
+    test('should fall back to the default branch', async () => {
+      fetchMock
+        .mockResolvedValueOnce(tags('0.9.0'))
+        .mockResolvedValueOnce({
+          ok: true,
+          status: 200,
+          json: vi.fn().mockResolvedValue({
+            content: Buffer.from('# HEAD', 'utf-8').toString('base64'),
+            encoding: 'base64',
+            url: 'https://api.github.com/repos/owner/repo/contents/README.md?ref=master'
+          })
+        });
+
+      const result = await githubApi.getVersionedReadme('https://github.com/owner/repo', ['v1.0.0']);
+
+      expect(result).toEqual({ content: '# HEAD', ref: 'master', fell_back_to_default_branch: true });
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+      expect(fetchMock).toHaveBeenLastCalledWith('https://api.github.com/repos/owner/repo/readme', expect.any(Object));
+    });
+
+    test('should stop at a rate limit instead of trying the default branch', async () => {
+      fetchMock.mockResolvedValueOnce({
+        ok: false,
+        status: 403,
+        statusText: 'Forbidden',
+        headers: new Headers({ 'x-ratelimit-remaining': '0', 'x-ratelimit-reset': String(Math.floor(Date.now() / 1000) + 60) })
+      });
+
+      await expect(githubApi.getVersionedReadme('https://github.com/owner/repo', ['v1.0.0'])).rejects.toBeInstanceOf(RateLimitError);
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('offline mode', () => {
+    afterEach(() => {
+      config.offline = false;
+    });
+
+    test('should not fetch READMEs', async () => {
+      config.offline = true;
+
+      const result = await githubApi.getVersionedReadme('https://github.com/owner/repo', ['v1.0.0']);
+
+      expect(result).toBeNull();
+      expect(fetchMock).not.toHaveBeenCalled();
+    });
+  });
+
   describe('checkRepositoryExists', () => {
     test('should return true for existing repository', async () => {
       fetchMock.mockResolvedValueOnce({
@@ -244,4 +365,56 @@ describe('github-api service', () => {
       expect(result).toBe(false);
     });
   });
-});
\ No newline at end of file
+
+  describe('getCommits', () => {
+    afterEach(() => {
+      config.offline = false;
+    });
+
+    test('should list commits for a path within the date range', async () => {
+      const commits = [{
+        sha: 'abc123',
+        html_url: 'https://github.com/owner/repo/commit/abc123',
+        commit: {
+          message: 'zlib: add 1.3.1 (#123)',
+          author: { name: 'Jane', email: 'jane@example.com', date: '2024-02-01T00:00:00Z' },
+          committer: { name: 'GitHub', email: 'noreply@github.com', date: '2024-02-01T00:00:00Z' },
+        },
+      }];
+      fetchMock.mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        json: vi.fn().mockResolvedValue(commits)
+      });
+
+      const result = await githubApi.getCommits('https://github.com/owner/repo', {
+        path: 'recipes/zlib/all',
+        since: '2024-01-01T00:00:00.000Z',
+        perPage: 10,
+      });
+
+      expect(result).toEqual(commits);
+      expect(fetchMock).toHaveBeenCalledWith(
+        'https://api.github.com/repos/owner/repo/commits?path=recipes%2Fzlib%2Fall&per_page=10&since=2024-01-01T00%3A00%3A00.000Z',
+        expect.any(Object)
+      );
+    });
+
+    test('should throw on API error', async () => {
+      fetchMock.mockResolvedValueOnce({
+        ok: false,
+        status: 403,
+        statusText: 'Forbidden'
+      });
+
+      await expect(githubApi.getCommits('https://github.com/owner/repo', { path: 'recipes/zlib' })).rejects.toThrow('HTTP 403: Forbidden');
+    });
+
+    test('should not call the network in offline mode', async () => {
+      config.offline = true;
+
+      await expect(githubApi.getCommits('https://github.com/owner/repo', { path: 'recipes/zlib' })).rejects.toThrow('offline mode');
+      expect(fetchMock).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,180 @@
+import { expect, test, describe, vi, beforeEach, afterEach } from "vitest";
+import { GitHubRecipeSource } from '../../src/services/github-recipe-source.js';
+import { config } from '../../src/utils/config.js';
+import { RateLimitError } from '../../src/types/index.js';
+
+const mockFileResponse = (content: string) => ({
+  ok: true,
+  status: 200,
+  json: vi.fn().mockResolvedValue({
+    encoding: 'base64',
+    content: Buffer.from(content).toString('base64')
+  })
+});
+
+describe('github-recipe-source service', () => {
+  let source: GitHubRecipeSource;
+  let fetchMock: any;
+
+  beforeEach(() => {
+    source = new GitHubRecipeSource();
+    fetchMock = vi.fn();
+    global.fetch = fetchMock;
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    config.offline = false;
+    config.githubToken = undefined;
+  });
+
+  test('should list recipe folders from the git trees API', async () => {
+    fetchMock.mockResolvedValueOnce({
+      ok: true,
+      status: 200,
+      headers: new Headers(),
+      json: vi.fn().mockResolvedValue({
+        sha: 'abc',
+        truncated: false,
+        tree: [
+          { path: 'zlib', type: 'tree', mode: '040000', sha: '1' },
+          { path: 'README.md', type: 'blob', mode: '100644', sha: '2' },
+          { path: 'boost', type: 'tree', mode: '040000', sha: '3' }
+        ]
+      })
+    });
+
+    const result = await source.listRecipes();
+
+    expect(result).toEqual([{ name: 'boost', remote: 'conancenter', sha: '3' }, { name: 'zlib', remote: 'conancenter', sha: '1' }]);
+    expect(fetchMock).toHaveBeenCalledWith(
+      'https://api.github.com/repos/conan-io/conan-center-index/git/trees/master:recipes',
+      expect.any(Object)
+    );
+  });
+
+  test('should reuse the recipe listing while GitHub reports it unchanged', async () => {
+    fetchMock
+      .mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        headers: new Headers({ etag: '"tree-v1"' }),
+        json: vi.fn().mockResolvedValue({ sha: 'abc', truncated: false, tree: [{ path: 'zlib', type: 'tree', mode: '040000', sha: '1' }] })
+      })
+      .mockResolvedValueOnce({ ok: false, status: 304, statusText: 'Not Modified', headers: new Headers() });
+
+    const first = await source.listRecipes();
+    const second = await source.listRecipes();
+
+    expect(second).toBe(first);
+    expect(fetchMock.mock.calls[1][1].headers['If-None-Match']).toBe('"tree-v1"');
+  });
+
+  test('should parse config.yml and report unknown packages as null', async () => {
+    fetchMock
+      .mockResolvedValueOnce(mockFileResponse('versions:\n  "1.3.1":\n    folder: all\n'))
+      .mockResolvedValueOnce({ ok: false, status: 404, statusText: 'Not Found' });
+
+    expect(await source.getRecipeConfig('zlib')).toEqual({ versions: { '1.3.1': { folder: 'all' } }, remote: 'conancenter' });
+    expect(await source.getRecipeConfig('missing')).toBeNull();
+    expect(fetchMock.mock.calls[0][0]).toBe('https://api.github.com/repos/conan-io/conan-center-index/contents/recipes/zlib/config.yml');
+  });
+
+  test('should read a file relative to the recipe folder', async () => {
+    fetchMock.mockResolvedValueOnce(mockFileResponse('class Foo: pass'));
+
+    const result = await source.readRecipeFile('zlib', 'all', 'conanfile.py');
+
+    expect(result).toBe('class Foo: pass');
+    expect(fetchMock).toHaveBeenCalledWith(
+      'https://api.github.com/repos/conan-io/conan-center-index/contents/recipes/zlib/all/conanfile.py',
+      expect.any(Object)
+    );
+  });
+
+  test('should list only files in a recipe directory', async () => {
+    fetchMock.mockResolvedValueOnce({
+      ok: true,
+      status: 200,
+      json: vi.fn().mockResolvedValue([
+        { name: 'CMakeLists.txt', type: 'file' },
+        { name: 'subdir', type: 'dir' }
+      ])
+    });
+
+    expect(await source.listRecipeFiles('fmt', 'all', 'test_package')).toEqual(['CMakeLists.txt']);
+    expect(fetchMock.mock.calls[0][0]).toContain('/contents/recipes/fmt/all/test_package');
+  });
+
+  test('should send the GitHub token when configured', async () => {
+    config.githubToken = 'ghp_token';
+    fetchMock.mockResolvedValueOnce(mockFileResponse('class Foo: pass'));
+
+    await source.readRecipeFile('zlib', 'all', 'conanfile.py');
+
+    expect(fetchMock.mock.calls[0][1].headers.Authorization).toBe('Bearer ghp_token');
+  });
+
+  test('should report an exhausted rate limit with the time until it resets', async () => {
+    const reset = Math.floor(Date.now() / 1000) + 120;
+    fetchMock
+      .mockResolvedValueOnce({ ok: false, status: 403, statusText: 'Forbidden', headers: new Headers({ 'x-ratelimit-remaining': '0', 'x-ratelimit-reset': String(reset) }) })
+      .mockResolvedValueOnce({ ok: false, status: 403, statusText: 'Forbidden', headers: new Headers({ 'x-ratelimit-remaining': '12' }) });
+
+    const error = await source.getRecipeConfig('zlib').catch(caught => caught);
+    expect(error).toBeInstanceOf(RateLimitError);
+    expect(error.details.retryAfter).toBeGreaterThan(100);
+
+    // Other 403s are ordinary failures
+    await expect(source.getRecipeConfig('zlib')).rejects.toThrow('HTTP 403');
+  });
+
+  test('should refuse network requests in offline mode', async () => {
+    config.offline = true;
+
+    await expect(source.getRecipeConfig('zlib')).rejects.toThrow('offline mode');
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  test('should build recipe history from the commits API', async () => {
+    const commitResponse = (commits: Array<[string, string]>, link?: string) => ({
+      ok: true,
+      status: 200,
+      headers: { get: vi.fn().mockReturnValue(link ?? null) },
+      json: vi.fn().mockResolvedValue(commits.map(([sha, date]) => ({ sha, html_url: '', commit: { message: '', author: { name: '', email: '', date }, committer: { name: '', email: '', date } } }))),
+    });
+
+    fetchMock
+      .mockResolvedValueOnce(commitResponse([['c3', '2024-02-01T00:00:00Z']], '<https://api.github.com/repositories/1/commits?path=recipes%2Fzlib&per_page=1&page=2>; rel="next", <https://api.github.com/repositories/1/commits?path=recipes%2Fzlib&per_page=1&page=42>; rel="last"'))
+      .mockResolvedValueOnce(commitResponse([['c1', '2019-05-01T00:00:00Z']]))
+      .mockResolvedValueOnce(commitResponse([['c3', '2024-02-01T00:00:00Z'], ['c2', '2023-06-01T00:00:00Z']]));
+
+    const history = await source.getRecipeHistory('zlib', { versions: { '1.3.1': { folder: 'all' }, '1.2.13': { folder: 'all' } } });
+
+    expect(history).toEqual({
+      created_at: '2019-05-01T00:00:00.000Z',
+      updated_at: '2024-02-01T00:00:00.000Z',
+      revisions: {
+        '1.3.1': [{ id: 'c3', timestamp: '2024-02-01T00:00:00.000Z' }, { id: 'c2', timestamp: '2023-06-01T00:00:00.000Z' }],
+        '1.2.13': [{ id: 'c3', timestamp: '2024-02-01T00:00:00.000Z' }, { id: 'c2', timestamp: '2023-06-01T00:00:00.000Z' }],
+      },
+    });
+    expect(fetchMock.mock.calls[1][0]).toContain('page=42');
+    expect(fetchMock.mock.calls[2][0]).toContain('path=recipes%2Fzlib%2Fall');
+  });
+
+  test('should date the last change from the newest commit', async () => {
+    fetchMock
+      .mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        headers: new Headers(),
+        json: vi.fn().mockResolvedValue([{ sha: 'c3', html_url: '', commit: { message: '', author: { name: '', email: '', date: '2024-02-01T00:00:00Z' }, committer: { name: '', email: '', date: '2024-02-01T00:00:00Z' } } }]),
+      })
+      .mockResolvedValueOnce({ ok: true, status: 200, headers: new Headers(), json: vi.fn().mockResolvedValue([]) });
+
+    expect(await source.getUpdatedAt('zlib')).toBe('2024-02-01T00:00:00.000Z');
+    expect(await source.getUpdatedAt('missing')).toBeNull();
+    expect(fetchMock.mock.calls[0][0]).toContain('path=recipes%2Fzlib&per_page=1');
+  });
+});
@@ -0,0 +1,112 @@
+import { expect, test, describe, beforeAll, afterAll } from "vitest";
+import { execFileSync } from 'node:child_process';
+import { mkdtemp, mkdir, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { LocalRecipeSource } from '../../src/services/local-recipe-source.js';
+
+describe('local-recipe-source service', () => {
+  let rootPath: string;
+  let source: LocalRecipeSource;
+
+  beforeAll(async () => {
+    rootPath = await mkdtemp(join(tmpdir(), 'conan-center-index-'));
+    await mkdir(join(rootPath, 'recipes', 'zlib', 'all', 'test_package'), { recursive: true });
+    await mkdir(join(rootPath, 'recipes', 'boost', 'all'), { recursive: true });
+    await writeFile(join(rootPath, 'recipes', 'zlib', 'config.yml'), 'versions:\n  "1.3.1":\n    folder: all\n');
+    await writeFile(join(rootPath, 'recipes', 'zlib', 'all', 'conandata.yml'), 'sources: {}\n');
+    await writeFile(join(rootPath, 'recipes', 'zlib', 'all', 'test_package', 'test_package.c'), 'int main(void) { return 0; }');
+    await writeFile(join(rootPath, 'recipes', 'README.md'), '# recipes');
+    await writeFile(join(rootPath, 'secret.txt'), 'outside');
+    source = new LocalRecipeSource(rootPath);
+  });
+
+  afterAll(async () => {
+    await rm(rootPath, { recursive: true, force: true });
+  });
+
+  test('should list recipe directories', async () => {
+    expect(await source.listRecipes()).toEqual([{ name: 'boost', remote: 'local' }, { name: 'zlib', remote: 'local' }]);
+  });
+
+  test('should parse config.yml', async () => {
+    expect(await source.getRecipeConfig('zlib')).toEqual({ versions: { '1.3.1': { folder: 'all' } }, remote: 'local' });
+    expect(await source.getRecipeConfig('boost')).toBeNull();
+  });
+
+  test('should read files relative to the recipe folder', async () => {
+    expect(await source.readRecipeFile('zlib', 'all', 'conandata.yml')).toBe('sources: {}\n');
+    expect(await source.listRecipeFiles('zlib', 'all', 'test_package')).toEqual(['test_package.c']);
+  });
+
+  test('should return null for missing files', async () => {
+    expect(await source.readRecipeFile('zlib', 'all', 'conanfile.py')).toBeNull();
+    expect(await source.readRecipeFile('missing', 'all', 'conanfile.py')).toBeNull();
+  });
+
+  test('should not read outside the recipes directory', async () => {
+    expect(await source.readRecipeFile('..', '.', 'secret.txt')).toBeNull();
+  });
+
+  describe('getRecipeHistory', () => {
+    let gitRoot: string;
+
+    const commit = (message: string, date: string) => execFileSync('git', ['-C', gitRoot, 'commit', '-q', '-m', message], {
+      env: { ...process.env, GIT_AUTHOR_DATE: date, GIT_COMMITTER_DATE: date },
+    });
+
+    beforeAll(async () => {
+      gitRoot = await mkdtemp(join(tmpdir(), 'conan-center-index-git-'));
+      execFileSync('git', ['-C', gitRoot, 'init', '-q']);
+      execFileSync('git', ['-C', gitRoot, 'config', 'user.email', 'ci@example.com']);
+      execFileSync('git', ['-C', gitRoot, 'config', 'user.name', 'CI']);
+
+      await mkdir(join(gitRoot, 'recipes', 'zlib', 'all'), { recursive: true });
+      await mkdir(join(gitRoot, 'recipes', 'zlib', 'legacy'), { recursive: true });
+      await writeFile(join(gitRoot, 'recipes', 'zlib', 'legacy', 'conanfile.py'), 'legacy');
+      await writeFile(join(gitRoot, 'recipes', 'zlib', 'config.yml'), 'versions:\n  "1.0":\n    folder: legacy\n');
+      execFileSync('git', ['-C', gitRoot, 'add', '-A']);
+      commit('zlib: add recipe', '2020-01-01T00:00:00Z');
+
+      await writeFile(join(gitRoot, 'recipes', 'zlib', 'all', 'conanfile.py'), 'all');
+      execFileSync('git', ['-C', gitRoot, 'add', '-A']);
+      commit('zlib: add all folder', '2023-06-01T12:00:00+02:00');
+
+      await writeFile(join(gitRoot, 'recipes', 'zlib', 'config.yml'), 'versions:\n  "1.3.1":\n    folder: all\n  "1.0":\n    folder: legacy\n');
+      execFileSync('git', ['-C', gitRoot, 'add', '-A']);
+      commit('zlib: add 1.3.1', '2024-02-01T00:00:00Z');
+    });
+
+    afterAll(async () => {
+      await rm(gitRoot, { recursive: true, force: true });
+    });
+
+    test('should derive revisions and package dates from git history', async () => {
+      const gitSource = new LocalRecipeSource(gitRoot);
+      const recipeConfig = await gitSource.getRecipeConfig('zlib');
+
+      const history = recipeConfig && await gitSource.getRecipeHistory('zlib', recipeConfig);
+
+      expect(history?.created_at).toBe('2020-01-01T00:00:00.000Z');
+      expect(history?.updated_at).toBe('2024-02-01T00:00:00.000Z');
+      expect(history?.revisions['1.3.1'].map(revision => revision.timestamp)).toEqual(['2023-06-01T10:00:00.000Z']);
+      expect(history?.revisions['1.0'].map(revision => revision.timestamp)).toEqual(['2020-01-01T00:00:00.000Z']);
+      expect(history?.revisions['1.0'][0].id).toMatch(/^[0-9a-f]{40}$/);
+    });
+
+    test('should report committed tree SHAs of recipes', async () => {
+      const expected = execFileSync('git', ['-C', gitRoot, 'rev-parse', 'HEAD:recipes/zlib']).toString().trim();
+
+      expect(await new LocalRecipeSource(gitRoot).listRecipes()).toEqual([{ name: 'zlib', remote: 'local', sha: expected }]);
+    });
+
+    test('should date the last change from git', async () => {
+      expect(await new LocalRecipeSource(gitRoot).getUpdatedAt('zlib')).toBe('2024-02-01T00:00:00.000Z');
+    });
+
+    test('should return null outside a git clone', async () => {
+      expect(await source.getUpdatedAt('zlib')).toBeNull();
+      expect(await source.getRecipeHistory('zlib', { versions: { '1.3.1': { folder: 'all' } } })).toBeNull();
+    });
+  });
+});
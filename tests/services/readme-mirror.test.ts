@@ -0,0 +1,49 @@
+import { expect, test, describe, beforeAll, afterAll } from "vitest";
+import { mkdtemp, mkdir, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { ReadmeMirror } from '../../src/services/readme-mirror.js';
+
+describe('readme-mirror service', () => {
+  let rootPath: string;
+  let mirror: ReadmeMirror;
+
+  beforeAll(async () => {
+    rootPath = await mkdtemp(join(tmpdir(), 'readme-mirror-'));
+    await mkdir(join(rootPath, 'fmt', '8.1.1'), { recursive: true });
+    await writeFile(join(rootPath, 'fmt', 'README.md'), '# fmt main');
+    await writeFile(join(rootPath, 'fmt', '8.1.1', 'README.rst'), 'fmt 8.1.1');
+    mirror = new ReadmeMirror(rootPath);
+  });
+
+  afterAll(async () => {
+    await rm(rootPath, { recursive: true, force: true });
+  });
+
+  test('should prefer the README mirrored for the exact version', async () => {
+    expect(await mirror.getReadme('fmt', '8.1.1')).toEqual({
+      content: 'fmt 8.1.1',
+      ref: '8.1.1',
+      fell_back_to_default_branch: false,
+      source: 'mirror',
+    });
+  });
+
+  test('should fall back to the package README', async () => {
+    expect(await mirror.getReadme('fmt', '10.2.1')).toEqual({
+      content: '# fmt main',
+      ref: 'HEAD',
+      fell_back_to_default_branch: true,
+      source: 'mirror',
+    });
+  });
+
+  test('should return null for packages that are not mirrored', async () => {
+    expect(await mirror.getReadme('zlib', '1.3.1')).toBeNull();
+    expect(await mirror.getReadme('..', '1.0')).toBeNull();
+  });
+
+  test('should return null when no mirror is configured', async () => {
+    expect(await new ReadmeMirror().getReadme('fmt', '8.1.1')).toBeNull();
+  });
+});
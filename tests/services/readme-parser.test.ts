@@ -323,4 +323,29 @@ This is the actual description of the package.
       expect(description).toBe('Conan package');
     });
   });
-});
\ No newline at end of file
+
+  describe('parseTestPackageExamples', () => {
+    test('should turn test_package files into verified examples', () => {
+      const examples = readmeParser.parseTestPackageExamples([
+        { path: 'test_package/test_package.cpp', content: '#include <fmt/core.h>\nint main() { fmt::print("hi"); }\n' },
+        { path: 'test_package/conanfile.py', content: 'from conan import ConanFile\n' },
+        { path: 'test_package/CMakeLists.txt', content: 'find_package(fmt REQUIRED CONFIG)\n' },
+      ]);
+
+      expect(examples.map(example => example.language)).toEqual(['cmake', 'python', 'cpp']);
+      expect(examples.every(example => example.verified_by_ci)).toBe(true);
+      expect(examples[0].title).toBe('Conan Center test_package: CMakeLists.txt');
+      expect(examples[2].code).toBe('#include <fmt/core.h>\nint main() { fmt::print("hi"); }');
+    });
+
+    test('should detect C sources and skip empty files', () => {
+      const examples = readmeParser.parseTestPackageExamples([
+        { path: 'test_package/test_package.c', content: '#include <zlib.h>' },
+        { path: 'test_package/empty.cpp', content: '   ' },
+      ]);
+
+      expect(examples).toHaveLength(1);
+      expect(examples[0].language).toBe('c');
+    });
+  });
+});
@@ -0,0 +1,317 @@
+import { expect, test, describe, vi, beforeEach, afterEach } from "vitest";
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { RecipeCatalogue } from '../../src/services/recipe-catalogue.js';
+import { CatalogueStore } from '../../src/services/catalogue-store.js';
+import { RateLimitError } from '../../src/types/index.js';
+import type { RecipeListing, RecipeSource } from '../../src/types/index.js';
+
+describe('recipe-catalogue service', () => {
+  const listing = (...names: string[]): RecipeListing[] => names.map(name => ({ name, remote: 'conancenter', sha: `${name}-1` }));
+
+  let source: RecipeSource;
+  let catalogue: RecipeCatalogue;
+
+  beforeEach(() => {
+    source = {
+      name: 'conancenter',
+      listRecipes: vi.fn(async () => listing('boost', 'zlib')),
+      getRecipeConfig: vi.fn(async () => null),
+      readRecipeFile: vi.fn(async () => null),
+      listRecipeFiles: vi.fn(async () => []),
+      getRecipeHistory: vi.fn(async () => null),
+      getUpdatedAt: vi.fn(async () => '2024-05-01T00:00:00.000Z'),
+    };
+    catalogue = new RecipeCatalogue(source, null, Infinity);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  test('should list the source once while the catalogue is fresh', async () => {
+    const [first, second] = await Promise.all([catalogue.getRecipes(), catalogue.getRecipes()]);
+    const third = await catalogue.getRecipes();
+
+    expect(first.map(recipe => recipe.name)).toEqual(['boost', 'zlib']);
+    expect(second).toBe(first);
+    expect(third).toBe(first);
+    expect(source.listRecipes).toHaveBeenCalledTimes(1);
+  });
+
+  test('should list the source again once stale or on request', async () => {
+    vi.useFakeTimers();
+    await catalogue.getRecipes();
+
+    (source.listRecipes as any).mockResolvedValueOnce(listing('boost', 'openssl', 'zlib'));
+    vi.advanceTimersByTime(16 * 60 * 1000);
+    expect((await catalogue.getRecipes()).map(recipe => recipe.name)).toEqual(['boost', 'openssl', 'zlib']);
+
+    await catalogue.getRecipes(true);
+    expect(source.listRecipes).toHaveBeenCalledTimes(3);
+  });
+
+  test('should keep the previous listing when a refresh fails', async () => {
+    const snapshot = await catalogue.getSnapshot();
+    (source.listRecipes as any).mockRejectedValueOnce(new Error('HTTP 503: Service Unavailable'));
+
+    expect(await catalogue.getSnapshot(true)).toBe(snapshot);
+    expect(snapshot.source).toBe('conancenter');
+  });
+
+  test('should fail when the source cannot be listed at all', async () => {
+    (source.listRecipes as any).mockRejectedValueOnce(new Error('HTTP 503: Service Unavailable'));
+
+    await expect(catalogue.getRecipes()).rejects.toThrow('HTTP 503');
+  });
+
+  describe('getIndex', () => {
+    beforeEach(() => {
+      (source.getRecipeConfig as any).mockImplementation(async (name: string) => name === 'zlib'
+        ? { versions: { '1.2.13': { folder: 'all' }, '1.3.1': { folder: 'all' } }, remote: 'conancenter' }
+        : null);
+      (source.readRecipeFile as any).mockResolvedValue([
+        'class Zlib(ConanFile):',
+        '    description = "Compression"',
+        '    license = "Zlib"',
+        '    topics = ("zip",)',
+        '    package_type = "library"',
+        '    deprecated = "zlib-ng"',
+        '    requires = "libdeflate/1.19"',
+      ].join('\n'));
+    });
+
+    test('should answer with the listed recipes at once and read their metadata in the background', async () => {
+      const listed = await catalogue.getIndex();
+
+      expect(listed.recipe_count).toBe(2);
+      expect(listed.entries.map(entry => entry.latest_version)).toEqual([undefined, undefined]);
+
+      await catalogue.waitForIndexing();
+      const index = await catalogue.getIndex();
+
+      expect(index.entries[1]).toMatchObject({
+        name: 'zlib',
+        sha: 'zlib-1',
+        latest_version: '1.3.1',
+        versions: ['1.2.13', '1.3.1'],
+        description: 'Compression',
+        license: 'Zlib',
+        topics: ['zip'],
+        requirements: [{ reference: 'libdeflate/1.19', kind: 'requires', enabled: true, version: '1.3.1', folder: 'all' }],
+        package_type: 'library',
+        deprecated: true,
+        replaced_by: 'zlib-ng',
+        updated_at: '2024-05-01T00:00:00.000Z',
+      });
+      expect(index.entries[0]).toMatchObject({ name: 'boost', versions: [], topics: [] });
+      expect(index.entries[0].latest_version).toBeUndefined();
+      expect(source.readRecipeFile).toHaveBeenCalledWith('zlib', 'all', 'conanfile.py');
+    });
+
+    test('should only read recipes whose tree SHA changed', async () => {
+      await catalogue.getIndex();
+      await catalogue.waitForIndexing();
+      (source.getRecipeConfig as any).mockClear();
+
+      (source.listRecipes as any).mockResolvedValueOnce([
+        { name: 'boost', remote: 'conancenter', sha: 'boost-1' },
+        { name: 'zlib', remote: 'conancenter', sha: 'zlib-2' },
+      ]);
+      await catalogue.getIndex(true);
+      await catalogue.waitForIndexing();
+      const index = await catalogue.getIndex();
+
+      // boost was just found unreadable, so only the changed zlib is read again
+      expect(source.getRecipeConfig).toHaveBeenCalledTimes(1);
+      expect(source.getRecipeConfig).toHaveBeenCalledWith('zlib');
+      expect(index.entries[1].sha).toBe('zlib-2');
+    });
+
+    test('should retry unreadable recipes only after a while', async () => {
+      vi.useFakeTimers();
+      await catalogue.getIndex();
+      await catalogue.waitForIndexing();
+      (source.getRecipeConfig as any).mockClear();
+
+      await catalogue.getIndex(true);
+      await catalogue.waitForIndexing();
+      expect(source.getRecipeConfig).not.toHaveBeenCalled();
+
+      vi.advanceTimersByTime(7 * 3600 * 1000);
+      await catalogue.getIndex();
+      await catalogue.waitForIndexing();
+      expect(source.getRecipeConfig).toHaveBeenCalledTimes(1);
+      expect(source.getRecipeConfig).toHaveBeenCalledWith('boost');
+    });
+
+    test('should not read again while the listing is unchanged', async () => {
+      await catalogue.getIndex();
+      await catalogue.waitForIndexing();
+      const first = await catalogue.getIndex();
+      await catalogue.waitForIndexing();
+
+      expect(await catalogue.getIndex()).toBe(first);
+      expect(source.getRecipeConfig).toHaveBeenCalledTimes(2);
+    });
+
+    test('should re-read recipes without a tree SHA once a day', async () => {
+      vi.useFakeTimers();
+      (source.listRecipes as any).mockImplementation(async () => [{ name: 'zlib', remote: 'local' }]);
+      await catalogue.getIndex();
+      await catalogue.waitForIndexing();
+
+      await catalogue.getIndex(true);
+      await catalogue.waitForIndexing();
+      expect(source.getRecipeConfig).toHaveBeenCalledTimes(1);
+
+      vi.advanceTimersByTime(25 * 3600 * 1000);
+      await catalogue.getIndex();
+      await catalogue.waitForIndexing();
+      expect(source.getRecipeConfig).toHaveBeenCalledTimes(2);
+    });
+
+    test('should stay within the hourly request budget', async () => {
+      vi.useFakeTimers();
+      (source.listRecipes as any).mockImplementation(async () => listing('boost', 'openssl', 'zlib'));
+      (source.getRecipeConfig as any).mockResolvedValue(null);
+      catalogue = new RecipeCatalogue(source, null, 2);
+
+      await catalogue.getIndex();
+      await catalogue.waitForIndexing();
+      expect(source.getRecipeConfig).toHaveBeenCalledTimes(2);
+
+      await catalogue.getIndex();
+      await catalogue.waitForIndexing();
+      expect(source.getRecipeConfig).toHaveBeenCalledTimes(2);
+
+      vi.advanceTimersByTime(61 * 60 * 1000);
+      const index = await catalogue.getIndex();
+      await catalogue.waitForIndexing();
+      expect(source.getRecipeConfig).toHaveBeenCalledTimes(3);
+      expect(index.entries.map(entry => entry.name)).toEqual(['boost', 'openssl', 'zlib']);
+    });
+
+    test('should never issue more requests than the budget allows', async () => {
+      (source.listRecipes as any).mockImplementation(async () => listing('boost', 'openssl', 'zlib'));
+      (source.getRecipeConfig as any).mockResolvedValue({
+        versions: { '1.0': { folder: 'all' }, '0.9': { folder: 'legacy' } },
+        remote: 'conancenter',
+      });
+      catalogue = new RecipeCatalogue(source, null, 6);
+
+      await catalogue.getIndex();
+      await catalogue.waitForIndexing();
+      const index = await catalogue.getIndex();
+
+      const requests = [source.getRecipeConfig, source.readRecipeFile, source.getUpdatedAt]
+        .reduce((count, fn) => count + (fn as any).mock.calls.length, 0);
+      expect(requests).toBe(6);
+      expect(index.entries.map(entry => entry.latest_version)).toEqual(['1.0', undefined, undefined]);
+      expect(index.entries[1].indexed_at).toBeUndefined();
+    });
+
+    test('should pause when rate limited and keep the recipe unread', async () => {
+      vi.useFakeTimers();
+      (source.getRecipeConfig as any).mockImplementation(async (name: string) => {
+        if (name === 'zlib') {
+          throw new RateLimitError('GitHub API', 60);
+        }
+        return null;
+      });
+
+      await catalogue.getIndex();
+      await catalogue.waitForIndexing();
+      await catalogue.getIndex();
+      await catalogue.waitForIndexing();
+      expect(source.getRecipeConfig).toHaveBeenCalledTimes(2);
+
+      (source.getRecipeConfig as any).mockResolvedValue(null);
+      vi.advanceTimersByTime(61 * 1000);
+      await catalogue.getIndex();
+      await catalogue.waitForIndexing();
+
+      expect(source.getRecipeConfig).toHaveBeenCalledTimes(3);
+      expect(source.getRecipeConfig).toHaveBeenLastCalledWith('zlib');
+    });
+
+    describe('with a store', () => {
+      let directory: string;
+      let store: CatalogueStore;
+
+      beforeEach(async () => {
+        directory = await mkdtemp(join(tmpdir(), 'conan-catalogue-'));
+        store = new CatalogueStore(directory);
+      });
+
+      afterEach(async () => {
+        await rm(directory, { recursive: true, force: true });
+      });
+
+      test('should persist the index and only re-read changed recipes after a restart', async () => {
+        await new RecipeCatalogue(source, store, Infinity).rebuild();
+        (source.getRecipeConfig as any).mockClear();
+
+        (source.listRecipes as any).mockResolvedValue([
+          { name: 'boost', remote: 'conancenter', sha: 'boost-1' },
+          { name: 'zlib', remote: 'conancenter', sha: 'zlib-1' },
+          { name: 'zstd', remote: 'conancenter', sha: 'zstd-1' },
+        ]);
+        const restarted = new RecipeCatalogue(source, store, Infinity);
+        const listed = await restarted.getIndex();
+        await restarted.waitForIndexing();
+
+        // Known metadata is served at once; zlib is unchanged, boost was recently unreadable and zstd is new
+        expect(listed.entries.map(entry => entry.latest_version)).toEqual([undefined, '1.3.1', undefined]);
+        expect((source.getRecipeConfig as any).mock.calls.map(([name]: [string]) => name)).toEqual(['zstd']);
+        expect((await store.load('conancenter'))?.recipe_count).toBe(3);
+      });
+
+      test('should answer from the persisted index while the source is unreachable', async () => {
+        const built = await new RecipeCatalogue(source, store, Infinity).rebuild();
+        (source.listRecipes as any).mockRejectedValue(new Error('HTTP 503: Service Unavailable'));
+
+        const index = await new RecipeCatalogue(source, store, Infinity).getIndex();
+
+        expect(index.built_at).toBe(built.built_at);
+        expect(index.entries.map(entry => entry.name)).toEqual(['boost', 'zlib']);
+      });
+
+      test('should read every stale recipe on a rebuild, whatever the budget', async () => {
+        const index = await new RecipeCatalogue(source, store, 0).rebuild();
+        expect(index.entries[1].latest_version).toBe('1.3.1');
+        (source.getRecipeConfig as any).mockClear();
+
+        await new RecipeCatalogue(source, store, 0).rebuild();
+        expect(source.getRecipeConfig).not.toHaveBeenCalled();
+
+        await new RecipeCatalogue(source, store, 0).rebuild(true);
+        expect(source.getRecipeConfig).toHaveBeenCalledTimes(2);
+      });
+
+      test('should keep the known entries when a full rebuild is rate limited', async () => {
+        const built = await new RecipeCatalogue(source, store, 0).rebuild();
+        (source.getRecipeConfig as any).mockImplementation(async (name: string) => {
+          if (name === 'zlib') {
+            throw new RateLimitError('GitHub API', 60);
+          }
+          return null;
+        });
+
+        const index = await new RecipeCatalogue(source, store, 0).rebuild(true);
+
+        expect(source.getRecipeConfig).toHaveBeenLastCalledWith('zlib');
+        expect(index.entries[1]).toEqual(built.entries[1]);
+        expect((await store.load('conancenter'))?.entries[1]).toEqual(built.entries[1]);
+      });
+
+      test('should not read anything in the background without a budget', async () => {
+        await new RecipeCatalogue(source, store, 0).getIndex();
+
+        expect(source.getRecipeConfig).not.toHaveBeenCalled();
+        expect(await store.load('conancenter')).toBeNull();
+      });
+    });
+  });
+});
@@ -0,0 +1,77 @@
+import { expect, test, describe, vi } from "vitest";
+import { CompositeRecipeSource, createRecipeSource } from '../../src/services/recipe-source.js';
+import { GitHubRecipeSource } from '../../src/services/github-recipe-source.js';
+import { LocalRecipeSource } from '../../src/services/local-recipe-source.js';
+import type { RecipeSource } from '../../src/types/index.js';
+
+function createSource(name: string, recipes: Record<string, string[]>): RecipeSource {
+  return {
+    name,
+    listRecipes: vi.fn(async () => Object.keys(recipes).sort().map(recipe => ({ name: recipe, remote: name }))),
+    getRecipeConfig: vi.fn(async (recipe: string) => recipes[recipe]
+      ? { versions: Object.fromEntries(recipes[recipe].map(version => [version, { folder: 'all' }])), remote: name }
+      : null),
+    readRecipeFile: vi.fn(async (recipe: string) => `${name}:${recipe}`),
+    listRecipeFiles: vi.fn(async () => [name]),
+    getRecipeHistory: vi.fn(async () => null),
+    getUpdatedAt: vi.fn(async () => null),
+  };
+}
+
+describe('recipe-source service', () => {
+  describe('CompositeRecipeSource', () => {
+    test('should merge recipe listings and attribute shared recipes to the first remote', async () => {
+      const composite = new CompositeRecipeSource([
+        createSource('internal', { mylib: ['1.0'], zlib: ['1.3.1'] }),
+        createSource('conancenter', { boost: ['1.84.0'], zlib: ['1.3.1', '1.2.13'] }),
+      ]);
+
+      expect(composite.name).toBe('internal+conancenter');
+      expect(await composite.listRecipes()).toEqual([
+        { name: 'boost', remote: 'conancenter' },
+        { name: 'mylib', remote: 'internal' },
+        { name: 'zlib', remote: 'internal' },
+      ]);
+    });
+
+    test('should resolve packages from the first source that has them', async () => {
+      const internal = createSource('internal', { zlib: ['1.3.1'] });
+      const conancenter = createSource('conancenter', { zlib: ['1.3.1', '1.2.13'], boost: ['1.84.0'] });
+      const composite = new CompositeRecipeSource([internal, conancenter]);
+
+      expect(await composite.getRecipeConfig('zlib')).toEqual({ versions: { '1.3.1': { folder: 'all' } }, remote: 'internal' });
+      expect((await composite.getRecipeConfig('boost'))?.remote).toBe('conancenter');
+      expect(await composite.readRecipeFile('zlib', 'all', 'conanfile.py')).toBe('internal:zlib');
+      expect(await composite.readRecipeFile('boost', 'all', 'conanfile.py')).toBe('conancenter:boost');
+      expect(await composite.getRecipeConfig('missing')).toBeNull();
+    });
+
+    test('should skip failing sources but surface the error when nothing matched', async () => {
+      const broken = createSource('broken', {});
+      (broken.getRecipeConfig as any).mockRejectedValue(new Error('HTTP 503'));
+      (broken.listRecipes as any).mockRejectedValue(new Error('HTTP 503'));
+      const composite = new CompositeRecipeSource([broken, createSource('conancenter', { zlib: ['1.3.1'] })]);
+
+      expect(await composite.getRecipeConfig('zlib')).not.toBeNull();
+      expect(await composite.listRecipes()).toEqual([{ name: 'zlib', remote: 'conancenter' }]);
+      await expect(composite.getRecipeConfig('missing')).rejects.toThrow('HTTP 503');
+    });
+  });
+
+  describe('createRecipeSource', () => {
+    test('should use a single source directly', () => {
+      expect(createRecipeSource([{ name: 'conancenter', kind: 'github' }])).toBeInstanceOf(GitHubRecipeSource);
+      expect(createRecipeSource([{ name: 'local', kind: 'local', location: '/srv/cci' }])).toBeInstanceOf(LocalRecipeSource);
+    });
+
+    test('should compose several sources in priority order', () => {
+      const source = createRecipeSource([
+        { name: 'internal', kind: 'remote', location: 'https://conan.example.com' },
+        { name: 'conancenter', kind: 'github' },
+      ]);
+
+      expect(source).toBeInstanceOf(CompositeRecipeSource);
+      expect(source.name).toBe('internal+conancenter');
+    });
+  });
+});
@@ -0,0 +1,112 @@
+import { expect, test, describe, beforeEach } from "vitest";
+import { RecipeYamlParser } from '../../src/services/recipe-yaml-parser.js';
+
+const ZLIB_CONANDATA = `sources:
+  "1.3.1":
+    url:
+      - "https://zlib.net/fossils/zlib-1.3.1.tar.gz"
+      - "https://github.com/madler/zlib/releases/download/v1.3.1/zlib-1.3.1.tar.gz"
+    sha256: "9a93b2b7dfdac77ceba5a558a580e74667dd6fede4585b91eefb60f03b72df23"
+  "1.2.13":
+    url: "https://zlib.net/fossils/zlib-1.2.13.tar.gz"
+    sha256: "b3a24de97a8fdbc835b9833169501030b8977031bcb54b3b3ac13740f846ab30"
+    strip_root: true
+patches:
+  "1.3.1":
+    - patch_file: "patches/1.3.1/0001-fix-cmake.patch"
+      patch_description: "separate static/shared builds, disable debug suffix"
+      patch_type: "conan"
+    - patch_file: "patches/1.3.1/0002-gzguts-xcode12-compile-fix.patch"
+      patch_description: "fix Xcode 12 compile"
+      patch_type: "portability"
+      patch_source: "https://github.com/madler/zlib/pull/532"
+`;
+
+const PLATFORM_CONANDATA = `sources:
+  "3.27.0":
+    Windows:
+      x86_64:
+        url: "https://example.com/cmake-3.27.0-windows-x86_64.zip"
+        sha256: "aaa"
+    Linux:
+      x86_64:
+        url: "https://example.com/cmake-3.27.0-linux-x86_64.tar.gz"
+        sha256: "bbb"
+`;
+
+describe('recipe-yaml-parser service', () => {
+  let parser: RecipeYamlParser;
+
+  beforeEach(() => {
+    parser = new RecipeYamlParser();
+  });
+
+  test('should create instance properly', () => {
+    expect(parser).toBeInstanceOf(RecipeYamlParser);
+  });
+
+  describe('parseConfig', () => {
+    test('should map versions to folders', () => {
+      const result = parser.parseConfig('versions:\n  "1.0":\n    folder: all\n  0.9:\n    folder: legacy\n');
+
+      expect(result.versions).toEqual({
+        '1.0': { folder: 'all' },
+        '0.9': { folder: 'legacy' },
+      });
+    });
+
+    test('should return no versions for malformed config', () => {
+      expect(parser.parseConfig('just a string').versions).toEqual({});
+    });
+  });
+
+  describe('parseConanData', () => {
+    test('should parse sources with url lists and checksums', () => {
+      const result = parser.parseConanData(ZLIB_CONANDATA, '1.3.1');
+
+      expect(result.version).toBe('1.3.1');
+      expect(result.sources).toEqual([{
+        url: [
+          'https://zlib.net/fossils/zlib-1.3.1.tar.gz',
+          'https://github.com/madler/zlib/releases/download/v1.3.1/zlib-1.3.1.tar.gz',
+        ],
+        sha256: '9a93b2b7dfdac77ceba5a558a580e74667dd6fede4585b91eefb60f03b72df23',
+      }]);
+    });
+
+    test('should parse single url sources and strip_root', () => {
+      const result = parser.parseConanData(ZLIB_CONANDATA, '1.2.13');
+
+      expect(result.sources[0].url).toEqual(['https://zlib.net/fossils/zlib-1.2.13.tar.gz']);
+      expect(result.sources[0].strip_root).toBe(true);
+      expect(result.patches).toEqual([]);
+    });
+
+    test('should parse patches with descriptions and types', () => {
+      const result = parser.parseConanData(ZLIB_CONANDATA, '1.3.1');
+
+      expect(result.patches).toHaveLength(2);
+      expect(result.patches[1]).toEqual({
+        patch_file: 'patches/1.3.1/0002-gzguts-xcode12-compile-fix.patch',
+        patch_description: 'fix Xcode 12 compile',
+        patch_type: 'portability',
+        patch_source: 'https://github.com/madler/zlib/pull/532',
+      });
+    });
+
+    test('should flatten per-platform sources', () => {
+      const result = parser.parseConanData(PLATFORM_CONANDATA, '3.27.0');
+
+      expect(result.sources).toEqual([
+        { url: ['https://example.com/cmake-3.27.0-windows-x86_64.zip'], sha256: 'aaa', target: 'Windows/x86_64' },
+        { url: ['https://example.com/cmake-3.27.0-linux-x86_64.tar.gz'], sha256: 'bbb', target: 'Linux/x86_64' },
+      ]);
+    });
+
+    test('should return empty data for unknown versions', () => {
+      const result = parser.parseConanData(ZLIB_CONANDATA, '9.9.9');
+
+      expect(result).toEqual({ version: '9.9.9', sources: [], patches: [] });
+    });
+  });
+});
@@ -0,0 +1,119 @@
+import { expect, test, describe, beforeEach } from "vitest";
+import { RepositoryResolver, parseGitHubRepository, extractTagFromUrl } from '../../src/services/repository-resolver.js';
+
+describe('repository-resolver service', () => {
+  let resolver: RepositoryResolver;
+
+  beforeEach(() => {
+    resolver = new RepositoryResolver();
+  });
+
+  test('should create instance properly', () => {
+    expect(resolver).toBeInstanceOf(RepositoryResolver);
+  });
+
+  describe('parseGitHubRepository', () => {
+    test('should parse repository, archive and release URLs', () => {
+      expect(parseGitHubRepository('https://github.com/fmtlib/fmt')).toEqual({ owner: 'fmtlib', repo: 'fmt' });
+      expect(parseGitHubRepository('https://github.com/madler/zlib.git')).toEqual({ owner: 'madler', repo: 'zlib' });
+      expect(parseGitHubRepository('https://github.com/nlohmann/json/archive/refs/tags/v3.11.3.tar.gz'))
+        .toEqual({ owner: 'nlohmann', repo: 'json' });
+      expect(parseGitHubRepository('https://codeload.github.com/gabime/spdlog/tar.gz/v1.12.0'))
+        .toEqual({ owner: 'gabime', repo: 'spdlog' });
+    });
+
+    test('should reject non-GitHub and malformed URLs', () => {
+      expect(parseGitHubRepository('https://www.boost.org/')).toBeNull();
+      expect(parseGitHubRepository('https://github.com/onlyowner')).toBeNull();
+      expect(parseGitHubRepository('not a url')).toBeNull();
+    });
+  });
+
+  describe('resolve', () => {
+    test('should prefer a GitHub homepage', () => {
+      const result = resolver.resolve({
+        homepage: 'https://github.com/fmtlib/fmt',
+        sources: [{ url: ['https://github.com/other/fork/archive/1.0.tar.gz'] }],
+      });
+
+      expect(result).toEqual({ type: 'git', url: 'https://github.com/fmtlib/fmt', source: 'homepage' });
+    });
+
+    test('should use the recipe url when it is not conan-center-index', () => {
+      const result = resolver.resolve({
+        homepage: 'https://example.org',
+        recipeUrl: 'https://github.com/example/lib',
+      });
+
+      expect(result).toEqual({ type: 'git', url: 'https://github.com/example/lib', source: 'recipe_url' });
+    });
+
+    test('should fall back to conandata source URLs', () => {
+      const result = resolver.resolve({
+        homepage: 'https://www.boost.org/',
+        recipeUrl: 'https://github.com/conan-io/conan-center-index',
+        sources: [{
+          url: [
+            'https://archives.boost.io/release/1.84.0/source/boost_1_84_0.tar.bz2',
+            'https://github.com/boostorg/boost/releases/download/boost-1.84.0/boost-1.84.0.tar.xz',
+          ],
+        }],
+      });
+
+      expect(result).toEqual({ type: 'git', url: 'https://github.com/boostorg/boost', source: 'conandata' });
+    });
+
+    test('should return undefined when no GitHub repository can be found', () => {
+      const result = resolver.resolve({
+        homepage: 'https://zlib.net',
+        recipeUrl: 'https://github.com/conan-io/conan-center-index',
+        sources: [{ url: ['https://zlib.net/fossils/zlib-1.3.1.tar.gz'] }],
+      });
+
+      expect(result).toBeUndefined();
+    });
+  });
+
+  describe('extractTagFromUrl', () => {
+    test('should extract tags from archive and release URLs', () => {
+      expect(extractTagFromUrl('https://github.com/nlohmann/json/archive/refs/tags/v3.11.3.tar.gz')).toBe('v3.11.3');
+      expect(extractTagFromUrl('https://github.com/fmtlib/fmt/archive/8.1.1.tar.gz')).toBe('8.1.1');
+      expect(extractTagFromUrl('https://github.com/madler/zlib/releases/download/v1.3.1/zlib-1.3.1.tar.gz')).toBe('v1.3.1');
+      expect(extractTagFromUrl('https://codeload.github.com/gabime/spdlog/tar.gz/refs/tags/v1.12.0')).toBe('v1.12.0');
+    });
+
+    test('should ignore commit archives and non-GitHub URLs', () => {
+      expect(extractTagFromUrl('https://github.com/o/r/archive/0123456789abcdef0123456789abcdef01234567.tar.gz')).toBeUndefined();
+      expect(extractTagFromUrl('https://zlib.net/fossils/zlib-1.3.1.tar.gz')).toBeUndefined();
+    });
+  });
+
+  describe('getTagCandidates', () => {
+    const repository = { type: 'git', url: 'https://github.com/madler/zlib', source: 'conandata' as const };
+
+    test('should put the conandata tag first', () => {
+      const candidates = resolver.getTagCandidates(repository, 'zlib', '1.3.1', [{
+        url: [
+          'https://zlib.net/fossils/zlib-1.3.1.tar.gz',
+          'https://github.com/madler/zlib/releases/download/v1.3.1/zlib-1.3.1.tar.gz',
+        ],
+      }]);
+
+      expect(candidates[0]).toBe('v1.3.1');
+    });
+
+    test('should include common tag naming patterns without duplicates', () => {
+      const candidates = resolver.getTagCandidates(repository, 'zlib', '1.3.1');
+
+      expect(candidates).toEqual(['v1.3.1', '1.3.1', 'release-1.3.1', 'zlib-1.3.1', 'zlib_1_3_1']);
+    });
+
+    test('should ignore tags from other repositories', () => {
+      const candidates = resolver.getTagCandidates(repository, 'zlib', '1.3.1', [{
+        url: ['https://github.com/some/fork/archive/refs/tags/fork-1.3.1.tar.gz'],
+      }]);
+
+      expect(candidates).not.toContain('fork-1.3.1');
+    });
+  });
+});
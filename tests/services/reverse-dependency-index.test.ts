@@ -0,0 +1,120 @@
+import { expect, test, describe, vi, beforeEach, afterEach } from "vitest";
+import { ReverseDependencyIndexer } from '../../src/services/reverse-dependency-index.js';
+import { RecipeCatalogue } from '../../src/services/recipe-catalogue.js';
+import { recipeYamlParser } from '../../src/services/recipe-yaml-parser.js';
+import type { RecipeSource } from '../../src/types/index.js';
+
+const config = (versions: Record<string, string>): string =>
+  'versions:\n' + Object.entries(versions).map(([version, folder]) => `  "${version}":\n    folder: ${folder}\n`).join('');
+
+const conanfile = (...lines: string[]): string => [
+  'class Recipe(ConanFile):',
+  '    options = {"with_ssl": [True, False]}',
+  '    default_options = {"with_ssl": False}',
+  '',
+  '    def requirements(self):',
+  ...lines.map(line => `        ${line}`),
+].join('\n');
+
+function createSource(files: Record<string, string>, name: string = 'local'): RecipeSource {
+  return {
+    name,
+    listRecipes: vi.fn(async () => [...new Set(Object.keys(files).map(path => path.split('/')[0]))].sort().map(recipe => ({ name: recipe, remote: name }))),
+    getRecipeConfig: vi.fn(async (recipe: string) => {
+      const content = files[`${recipe}/config.yml`];
+      return content ? { ...recipeYamlParser.parseConfig(content), remote: name } : null;
+    }),
+    readRecipeFile: vi.fn(async (recipe: string, folder: string, path: string) => files[`${recipe}/${folder}/${path}`] ?? null),
+    listRecipeFiles: vi.fn(async () => []),
+    getRecipeHistory: vi.fn(async () => null),
+    getUpdatedAt: vi.fn(async () => null),
+  };
+}
+
+describe('reverse-dependency-index service', () => {
+  let catalogue: RecipeCatalogue;
+  let indexer: ReverseDependencyIndexer;
+
+  const source = createSource({
+    'libcurl/config.yml': config({ '8.6.0': 'all', '8.5.0': 'all' }),
+    'libcurl/all/conanfile.py': conanfile('self.requires("zlib/[>=1.2.11 <2]")', 'if self.options.with_ssl:', '    self.requires("openssl/[>=1.1 <4]")'),
+    'poco/config.yml': config({ '1.13.3': 'all' }),
+    'poco/all/conanfile.py': conanfile('self.requires("openssl/3.2.1")', 'self.requires("zlib/1.3.1")'),
+    'legacy/config.yml': config({ '2.0': '2.x', '1.0': '1.x' }),
+    'legacy/1.x/conanfile.py': conanfile('self.requires("openssl/1.1.1w")'),
+    'legacy/2.x/conanfile.py': conanfile('self.requires("openssl/[>=3 <4]")'),
+    'broken/conanfile.py': 'no config',
+  });
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    catalogue = new RecipeCatalogue(source, null, Infinity);
+    indexer = new ReverseDependencyIndexer(catalogue);
+    await catalogue.rebuild();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('getIndex', () => {
+    test('should index requirements per recipe folder at its newest version', async () => {
+      const index = await indexer.getIndex();
+
+      expect(index.source).toBe('local');
+      expect(index.recipe_count).toBe(4);
+      expect(index.indexed_count).toBe(3);
+      expect(index.dependents.zlib.map(dependency => dependency.name)).toEqual(['libcurl', 'poco']);
+      expect(index.dependents.openssl).toContainEqual({
+        name: 'libcurl',
+        version: '8.6.0',
+        folder: 'all',
+        reference: 'openssl/[>=1.1 <4]',
+        constraint: '[>=1.1 <4]',
+        kind: 'requires',
+        enabled: false,
+      });
+      expect(index.dependents.openssl.filter(dependency => dependency.name === 'legacy').map(dependency => `${dependency.folder}@${dependency.version}`))
+        .toEqual(['2.x@2.0', '1.x@1.0']);
+    });
+
+    test('should read no recipes of its own', async () => {
+      (source.getRecipeConfig as any).mockClear();
+      (source.readRecipeFile as any).mockClear();
+
+      const first = await indexer.getIndex();
+      await catalogue.waitForIndexing();
+
+      expect(await indexer.getIndex()).toBe(first);
+      expect(source.getRecipeConfig).not.toHaveBeenCalled();
+      expect(source.readRecipeFile).not.toHaveBeenCalled();
+    });
+
+    test('should only cover the recipes the catalogue has read so far', async () => {
+      const unread = new ReverseDependencyIndexer(new RecipeCatalogue(source, null, 0));
+
+      const index = await unread.getIndex();
+
+      expect(index.recipe_count).toBe(4);
+      expect(index.indexed_count).toBe(0);
+      expect(index.dependents).toEqual({});
+    });
+  });
+
+  describe('findDependents', () => {
+    test('should filter by version constraints', async () => {
+      const index = await indexer.getIndex();
+
+      expect(indexer.findDependents(index, 'openssl', '3.2.1').map(dependency => dependency.name))
+        .toEqual(['legacy', 'libcurl', 'poco']);
+      expect(indexer.findDependents(index, 'openssl', '1.1.1w').map(dependency => `${dependency.name}/${dependency.folder}`))
+        .toEqual(['legacy/1.x', 'libcurl/all']);
+    });
+
+    test('should return an empty list for packages nobody requires', async () => {
+      const index = await indexer.getIndex();
+
+      expect(indexer.findDependents(index, 'libcurl')).toEqual([]);
+    });
+  });
+});
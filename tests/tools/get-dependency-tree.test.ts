@@ -0,0 +1,109 @@
+import { expect, test, describe, vi, beforeEach, afterEach } from "vitest";
+import { getDependencyTree } from '../../src/tools/get-dependency-tree.js';
+import { conanCenterApi } from '../../src/services/conan-center-api.js';
+import { dependencyResolver } from '../../src/services/dependency-resolver.js';
+import { cache } from '../../src/services/cache.js';
+
+// Mock all dependencies
+vi.mock('../../src/services/conan-center-api.js');
+vi.mock('../../src/services/dependency-resolver.js');
+vi.mock('../../src/services/cache.js');
+
+describe('get-dependency-tree tool', () => {
+  const graph = {
+    tree: {
+      name: 'libcurl',
+      version: '8.6.0',
+      reference: 'libcurl/8.6.0',
+      kind: 'requires',
+      dependencies: [
+        { name: 'zlib', version: '1.3.1', reference: 'zlib/[>=1.2.11 <2]', kind: 'requires', dependencies: [] },
+      ],
+    },
+    packages: ['libcurl/8.6.0', 'zlib/1.3.1'],
+    cycles: [],
+    conflicts: [],
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    // Setup default mocks
+    (cache.get as any).mockReturnValue(null);
+    (cache.set as any).mockReturnValue(undefined);
+    (conanCenterApi.getRecipeInfo as any).mockResolvedValue({
+      name: 'libcurl',
+      latest_version: '8.6.0',
+      versions: { '8.6.0': { folder: 'all' }, '8.5.0': { folder: 'all' } },
+    });
+    (dependencyResolver.resolve as any).mockResolvedValue(graph);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  test('should resolve the requested version and return the graph', async () => {
+    const result = await getDependencyTree({ package_name: 'libcurl', version: '[<8.6]' });
+
+    expect(dependencyResolver.resolve).toHaveBeenCalledWith('libcurl', '8.5.0', {
+      includeToolRequires: false,
+      includeTestRequires: false,
+      maxDepth: 10,
+    });
+    expect(result.version).toBe('8.5.0');
+    expect(result.requested_version).toBe('[<8.6]');
+    expect(result.tree).toEqual(graph.tree);
+    expect(result.packages).toEqual(graph.packages);
+    expect(result.exists).toBe(true);
+    expect(result).not.toHaveProperty('mermaid');
+    expect(cache.set).toHaveBeenCalled();
+  });
+
+  test('should render Mermaid and DOT when requested', async () => {
+    const result = await getDependencyTree({ package_name: 'libcurl', include_mermaid: true, include_dot: true });
+
+    expect(result.mermaid).toContain('n0 --> n1');
+    expect(result.dot).toContain('"libcurl/8.6.0" -> "zlib/1.3.1";');
+  });
+
+  test('should pass through tool and test requirement flags', async () => {
+    await getDependencyTree({ package_name: 'libcurl', include_tool_requires: true, include_test_requires: true, max_depth: 3 });
+
+    expect(dependencyResolver.resolve).toHaveBeenCalledWith('libcurl', '8.6.0', {
+      includeToolRequires: true,
+      includeTestRequires: true,
+      maxDepth: 3,
+    });
+  });
+
+  test('should handle non-existent package', async () => {
+    (conanCenterApi.getRecipeInfo as any).mockRejectedValue(new Error("Package 'nope' not found"));
+
+    const result = await getDependencyTree({ package_name: 'nope' });
+
+    expect(result.exists).toBe(false);
+    expect(result.tree.error).toBe("Package 'nope' not found");
+    expect(dependencyResolver.resolve).not.toHaveBeenCalled();
+  });
+
+  test('should throw for unknown versions', async () => {
+    await expect(getDependencyTree({ package_name: 'libcurl', version: '99.0.0' }))
+      .rejects.toThrow("Version '99.0.0' not found");
+  });
+
+  test('should reject invalid max_depth', async () => {
+    await expect(getDependencyTree({ package_name: 'libcurl', max_depth: 0 }))
+      .rejects.toThrow('max_depth must be between 1 and 20');
+  });
+
+  test('should use cache when available', async () => {
+    const cached = { package_name: 'libcurl', version: '8.6.0', exists: true };
+    (cache.get as any).mockReturnValue(cached);
+
+    const result = await getDependencyTree({ package_name: 'libcurl' });
+
+    expect(result).toBe(cached);
+    expect(conanCenterApi.getRecipeInfo).not.toHaveBeenCalled();
+  });
+});
@@ -65,7 +65,8 @@ describe('get-package-info tool', () => {
         homepage: 'https://github.com/boostorg/boost',
         topics: ['cpp', 'boost'],
         created_at: '2023-01-01T00:00:00Z',
-        updated_at: '2023-12-01T00:00:00Z'
+        updated_at: '2023-12-01T00:00:00Z',
+        remote: 'conancenter'
       };
 
       const mockRecipeDetails = {
@@ -95,6 +96,7 @@ describe('get-package-info tool', () => {
       });
 
       expect(result.name).toBe('boost');
+      expect(result.remote).toBe('conancenter');
       expect(result.latest_version).toBe('1.82.0');
       expect(result.versions).toContain('1.82.0');
       expect(result.versions).toContain('1.81.0');
@@ -165,6 +167,240 @@ describe('get-package-info tool', () => {
       expect(result.options).toBeUndefined();
     });
 
+    test('should include conandata for the selected version', async () => {
+      const mockRecipeInfo = {
+        name: 'zlib',
+        latest_version: '1.3.1',
+        versions: {
+          '1.3.1': { folder: 'all', revisions: [] },
+          '1.2.13': { folder: 'all', revisions: [] }
+        },
+        description: 'A compression library',
+        license: 'Zlib',
+        author: 'Jean-loup Gailly',
+        homepage: 'https://zlib.net',
+        topics: ['compression']
+      };
+      const mockConanData = {
+        version: '1.2.13',
+        sources: [{ url: ['https://zlib.net/fossils/zlib-1.2.13.tar.gz'], sha256: 'b3a24de9' }],
+        patches: [{ patch_file: 'patches/0001-fix-cmake.patch', patch_type: 'conan' }]
+      };
+
+      (conanCenterApi.getRecipeInfo as any).mockResolvedValue(mockRecipeInfo);
+      (conanCenterApi.getConanData as any).mockResolvedValue(mockConanData);
+
+      const result = await getPackageInfo({
+        package_name: 'zlib',
+        version: '1.2',
+        include_dependencies: false,
+        include_sources: true
+      });
+
+      expect(result.version).toBe('1.2.13');
+      expect(result.conandata).toEqual(mockConanData);
+      expect(conanCenterApi.getConanData).toHaveBeenCalledWith('zlib', '1.2.13', mockRecipeInfo);
+    });
+
+    test('should report revisions and dates from the recipe history', async () => {
+      const mockRecipeInfo = {
+        name: 'zlib',
+        latest_version: '1.3.1',
+        versions: { '1.3.1': { folder: 'all' }, '1.2.13': { folder: 'all' } },
+        description: 'A compression library',
+        license: 'Zlib',
+        author: 'Jean-loup Gailly',
+        topics: ['compression']
+      };
+      const revisions = [{ id: 'abc123', timestamp: '2024-02-01T00:00:00.000Z' }];
+
+      (conanCenterApi.getRecipeInfo as any).mockResolvedValue(mockRecipeInfo);
+      (conanCenterApi.getRecipeHistory as any).mockResolvedValue({
+        created_at: '2019-05-01T00:00:00.000Z',
+        updated_at: '2024-02-01T00:00:00.000Z',
+        revisions: { '1.3.1': revisions, '1.2.13': revisions }
+      });
+
+      const result = await getPackageInfo({ package_name: 'zlib', include_dependencies: false, include_revisions: true });
+
+      expect(conanCenterApi.getRecipeHistory).toHaveBeenCalledWith(mockRecipeInfo);
+      expect(result.created_at).toBe('2019-05-01T00:00:00.000Z');
+      expect(result.updated_at).toBe('2024-02-01T00:00:00.000Z');
+      expect(result.revisions).toEqual(revisions);
+    });
+
+    test('should take homepage, description and license from the conanfile', async () => {
+      (conanCenterApi.getRecipeInfo as any).mockResolvedValue({
+        name: 'fmt',
+        latest_version: '10.2.1',
+        versions: { '10.2.1': { folder: 'all' } },
+        description: 'Conan package for fmt',
+        license: 'Unknown',
+        author: 'Conan Center',
+        homepage: '',
+        topics: [],
+        remote: 'conancenter'
+      });
+      (conanCenterApi.getRecipeDetails as any).mockResolvedValue({
+        name: 'fmt',
+        version: '10.2.1',
+        description: 'A safe and fast alternative to printf and IOStreams.',
+        license: 'MIT',
+        author: 'Conan Center',
+        homepage: 'https://github.com/fmtlib/fmt',
+        topics: ['format'],
+        requires: []
+      });
+
+      const result = await getPackageInfo({ package_name: 'fmt', include_dependencies: false });
+
+      expect(result.description).toBe('A safe and fast alternative to printf and IOStreams.');
+      expect(result.license).toBe('MIT');
+      expect(result.homepage).toBe('https://github.com/fmtlib/fmt');
+      expect(result.topics).toEqual(['format']);
+      expect(result.repository).toEqual({ type: 'git', url: 'https://github.com/fmtlib/fmt', source: 'homepage' });
+    });
+
+    test('should resolve the repository from the conandata sources when the homepage is not a repository', async () => {
+      const mockRecipeInfo = {
+        name: 'zlib',
+        latest_version: '1.3.1',
+        versions: { '1.3.1': { folder: 'all' } },
+        description: 'A compression library',
+        license: 'Zlib',
+        author: 'Jean-loup Gailly',
+        homepage: 'https://zlib.net',
+        topics: ['compression']
+      };
+
+      (conanCenterApi.getRecipeInfo as any).mockResolvedValue(mockRecipeInfo);
+      (conanCenterApi.getConanData as any).mockResolvedValue({
+        sources: [{ url: ['https://github.com/madler/zlib/releases/download/v1.3.1/zlib-1.3.1.tar.gz'] }],
+      });
+
+      const result = await getPackageInfo({ package_name: 'zlib', include_dependencies: false });
+
+      expect(conanCenterApi.getConanData).toHaveBeenCalledWith('zlib', '1.3.1', mockRecipeInfo);
+      expect(result.repository).toEqual({ type: 'git', url: 'https://github.com/madler/zlib', source: 'conandata' });
+      expect(result.conandata).toBeUndefined();
+    });
+
+    test('should leave the repository unset when nothing resolves', async () => {
+      (conanCenterApi.getRecipeInfo as any).mockResolvedValue({
+        name: 'zlib',
+        latest_version: '1.3.1',
+        versions: { '1.3.1': { folder: 'all' } },
+        description: 'A compression library',
+        license: 'Zlib',
+        author: 'Jean-loup Gailly',
+        homepage: 'https://zlib.net',
+        topics: ['compression']
+      });
+
+      const result = await getPackageInfo({ package_name: 'zlib', include_dependencies: false });
+
+      expect(result).not.toHaveProperty('repository');
+    });
+
+    test('should not fetch revisions unless requested', async () => {
+      (conanCenterApi.getRecipeInfo as any).mockResolvedValue({
+        name: 'zlib',
+        latest_version: '1.3.1',
+        versions: { '1.3.1': { folder: 'all' } },
+        description: 'A compression library',
+        license: 'Zlib',
+        author: 'Jean-loup Gailly',
+        topics: ['compression']
+      });
+
+      const result = await getPackageInfo({ package_name: 'zlib', include_dependencies: false });
+
+      expect(conanCenterApi.getRecipeHistory).not.toHaveBeenCalled();
+      expect(result.revisions).toBeUndefined();
+    });
+
+    test('should not fetch conandata unless requested', async () => {
+      const mockRecipeInfo = {
+        name: 'zlib',
+        latest_version: '1.3.1',
+        versions: { '1.3.1': { folder: 'all', revisions: [] } },
+        description: 'A compression library',
+        license: 'Zlib',
+        author: 'Jean-loup Gailly',
+        homepage: 'https://github.com/madler/zlib',
+        topics: ['compression']
+      };
+
+      (conanCenterApi.getRecipeInfo as any).mockResolvedValue(mockRecipeInfo);
+
+      const result = await getPackageInfo({
+        package_name: 'zlib',
+        include_dependencies: false
+      });
+
+      expect(result.conandata).toBeUndefined();
+      expect(conanCenterApi.getConanData).not.toHaveBeenCalled();
+    });
+
+    test('should reject versions that do not exist', async () => {
+      const mockRecipeInfo = {
+        name: 'zlib',
+        latest_version: '1.3.1',
+        versions: { '1.3.1': { folder: 'all', revisions: [] } },
+        description: 'A compression library',
+        license: 'Zlib',
+        author: 'Jean-loup Gailly',
+        homepage: 'https://zlib.net',
+        topics: ['compression']
+      };
+
+      (conanCenterApi.getRecipeInfo as any).mockResolvedValue(mockRecipeInfo);
+
+      await expect(getPackageInfo({
+        package_name: 'zlib',
+        version: '[>=2]'
+      })).rejects.toThrow("Version '[>=2]' not found");
+    });
+
+    test('should include components when requested', async () => {
+      const mockRecipeInfo = {
+        name: 'openssl',
+        latest_version: '3.2.1',
+        versions: { '3.2.1': { folder: '3.x.x', revisions: [] } },
+        description: 'OpenSSL library',
+        license: 'Apache-2.0',
+        author: 'Conan Center',
+        homepage: 'https://www.openssl.org',
+        topics: ['ssl']
+      };
+      const emptyComponent = { properties: {}, libs: [], system_libs: [], requires: [] };
+
+      (conanCenterApi.getRecipeInfo as any).mockResolvedValue(mockRecipeInfo);
+      (conanCenterApi.getRecipeDetails as any).mockResolvedValue({
+        name: 'openssl',
+        version: '3.2.1',
+        requires: ['zlib/[>=1.2.11 <2]'],
+        package_info: {
+          ...emptyComponent,
+          properties: { cmake_file_name: 'OpenSSL' },
+          components: {
+            crypto: { ...emptyComponent, properties: { cmake_target_name: 'OpenSSL::Crypto' }, libs: ['libcrypto'] },
+            ssl: { ...emptyComponent, properties: { cmake_target_name: 'OpenSSL::SSL' }, requires: ['crypto'] }
+          }
+        }
+      });
+
+      const result = await getPackageInfo({
+        package_name: 'openssl',
+        include_dependencies: false,
+        include_components: true
+      });
+
+      expect(result.dependencies).toBeUndefined();
+      expect(result.components?.map(component => component.cmake_target)).toEqual(['OpenSSL::Crypto', 'OpenSSL::SSL']);
+      expect(result.components?.[1].requires_components).toEqual(['crypto']);
+    });
+
     test('should use cache when available', async () => {
       const cachedResult = {
         name: 'cached-lib',
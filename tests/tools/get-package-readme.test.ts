@@ -3,14 +3,22 @@ import { getPackageReadme } from '../../src/tools/get-package-readme.js';
 import { conanCenterApi } from '../../src/services/conan-center-api.js';
 import { githubApi } from '../../src/services/github-api.js';
 import { readmeParser } from '../../src/services/readme-parser.js';
+import { readmeMirror } from '../../src/services/readme-mirror.js';
 import { cache } from '../../src/services/cache.js';
 
 // Mock all dependencies
 vi.mock('../../src/services/conan-center-api.js');
 vi.mock('../../src/services/github-api.js');
 vi.mock('../../src/services/readme-parser.js');
+vi.mock('../../src/services/readme-mirror.js');
 vi.mock('../../src/services/cache.js');
 
+const mockReadme = (content: string) => ({
+  content,
+  ref: 'master',
+  fell_back_to_default_branch: true
+});
+
 describe('get-package-readme tool', () => {
   beforeEach(() => {
     vi.clearAllMocks();
@@ -18,6 +26,11 @@ describe('get-package-readme tool', () => {
     // Setup default mocks
     (cache.get as any).mockReturnValue(null);
     (cache.set as any).mockReturnValue(undefined);
+    (conanCenterApi.getRecipeDetails as any).mockResolvedValue(null);
+    (conanCenterApi.getConanData as any).mockResolvedValue(null);
+    (conanCenterApi.getTestPackageFiles as any).mockResolvedValue([]);
+    (readmeParser.parseTestPackageExamples as any).mockReturnValue([]);
+    (readmeMirror.getReadme as any).mockResolvedValue(null);
   });
 
   afterEach(() => {
@@ -98,7 +111,7 @@ describe('get-package-readme tool', () => {
       }];
 
       (conanCenterApi.getRecipeInfo as any).mockResolvedValue(mockRecipeInfo);
-      (githubApi.getReadmeContent as any).mockResolvedValue(mockReadmeContent);
+      (githubApi.getVersionedReadme as any).mockResolvedValue(mockReadme(mockReadmeContent));
       (readmeParser.parseUsageExamples as any).mockReturnValue(mockUsageExamples);
 
       const result = await getPackageReadme({
@@ -146,7 +159,7 @@ describe('get-package-readme tool', () => {
       };
 
       (conanCenterApi.getRecipeInfo as any).mockResolvedValue(mockRecipeInfo);
-      (githubApi.getReadmeContent as any).mockResolvedValue('# zlib\n\nCompression library');
+      (githubApi.getVersionedReadme as any).mockResolvedValue(mockReadme('# zlib\n\nCompression library'));
       (readmeParser.parseUsageExamples as any).mockReturnValue([]);
 
       const result = await getPackageReadme({
@@ -158,6 +171,227 @@ describe('get-package-readme tool', () => {
       expect(result.exists).toBe(true);
     });
 
+    test('should resolve version ranges to the highest match', async () => {
+      const mockRecipeInfo = {
+        name: 'fmt',
+        latest_version: '10.2.1',
+        versions: {
+          '8.1.1': { folder: 'all', revisions: [] },
+          '9.1.0': { folder: 'all', revisions: [] },
+          '9.0.0': { folder: 'all', revisions: [] },
+          '10.2.1': { folder: 'all', revisions: [] }
+        },
+        description: 'A modern formatting library',
+        license: 'MIT',
+        author: 'Victor Zverovich',
+        homepage: 'https://github.com/fmtlib/fmt',
+        topics: ['format']
+      };
+
+      (conanCenterApi.getRecipeInfo as any).mockResolvedValue(mockRecipeInfo);
+      (githubApi.getVersionedReadme as any).mockResolvedValue(mockReadme('# fmt'));
+      (readmeParser.parseUsageExamples as any).mockReturnValue([]);
+
+      const result = await getPackageReadme({
+        package_name: 'fmt',
+        version: '[>=8 <10]'
+      });
+
+      expect(result.version).toBe('9.1.0');
+      expect(result.requested_version).toBe('[>=8 <10]');
+      expect(result.installation.conan).toContain('fmt/9.1.0');
+    });
+
+    test('should resolve version shortcuts', async () => {
+      const mockRecipeInfo = {
+        name: 'fmt',
+        latest_version: '10.2.1',
+        versions: {
+          '9.1.0': { folder: 'all', revisions: [] },
+          '9.0.0': { folder: 'all', revisions: [] },
+          '10.2.1': { folder: 'all', revisions: [] }
+        },
+        description: 'A modern formatting library',
+        license: 'MIT',
+        author: 'Victor Zverovich',
+        homepage: 'https://github.com/fmtlib/fmt',
+        topics: ['format']
+      };
+
+      (conanCenterApi.getRecipeInfo as any).mockResolvedValue(mockRecipeInfo);
+      (githubApi.getVersionedReadme as any).mockResolvedValue(mockReadme('# fmt'));
+      (readmeParser.parseUsageExamples as any).mockReturnValue([]);
+
+      const result = await getPackageReadme({
+        package_name: 'fmt',
+        version: '9'
+      });
+
+      expect(result.version).toBe('9.1.0');
+    });
+
+    test('should read the README at the tag matching the version', async () => {
+      const mockRecipeInfo = {
+        name: 'fmt',
+        latest_version: '10.2.1',
+        versions: {
+          '8.1.1': { folder: 'all', revisions: [] },
+          '10.2.1': { folder: 'all', revisions: [] }
+        },
+        description: 'A modern formatting library',
+        license: 'MIT',
+        author: 'Victor Zverovich',
+        homepage: 'https://github.com/fmtlib/fmt',
+        topics: ['format']
+      };
+
+      (conanCenterApi.getRecipeInfo as any).mockResolvedValue(mockRecipeInfo);
+      (conanCenterApi.getConanData as any).mockResolvedValue({
+        version: '8.1.1',
+        sources: [{ url: ['https://github.com/fmtlib/fmt/archive/8.1.1.tar.gz'] }],
+        patches: []
+      });
+      (githubApi.getVersionedReadme as any).mockResolvedValue({
+        content: '# {fmt} 8.1.1',
+        ref: '8.1.1',
+        fell_back_to_default_branch: false
+      });
+      (readmeParser.parseUsageExamples as any).mockReturnValue([]);
+
+      const result = await getPackageReadme({
+        package_name: 'fmt',
+        version: '8.1.1'
+      });
+
+      const [, candidates] = (githubApi.getVersionedReadme as any).mock.calls[0];
+      expect(candidates[0]).toBe('8.1.1');
+      expect(candidates).toContain('v8.1.1');
+      expect(result.readme_content).toBe('# {fmt} 8.1.1');
+      expect(result.readme_ref).toEqual({ ref: '8.1.1', fell_back_to_default_branch: false });
+    });
+
+    test('should prefer a mirrored README over GitHub', async () => {
+      (conanCenterApi.getRecipeInfo as any).mockResolvedValue({
+        name: 'fmt',
+        latest_version: '10.2.1',
+        versions: { '10.2.1': { folder: 'all', revisions: [] } },
+        description: 'A modern formatting library',
+        license: 'MIT',
+        author: 'Victor Zverovich',
+        homepage: 'https://github.com/fmtlib/fmt',
+        topics: ['format']
+      });
+      (readmeMirror.getReadme as any).mockResolvedValue({
+        content: '# mirrored fmt',
+        ref: '10.2.1',
+        fell_back_to_default_branch: false,
+        source: 'mirror'
+      });
+      (readmeParser.parseUsageExamples as any).mockReturnValue([]);
+
+      const result = await getPackageReadme({ package_name: 'fmt' });
+
+      expect(readmeMirror.getReadme).toHaveBeenCalledWith('fmt', '10.2.1');
+      expect(githubApi.getVersionedReadme).not.toHaveBeenCalled();
+      expect(result.readme_content).toBe('# mirrored fmt');
+      expect(result.readme_ref).toEqual({ ref: '10.2.1', fell_back_to_default_branch: false, source: 'mirror' });
+    });
+
+    test('should append verified examples from test_package', async () => {
+      const mockRecipeInfo = {
+        name: 'zlib',
+        latest_version: '1.3.1',
+        versions: { '1.3.1': { folder: 'all', revisions: [] } },
+        description: 'A compression library',
+        license: 'Zlib',
+        author: 'Jean-loup Gailly',
+        homepage: 'https://zlib.net',
+        topics: ['compression']
+      };
+      const testPackageFiles = [{ path: 'test_package/test_package.c', content: '#include <zlib.h>' }];
+      const testPackageExamples = [{
+        title: 'Conan Center test_package: test_package.c',
+        code: '#include <zlib.h>',
+        language: 'c',
+        verified_by_ci: true
+      }];
+
+      (conanCenterApi.getRecipeInfo as any).mockResolvedValue(mockRecipeInfo);
+      (conanCenterApi.getTestPackageFiles as any).mockResolvedValue(testPackageFiles);
+      (readmeParser.parseUsageExamples as any).mockReturnValue([]);
+      (readmeParser.parseTestPackageExamples as any).mockReturnValue(testPackageExamples);
+
+      const result = await getPackageReadme({
+        package_name: 'zlib',
+        version: '1.3.1'
+      });
+
+      expect(conanCenterApi.getTestPackageFiles).toHaveBeenCalledWith('zlib', '1.3.1', mockRecipeInfo);
+      expect(readmeParser.parseTestPackageExamples).toHaveBeenCalledWith(testPackageFiles);
+      expect(result.usage_examples).toEqual(testPackageExamples);
+    });
+
+    test('should use CMake names declared in package_info()', async () => {
+      const mockRecipeInfo = {
+        name: 'openssl',
+        latest_version: '3.2.1',
+        versions: { '3.2.1': { folder: '3.x.x', revisions: [] } },
+        description: 'A toolkit for the TLS and SSL protocols',
+        license: 'Apache-2.0',
+        author: 'Conan Center',
+        homepage: 'https://www.openssl.org',
+        topics: ['ssl', 'tls']
+      };
+
+      (conanCenterApi.getRecipeInfo as any).mockResolvedValue(mockRecipeInfo);
+      (conanCenterApi.getRecipeDetails as any).mockResolvedValue({
+        package_info: {
+          properties: { cmake_file_name: 'OpenSSL' },
+          components: {
+            crypto: { properties: { cmake_target_name: 'OpenSSL::Crypto' } },
+            ssl: { properties: { cmake_target_name: 'OpenSSL::SSL' } }
+          }
+        }
+      });
+      (readmeParser.parseUsageExamples as any).mockReturnValue([]);
+
+      const result = await getPackageReadme({
+        package_name: 'openssl',
+        version: 'latest'
+      });
+
+      expect(result.installation.cmake).toBe('find_package(OpenSSL REQUIRED)');
+      expect(result.installation.cmake_targets).toEqual(['OpenSSL::Crypto', 'OpenSSL::SSL']);
+      expect(result.readme_content).toContain('target_link_libraries(your_target OpenSSL::Crypto OpenSSL::SSL)');
+      expect(result.readme_content).not.toContain('openssl::openssl');
+    });
+
+    test('should write installation snippets for the requested Conan client', async () => {
+      const mockRecipeInfo = {
+        name: 'zlib',
+        latest_version: '1.3.1',
+        versions: { '1.3.1': { folder: 'all', revisions: [] } },
+        description: 'A massively spiffy yet delicately unobtrusive compression library',
+        license: 'Zlib',
+        author: 'Conan Center',
+        homepage: 'https://zlib.net',
+        topics: ['compression']
+      };
+
+      (conanCenterApi.getRecipeInfo as any).mockResolvedValue(mockRecipeInfo);
+      (githubApi.getVersionedReadme as any).mockResolvedValue(null);
+      (readmeParser.parseUsageExamples as any).mockReturnValue([]);
+
+      const conan2 = await getPackageReadme({ package_name: 'zlib' });
+      const conan1 = await getPackageReadme({ package_name: 'zlib', conan_version: 1 });
+
+      expect(conan2.installation.conan).toBe('conan install --requires=zlib/1.3.1');
+      expect(conan2.installation.pkgconfig).toBe('pkg-config --cflags --libs zlib');
+      expect(conan2.readme_content).toContain('[requires]\nzlib/1.3.1');
+      expect(conan1.installation.conan).toBe('conan install zlib/1.3.1@');
+      expect(conan1.installation.conanfile_py).toContain('from conans import ConanFile');
+    });
+
     test('should handle invalid version', async () => {
       const mockRecipeInfo = {
         name: 'openssl',
@@ -191,7 +425,7 @@ describe('get-package-readme tool', () => {
       };
 
       (conanCenterApi.getRecipeInfo as any).mockResolvedValue(mockRecipeInfo);
-      (githubApi.getReadmeContent as any).mockResolvedValue(null);
+      (githubApi.getVersionedReadme as any).mockResolvedValue(null);
       (readmeParser.parseUsageExamples as any).mockReturnValue([]);
 
       const result = await getPackageReadme({
@@ -227,6 +461,7 @@ describe('get-package-readme tool', () => {
 
       expect(result.usage_examples).toEqual([]);
       expect(readmeParser.parseUsageExamples).not.toHaveBeenCalled();
+      expect(conanCenterApi.getTestPackageFiles).not.toHaveBeenCalled();
     });
 
     test('should use cache when available', async () => {
@@ -284,7 +519,7 @@ describe('get-package-readme tool', () => {
       };
 
       (conanCenterApi.getRecipeInfo as any).mockResolvedValue(mockRecipeInfo);
-      (githubApi.getReadmeContent as any).mockResolvedValue('# Repo Lib');
+      (githubApi.getVersionedReadme as any).mockResolvedValue(mockReadme('# Repo Lib'));
       (readmeParser.parseUsageExamples as any).mockReturnValue([]);
 
       const result = await getPackageReadme({
@@ -294,8 +529,95 @@ describe('get-package-readme tool', () => {
 
       expect(result.repository).toEqual({
         type: 'git',
-        url: 'https://github.com/user/repolib'
+        url: 'https://github.com/user/repolib',
+        source: 'homepage'
+      });
+    });
+
+    test('should derive the repository from conandata sources when homepage is not GitHub', async () => {
+      const mockRecipeInfo = {
+        name: 'boost',
+        latest_version: '1.84.0',
+        versions: { '1.84.0': { folder: 'all', revisions: [] } },
+        description: 'Boost provides free peer-reviewed portable C++ source libraries',
+        license: 'BSL-1.0',
+        author: 'Conan Center',
+        homepage: 'https://www.boost.org',
+        topics: ['libraries', 'cpp']
+      };
+
+      (conanCenterApi.getRecipeInfo as any).mockResolvedValue(mockRecipeInfo);
+      (conanCenterApi.getRecipeDetails as any).mockResolvedValue({
+        url: 'https://github.com/conan-io/conan-center-index'
+      });
+      (conanCenterApi.getConanData as any).mockResolvedValue({
+        version: '1.84.0',
+        sources: [{ url: ['https://github.com/boostorg/boost/releases/download/boost-1.84.0/boost-1.84.0.tar.xz'] }],
+        patches: []
+      });
+      (githubApi.getVersionedReadme as any).mockResolvedValue(mockReadme('# Boost'));
+      (readmeParser.parseUsageExamples as any).mockReturnValue([]);
+
+      const result = await getPackageReadme({
+        package_name: 'boost',
+        version: 'latest'
+      });
+
+      expect(githubApi.getVersionedReadme).toHaveBeenCalledWith(
+        'https://github.com/boostorg/boost',
+        expect.arrayContaining(['boost-1.84.0'])
+      );
+      expect(result.readme_content).toBe('# Boost');
+      expect(result.repository).toEqual({
+        type: 'git',
+        url: 'https://github.com/boostorg/boost',
+        source: 'conandata'
+      });
+    });
+
+    test('should take homepage, description and license from the conanfile', async () => {
+      // getRecipeInfo only reads config.yml, so these are always placeholders
+      (conanCenterApi.getRecipeInfo as any).mockResolvedValue({
+        name: 'fmt',
+        latest_version: '10.2.1',
+        versions: { '10.2.1': { folder: 'all' } },
+        description: 'Conan package for fmt',
+        license: 'Unknown',
+        author: 'Conan Center',
+        homepage: '',
+        topics: [],
+        remote: 'conancenter'
+      });
+      (conanCenterApi.getRecipeDetails as any).mockResolvedValue({
+        name: 'fmt',
+        version: '10.2.1',
+        description: 'A safe and fast alternative to printf and IOStreams.',
+        license: 'MIT',
+        author: 'Conan Center',
+        homepage: 'https://github.com/fmtlib/fmt',
+        url: 'https://github.com/conan-io/conan-center-index',
+        topics: ['format']
+      });
+      (conanCenterApi.getConanData as any).mockResolvedValue({
+        version: '10.2.1',
+        sources: [{ url: ['https://example.com/mirror/fmt-10.2.1.zip'] }],
+        patches: []
+      });
+      (githubApi.getVersionedReadme as any).mockResolvedValue(mockReadme('# fmt'));
+      (readmeParser.parseUsageExamples as any).mockReturnValue([]);
+
+      const result = await getPackageReadme({ package_name: 'fmt', version: 'latest' });
+
+      expect(result.repository).toEqual({ type: 'git', url: 'https://github.com/fmtlib/fmt', source: 'homepage' });
+      expect(githubApi.getVersionedReadme).toHaveBeenCalledWith('https://github.com/fmtlib/fmt', expect.any(Array));
+      expect(result.readme_content).toBe('# fmt');
+      expect(result.description).toBe('A safe and fast alternative to printf and IOStreams.');
+      expect(result.basic_info).toMatchObject({
+        description: 'A safe and fast alternative to printf and IOStreams.',
+        license: 'MIT',
+        homepage: 'https://github.com/fmtlib/fmt',
+        topics: ['format']
       });
     });
   });
-});
\ No newline at end of file
+});
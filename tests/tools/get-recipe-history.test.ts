@@ -0,0 +1,133 @@
+import { expect, test, describe, vi, beforeEach, afterEach } from "vitest";
+import { getRecipeHistory, extractPullRequestNumber } from '../../src/tools/get-recipe-history.js';
+import { githubApi } from '../../src/services/github-api.js';
+import { cache } from '../../src/services/cache.js';
+import { readGitLog } from '../../src/utils/git.js';
+import { config } from '../../src/utils/config.js';
+
+// Mock all dependencies
+vi.mock('../../src/services/github-api.js');
+vi.mock('../../src/services/cache.js');
+vi.mock('../../src/utils/git.js');
+
+describe('get-recipe-history tool', () => {
+  const githubCommit = (sha: string, message: string, date: string) => ({
+    sha,
+    html_url: `https://github.com/conan-io/conan-center-index/commit/${sha}`,
+    commit: {
+      message,
+      author: { name: 'Jane Doe', email: 'jane@example.com', date },
+      committer: { name: 'GitHub', email: 'noreply@github.com', date },
+    },
+  });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    (cache.get as any).mockReturnValue(null);
+    (cache.set as any).mockReturnValue(undefined);
+    (githubApi.getCommits as any).mockResolvedValue([
+      githubCommit('bbb', '(#23456) zlib: add version 1.3.1 (#23456)\n\n* add version', '2024-02-01T10:00:00Z'),
+      githubCommit('aaa', 'Merge pull request #100 from someone/zlib\n\nzlib: initial recipe', '2020-01-01T00:00:00Z'),
+    ]);
+  });
+
+  afterEach(() => {
+    config.offline = false;
+    config.conanCenterIndexPath = undefined;
+    vi.restoreAllMocks();
+  });
+
+  test('should list commits with their pull request numbers', async () => {
+    const result = await getRecipeHistory({ package_name: 'zlib' });
+
+    expect(result.path).toBe('recipes/zlib');
+    expect(result.source).toBe('github');
+    expect(result.total_count).toBe(2);
+    expect(result.commits[0]).toEqual({
+      sha: 'bbb',
+      date: '2024-02-01T10:00:00.000Z',
+      author: 'Jane Doe',
+      message: '(#23456) zlib: add version 1.3.1 (#23456)',
+      pull_request: 23456,
+      url: 'https://github.com/conan-io/conan-center-index/commit/bbb',
+    });
+    expect(result.commits[1].pull_request).toBe(100);
+  });
+
+  test('should pass folder, date range and limit to GitHub', async () => {
+    const result = await getRecipeHistory({ package_name: 'zlib', folder: 'all', since: '2024-01-01', until: '2024-03-01', limit: 5 });
+
+    expect(result.folder).toBe('all');
+    expect(result.since).toBe('2024-01-01T00:00:00.000Z');
+    expect(githubApi.getCommits).toHaveBeenCalledWith('https://github.com/conan-io/conan-center-index', {
+      path: 'recipes/zlib/all',
+      since: '2024-01-01T00:00:00.000Z',
+      until: '2024-03-01T00:00:00.000Z',
+      perPage: 5,
+    });
+  });
+
+  test('should reject invalid filters', async () => {
+    await expect(getRecipeHistory({ package_name: 'zlib', folder: '../openssl' })).rejects.toThrow('folder');
+    await expect(getRecipeHistory({ package_name: 'zlib', since: 'last week' })).rejects.toThrow('since');
+    await expect(getRecipeHistory({ package_name: 'zlib', since: '2024-02-01', until: '2024-01-01' })).rejects.toThrow('later than until');
+    expect(githubApi.getCommits).not.toHaveBeenCalled();
+  });
+
+  test('should fall back to the local clone when GitHub fails', async () => {
+    config.conanCenterIndexPath = '/data/conan-center-index';
+    (githubApi.getCommits as any).mockRejectedValue(new Error('HTTP 403: rate limit exceeded'));
+    (readGitLog as any).mockResolvedValue([
+      { sha: 'ccc', date: '2024-02-01T10:00:00.000Z', author: 'Jane Doe', subject: 'zlib: add version 1.3.1 (#23456)', files: [] },
+    ]);
+
+    const result = await getRecipeHistory({ package_name: 'zlib', limit: 10 });
+
+    expect(result.source).toBe('local');
+    expect(result.commits[0].pull_request).toBe(23456);
+    expect(readGitLog).toHaveBeenCalledWith('/data/conan-center-index', { path: 'recipes/zlib', since: undefined, until: undefined, maxCount: 10 });
+  });
+
+  test('should use the local clone without calling GitHub when offline', async () => {
+    config.offline = true;
+    config.conanCenterIndexPath = '/data/conan-center-index';
+    (readGitLog as any).mockResolvedValue([
+      { sha: 'ccc', date: '2024-02-01T10:00:00.000Z', author: 'Jane Doe', subject: 'zlib: bump', files: [] },
+    ]);
+
+    const result = await getRecipeHistory({ package_name: 'zlib' });
+
+    expect(result.source).toBe('local');
+    expect(result.commits[0].pull_request).toBeUndefined();
+    expect(githubApi.getCommits).not.toHaveBeenCalled();
+  });
+
+  test('should fail offline without a local clone', async () => {
+    config.offline = true;
+
+    await expect(getRecipeHistory({ package_name: 'zlib' })).rejects.toThrow('CONAN_CENTER_INDEX_PATH');
+  });
+
+  test('should report unknown recipes as not found', async () => {
+    (githubApi.getCommits as any).mockResolvedValue([]);
+
+    await expect(getRecipeHistory({ package_name: 'no-such-recipe' })).rejects.toThrow('not found');
+  });
+
+  test('should return cached history', async () => {
+    const cached = { package_name: 'zlib', path: 'recipes/zlib', commits: [], total_count: 0, source: 'github' };
+    (cache.get as any).mockReturnValue(cached);
+
+    expect(await getRecipeHistory({ package_name: 'zlib' })).toBe(cached);
+    expect(githubApi.getCommits).not.toHaveBeenCalled();
+  });
+
+  describe('extractPullRequestNumber', () => {
+    test('should read squash and merge commit subjects', () => {
+      expect(extractPullRequestNumber('zlib: add 1.3.1 (#23456)')).toBe(23456);
+      expect(extractPullRequestNumber('Merge pull request #42 from user/branch')).toBe(42);
+      expect(extractPullRequestNumber('zlib: fix build')).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,84 @@
+import { expect, test, describe, vi, beforeEach, afterEach } from "vitest";
+import { getReverseDependencies } from '../../src/tools/get-reverse-dependencies.js';
+import { reverseDependencyIndexer } from '../../src/services/reverse-dependency-index.js';
+
+// Mock all dependencies
+vi.mock('../../src/services/reverse-dependency-index.js');
+
+describe('get-reverse-dependencies tool', () => {
+  const dependency = (name: string, kind: string) => ({
+    name,
+    version: '1.0',
+    folder: 'all',
+    reference: 'openssl/[>=1.1 <4]',
+    constraint: '[>=1.1 <4]',
+    kind,
+    enabled: true,
+  });
+
+  const index = {
+    source: 'local',
+    built_at: '2024-01-01T00:00:00.000Z',
+    recipe_count: 3,
+    indexed_count: 3,
+    dependents: {},
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    (reverseDependencyIndexer.getIndex as any).mockResolvedValue(index);
+    (reverseDependencyIndexer.findDependents as any).mockReturnValue([
+      dependency('poco', 'requires'),
+      dependency('gtest-user', 'test_requires'),
+      dependency('libcurl', 'requires'),
+      dependency('cmake', 'tool_requires'),
+    ]);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  test('should list dependents sorted by name without test_requires by default', async () => {
+    const result = await getReverseDependencies({ package_name: 'openssl' });
+
+    expect(result.dependents.map(item => item.name)).toEqual(['cmake', 'libcurl', 'poco']);
+    expect(result.total_count).toBe(3);
+    expect(result.index).toEqual({ source: 'local', built_at: '2024-01-01T00:00:00.000Z', recipe_count: 3, indexed_count: 3 });
+    expect(result.complete).toBe(true);
+    expect(result.warning).toBeUndefined();
+    expect(reverseDependencyIndexer.getIndex).toHaveBeenCalledWith(false);
+  });
+
+  test('should flag answers from a partly read catalogue as incomplete', async () => {
+    (reverseDependencyIndexer.getIndex as any).mockResolvedValue({ ...index, recipe_count: 1500, indexed_count: 20 });
+
+    const result = await getReverseDependencies({ package_name: 'openssl' });
+
+    expect(result.complete).toBe(false);
+    expect(result.warning).toContain('Only 20 of 1500 recipes have been read');
+  });
+
+  test('should honour requirement kind filters', async () => {
+    const result = await getReverseDependencies({
+      package_name: 'openssl',
+      include_tool_requires: false,
+      include_test_requires: true,
+    });
+
+    expect(result.dependents.map(item => item.name)).toEqual(['gtest-user', 'libcurl', 'poco']);
+  });
+
+  test('should pass the version filter and refresh flag through', async () => {
+    const result = await getReverseDependencies({ package_name: 'openssl', version: '3.2.1', refresh: true });
+
+    expect(reverseDependencyIndexer.getIndex).toHaveBeenCalledWith(true);
+    expect(reverseDependencyIndexer.findDependents).toHaveBeenCalledWith(index, 'openssl', '3.2.1');
+    expect(result.version).toBe('3.2.1');
+  });
+
+  test('should validate package name format', async () => {
+    await expect(getReverseDependencies({ package_name: 'invalid/name' })).rejects.toThrow();
+  });
+});
@@ -1,7 +1,7 @@
 import { expect, test, describe, vi, beforeEach, afterEach } from "vitest";
 import { searchPackages } from '../../src/tools/search-packages.js';
 import { conanCenterApi } from '../../src/services/conan-center-api.js';
-import { cache } from '../../src/services/cache.js';
+import { cache, createCacheKey } from '../../src/services/cache.js';
 
 // Mock all dependencies
 vi.mock('../../src/services/conan-center-api.js');
@@ -115,7 +115,19 @@ describe('search-packages tool', () => {
       expect(result.total_count).toBe(2);
       expect(result.results[0].name).toBe('boost');
       expect(result.results[1].name).toBe('boost-ext');
-      expect(conanCenterApi.searchPackages).toHaveBeenCalledWith('boost', 20);
+      expect(conanCenterApi.searchPackages).toHaveBeenCalledWith('boost', 20, {}, 0);
+    });
+
+    test('should report how much of the catalogue has been read', async () => {
+      (conanCenterApi.searchPackages as any).mockResolvedValue({
+        results: [],
+        total_count: 0,
+        catalogue: { recipe_count: 1500, indexed_count: 20 },
+      });
+
+      const result = await searchPackages({ query: 'boost' });
+
+      expect(result.catalogue).toEqual({ recipe_count: 1500, indexed_count: 20 });
     });
 
     test('should handle empty search results', async () => {
@@ -159,7 +171,7 @@ describe('search-packages tool', () => {
       });
 
       expect(result.results).toHaveLength(5);
-      expect(conanCenterApi.searchPackages).toHaveBeenCalledWith('package', 5);
+      expect(conanCenterApi.searchPackages).toHaveBeenCalledWith('package', 5, {}, 0);
     });
 
     test('should use default limit when not provided', async () => {
@@ -174,7 +186,7 @@ describe('search-packages tool', () => {
         query: 'test'
       });
 
-      expect(conanCenterApi.searchPackages).toHaveBeenCalledWith('test', 20);
+      expect(conanCenterApi.searchPackages).toHaveBeenCalledWith('test', 20, {}, 0);
     });
 
     test('should use cache when available', async () => {
@@ -280,5 +292,95 @@ describe('search-packages tool', () => {
       expect(packageResult).toHaveProperty('created_at');
       expect(packageResult).toHaveProperty('updated_at');
     });
+
+    test('should pass filters on and cache per filter set', async () => {
+      (conanCenterApi.searchPackages as any).mockResolvedValue({ results: [], total_count: 0 });
+
+      const result = await searchPackages({
+        query: 'json',
+        license: ['MIT', ' BSL-1.0 '],
+        topics: [],
+        package_type: ['header-library'],
+        updated_since: '2024-01-01',
+        exclude_deprecated: true,
+      });
+
+      const filters = {
+        license: ['MIT', 'BSL-1.0'],
+        package_type: ['header-library'],
+        updated_since: '2024-01-01T00:00:00.000Z',
+        exclude_deprecated: true,
+      };
+      expect(conanCenterApi.searchPackages).toHaveBeenCalledWith('json', 20, filters, 0);
+      expect(result.filters).toEqual(filters);
+      expect(createCacheKey.searchResults).toHaveBeenCalledWith('json', 20, JSON.stringify(filters), 0);
+    });
+
+    test('should reject invalid filters', async () => {
+      await expect(searchPackages({ query: 'json', package_type: ['header-only'] })).rejects.toThrow('Unknown package_type');
+      await expect(searchPackages({ query: 'json', updated_since: 'last year' })).rejects.toThrow('updated_since');
+      await expect(searchPackages({ query: 'json', license: [42] as any })).rejects.toThrow('license');
+      expect(conanCenterApi.searchPackages).not.toHaveBeenCalled();
+    });
+
+    test('should page through all matches with cursors', async () => {
+      const page = (names: string[]) => ({
+        results: names.map(name => ({ name, topics: [], remote: 'conancenter', score: 80 })),
+        total_count: 3,
+      });
+      (conanCenterApi.searchPackages as any)
+        .mockResolvedValueOnce(page(['json', 'jsoncpp']))
+        .mockResolvedValueOnce(page(['nlohmann_json']));
+
+      const first = await searchPackages({ query: 'json', limit: 2 });
+      expect(first.total_count).toBe(3);
+      expect(first.offset).toBe(0);
+      expect(first.next_cursor).toEqual(expect.any(String));
+
+      const second = await searchPackages({ query: 'json', limit: 2, cursor: first.next_cursor });
+      expect(conanCenterApi.searchPackages).toHaveBeenLastCalledWith('json', 2, {}, 2);
+      expect(createCacheKey.searchResults).toHaveBeenLastCalledWith('json', 2, '', 2);
+      expect(second.offset).toBe(2);
+      expect(second.next_cursor).toBeUndefined();
+    });
+
+    test('should treat offset 0 next to a cursor as unset', async () => {
+      (conanCenterApi.searchPackages as any).mockResolvedValue({
+        results: [{ name: 'json', topics: [], remote: 'conancenter', score: 100 }],
+        total_count: 2,
+      });
+      const { next_cursor } = await searchPackages({ query: 'json', limit: 1 });
+
+      const result = await searchPackages({ query: 'json', limit: 1, offset: 0, cursor: next_cursor });
+
+      expect(conanCenterApi.searchPackages).toHaveBeenLastCalledWith('json', 1, {}, 1);
+      expect(result.offset).toBe(1);
+    });
+
+    test('should accept a plain offset', async () => {
+      (conanCenterApi.searchPackages as any).mockResolvedValue({ results: [], total_count: 3 });
+
+      const result = await searchPackages({ query: 'json', offset: 10 });
+
+      expect(conanCenterApi.searchPackages).toHaveBeenCalledWith('json', 20, {}, 10);
+      expect(result.offset).toBe(10);
+      expect(result.next_cursor).toBeUndefined();
+    });
+
+    test('should reject invalid paging parameters', async () => {
+      (conanCenterApi.searchPackages as any).mockResolvedValue({
+        results: [{ name: 'json', topics: [], remote: 'conancenter', score: 100 }],
+        total_count: 2,
+      });
+      const { next_cursor } = await searchPackages({ query: 'json', limit: 1 });
+      vi.clearAllMocks();
+
+      await expect(searchPackages({ query: 'json', offset: -1 })).rejects.toThrow('offset');
+      await expect(searchPackages({ query: 'json', offset: 1, cursor: next_cursor })).rejects.toThrow('either offset or cursor');
+      await expect(searchPackages({ query: 'json', cursor: 'not-a-cursor' })).rejects.toThrow('not a valid search cursor');
+      await expect(searchPackages({ query: 'xml', cursor: next_cursor })).rejects.toThrow('another query');
+      await expect(searchPackages({ query: 'json', topics: ['parser'], cursor: next_cursor })).rejects.toThrow('other filters');
+      expect(conanCenterApi.searchPackages).not.toHaveBeenCalled();
+    });
   });
-});
\ No newline at end of file
+});
@@ -0,0 +1,85 @@
+import { expect, test, describe } from "vitest";
+import { homedir } from 'node:os';
+import { join } from 'node:path';
+import { loadConfig, loadRemoteCredentials, parseRecipeSources } from '../../src/utils/config.js';
+
+describe('config utils', () => {
+  test('should read settings from the environment', () => {
+    expect(loadConfig({
+      CONAN_CENTER_INDEX_PATH: ' /srv/conan-center-index ',
+      CONAN_README_MIRROR_PATH: '/srv/readmes',
+      CONAN_OFFLINE: 'TRUE',
+      GITHUB_TOKEN: 'ghp_token',
+      CONAN_CATALOGUE_DIR: '/var/cache/conan-catalogue',
+    })).toEqual({
+      conanCenterIndexPath: '/srv/conan-center-index',
+      readmeMirrorPath: '/srv/readmes',
+      offline: true,
+      githubToken: 'ghp_token',
+      recipeSources: [{ name: 'local', kind: 'local', location: '/srv/conan-center-index' }],
+      catalogueDir: '/var/cache/conan-catalogue',
+      catalogueRequestBudget: Infinity,
+    });
+  });
+
+  test('should treat empty values as unset', () => {
+    expect(loadConfig({ CONAN_CENTER_INDEX_PATH: '', GITHUB_TOKEN: '  ', CONAN_OFFLINE: '0' })).toEqual({
+      conanCenterIndexPath: undefined,
+      readmeMirrorPath: undefined,
+      offline: false,
+      githubToken: undefined,
+      recipeSources: [{ name: 'conancenter', kind: 'github' }],
+      catalogueDir: join(homedir(), '.cache', 'conan-package-readme-mcp'),
+      catalogueRequestBudget: 20,
+    });
+  });
+
+  test('should budget background catalogue requests by GitHub rate limit', () => {
+    expect(loadConfig({}).catalogueRequestBudget).toBe(20);
+    expect(loadConfig({ GITHUB_TOKEN: 'ghp_token' }).catalogueRequestBudget).toBe(1000);
+    expect(loadConfig({ CONAN_RECIPE_SOURCES: 'https://conan.example.com' }).catalogueRequestBudget).toBe(Infinity);
+    expect(loadConfig({ CONAN_CATALOGUE_REQUEST_BUDGET: '250' }).catalogueRequestBudget).toBe(250);
+    expect(loadConfig({ CONAN_CATALOGUE_REQUEST_BUDGET: 'lots' }).catalogueRequestBudget).toBe(20);
+  });
+
+  test('should keep the catalogue in the XDG cache directory', () => {
+    expect(loadConfig({ XDG_CACHE_HOME: '/tmp/cache' }).catalogueDir).toBe('/tmp/cache/conan-package-readme-mcp');
+  });
+
+  test('should parse recipe sources in priority order', () => {
+    expect(parseRecipeSources('internal=https://conan.example.com/api/conan/conan-local, local, github', '/srv/cci')).toEqual([
+      { name: 'internal', kind: 'remote', location: 'https://conan.example.com/api/conan/conan-local' },
+      { name: 'local', kind: 'local', location: '/srv/cci' },
+      { name: 'conancenter', kind: 'github' },
+    ]);
+  });
+
+  test('should name unnamed remotes and checkouts after their location', () => {
+    expect(parseRecipeSources('https://conan.example.com:9300,/opt/recipes')).toEqual([
+      { name: 'conan.example.com:9300', kind: 'remote', location: 'https://conan.example.com:9300' },
+      { name: 'local', kind: 'local', location: '/opt/recipes' },
+    ]);
+  });
+
+  test('should require a checkout path for the local source', () => {
+    expect(() => parseRecipeSources('local')).toThrow('CONAN_CENTER_INDEX_PATH is not set');
+  });
+
+  test('should read remote credentials from the Conan client variables', () => {
+    const env = {
+      CONAN_RECIPE_SOURCES: 'my-remote=https://conan.example.com,github',
+      CONAN_LOGIN_USERNAME_MY_REMOTE: 'ci',
+      CONAN_PASSWORD_MY_REMOTE: 'secret',
+    };
+
+    expect(loadConfig(env).recipeSources).toEqual([
+      { name: 'my-remote', kind: 'remote', location: 'https://conan.example.com', credentials: { username: 'ci', password: 'secret' } },
+      { name: 'conancenter', kind: 'github' },
+    ]);
+  });
+
+  test('should prefer a token and ignore incomplete logins', () => {
+    expect(loadRemoteCredentials('internal', { CONAN_TOKEN_INTERNAL: 'abc', CONAN_LOGIN_USERNAME: 'ci', CONAN_PASSWORD: 'x' })).toEqual({ token: 'abc' });
+    expect(loadRemoteCredentials('internal', { CONAN_LOGIN_USERNAME_INTERNAL: 'ci' })).toBeUndefined();
+  });
+});
@@ -0,0 +1,51 @@
+import { expect, test, describe } from "vitest";
+import { renderDot, renderMermaid } from '../../src/utils/dependency-graph.js';
+import type { DependencyNode } from '../../src/types/index.js';
+
+const zlib: DependencyNode = { name: 'zlib', version: '1.3.1', reference: 'zlib/[>=1.2.11 <2]', kind: 'requires', dependencies: [] };
+
+const tree: DependencyNode = {
+  name: 'libcurl',
+  version: '8.6.0',
+  reference: 'libcurl/8.6.0',
+  kind: 'requires',
+  dependencies: [
+    { name: 'openssl', version: '3.2.1', reference: 'openssl/[>=1.1 <4]', kind: 'requires', dependencies: [zlib] },
+    zlib,
+    { name: 'cmake', version: '3.28.1', reference: 'cmake/[>=3.16 <4]', kind: 'tool_requires', dependencies: [] },
+  ],
+};
+
+describe('dependency graph rendering', () => {
+  test('should render a Mermaid flowchart with shared nodes once', () => {
+    expect(renderMermaid(tree)).toBe([
+      'graph TD',
+      '  n0["libcurl/8.6.0"]',
+      '  n1["openssl/3.2.1"]',
+      '  n2["zlib/1.3.1"]',
+      '  n3["cmake/3.28.1"]',
+      '  n0 --> n1',
+      '  n1 --> n2',
+      '  n0 --> n2',
+      '  n0 -.->|tool_requires| n3',
+    ].join('\n'));
+  });
+
+  test('should render Graphviz DOT with dashed build edges', () => {
+    const dot = renderDot(tree);
+
+    expect(dot.startsWith('digraph dependencies {')).toBe(true);
+    expect(dot).toContain('  "openssl/3.2.1" -> "zlib/1.3.1";');
+    expect(dot).toContain('  "libcurl/8.6.0" -> "cmake/3.28.1" [style=dashed, label="tool_requires"];');
+    expect(dot.endsWith('}')).toBe(true);
+  });
+
+  test('should label unresolved nodes with their declared reference', () => {
+    const unresolved: DependencyNode = {
+      ...tree,
+      dependencies: [{ name: 'missing', reference: 'missing/1.0', kind: 'requires', dependencies: [], error: 'not found' }],
+    };
+
+    expect(renderMermaid(unresolved)).toContain('n1["missing/1.0"]');
+  });
+});
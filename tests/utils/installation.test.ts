@@ -0,0 +1,161 @@
+import { expect, test, describe } from "vitest";
+import { buildInstallationInfo, getCMakeInfo, getComponents, getPkgConfigName } from '../../src/utils/installation.js';
+
+describe('installation utils', () => {
+  const component = (properties: Record<string, string> = {}, extra: Record<string, string[]> = {}) => ({
+    properties,
+    libs: [],
+    system_libs: [],
+    requires: [],
+    ...extra,
+  });
+
+  describe('getCMakeInfo', () => {
+    test('should default to CMakeDeps naming', () => {
+      expect(getCMakeInfo('zlib')).toEqual({
+        file_name: 'zlib',
+        targets: ['zlib::zlib'],
+        component_targets: {},
+      });
+    });
+
+    test('should use explicit file and target names', () => {
+      const result = getCMakeInfo('zlib', {
+        ...component({ cmake_file_name: 'ZLIB', cmake_target_name: 'ZLIB::ZLIB' }),
+        components: {},
+      });
+
+      expect(result.file_name).toBe('ZLIB');
+      expect(result.targets).toEqual(['ZLIB::ZLIB']);
+    });
+
+    test('should name the global target after an explicit file name', () => {
+      const result = getCMakeInfo('zlib', {
+        ...component({ cmake_file_name: 'ZLIB' }),
+        components: {},
+      });
+
+      expect(result.file_name).toBe('ZLIB');
+      expect(result.targets).toEqual(['ZLIB::ZLIB']);
+    });
+
+    test('should link component targets when no global target is declared', () => {
+      const result = getCMakeInfo('openssl', {
+        ...component({ cmake_file_name: 'OpenSSL' }),
+        components: {
+          crypto: component({ cmake_target_name: 'OpenSSL::Crypto' }),
+          ssl: component({ cmake_target_name: 'OpenSSL::SSL' }),
+        },
+      });
+
+      expect(result.file_name).toBe('OpenSSL');
+      expect(result.targets).toEqual(['OpenSSL::Crypto', 'OpenSSL::SSL']);
+      expect(result.component_targets).toEqual({ crypto: 'OpenSSL::Crypto', ssl: 'OpenSSL::SSL' });
+    });
+
+    test('should derive component targets from the namespace', () => {
+      const result = getCMakeInfo('boost', {
+        ...component({ cmake_file_name: 'Boost' }),
+        components: {
+          headers: component({ cmake_target_name: 'Boost::headers' }),
+          filesystem: component(),
+        },
+      });
+
+      expect(result.component_targets).toEqual({ headers: 'Boost::headers', filesystem: 'Boost::filesystem' });
+    });
+  });
+
+  describe('getPkgConfigName', () => {
+    test('should default to PkgConfigDeps naming', () => {
+      expect(getPkgConfigName('openssl')).toBe('openssl');
+      expect(getPkgConfigName('openssl', { ...component(), components: { ssl: component() } }, 'ssl')).toBe('openssl-ssl');
+    });
+
+    test('should use declared pkg_config_name properties', () => {
+      const packageInfo = {
+        ...component({ pkg_config_name: 'openssl' }),
+        components: { ssl: component({ pkg_config_name: 'libssl' }) },
+      };
+
+      expect(getPkgConfigName('openssl', packageInfo)).toBe('openssl');
+      expect(getPkgConfigName('openssl', packageInfo, 'ssl')).toBe('libssl');
+    });
+  });
+
+  describe('getComponents', () => {
+    test('should describe each component with targets and requirements', () => {
+      const result = getComponents('openssl', {
+        ...component({ cmake_file_name: 'OpenSSL' }),
+        components: {
+          crypto: component({ cmake_target_name: 'OpenSSL::Crypto', pkg_config_name: 'libcrypto' }, {
+            libs: ['libcrypto'],
+            system_libs: ['dl', 'pthread'],
+            requires: ['zlib::zlib'],
+          }),
+          ssl: component({ cmake_target_name: 'OpenSSL::SSL' }, { libs: ['libssl'], requires: ['crypto'] }),
+        },
+      });
+
+      expect(result).toEqual([
+        {
+          name: 'crypto',
+          cmake_target: 'OpenSSL::Crypto',
+          pkg_config_name: 'libcrypto',
+          libs: ['libcrypto'],
+          system_libs: ['dl', 'pthread'],
+          requires_components: [],
+          requires_packages: ['zlib::zlib'],
+        },
+        {
+          name: 'ssl',
+          cmake_target: 'OpenSSL::SSL',
+          pkg_config_name: 'openssl-ssl',
+          libs: ['libssl'],
+          system_libs: [],
+          requires_components: ['crypto'],
+          requires_packages: [],
+        },
+      ]);
+    });
+
+    test('should return no components for packages without them', () => {
+      expect(getComponents('zlib')).toEqual([]);
+    });
+  });
+
+  describe('buildInstallationInfo', () => {
+    test('should use Conan 2 syntax by default', () => {
+      const result = buildInstallationInfo('fmt', '10.2.1');
+
+      expect(result.conan).toBe('conan install --requires=fmt/10.2.1');
+      expect(result.conanfile_txt).toBe('[requires]\nfmt/10.2.1\n\n[generators]\nCMakeDeps\nCMakeToolchain');
+      expect(result.conanfile_py).toContain('from conan import ConanFile');
+      expect(result.conanfile_py).toContain('self.requires("fmt/10.2.1")');
+      expect(result.cmake).toBe('find_package(fmt REQUIRED)');
+      expect(result.cmake_targets).toEqual(['fmt::fmt']);
+      expect(result.pkgconfig).toBe('pkg-config --cflags --libs fmt');
+      expect(result.pkgconfig_names).toEqual(['fmt']);
+    });
+
+    test('should use Conan 1 syntax when requested', () => {
+      const result = buildInstallationInfo('fmt', '10.2.1', undefined, 1);
+
+      expect(result.conan).toBe('conan install fmt/10.2.1@');
+      expect(result.conanfile_py).toContain('from conans import ConanFile');
+    });
+
+    test('should list pkg-config names from package_info()', () => {
+      const result = buildInstallationInfo('openssl', '3.2.1', {
+        ...component({ pkg_config_name: 'openssl' }),
+        components: {
+          crypto: component({ pkg_config_name: 'libcrypto' }),
+          ssl: component({ pkg_config_name: 'libssl' }),
+        },
+      });
+
+      expect(result.pkgconfig).toBe('pkg-config --cflags --libs openssl');
+      expect(result.pkgconfig_names).toEqual(['openssl', 'libcrypto', 'libssl']);
+    });
+  });
+});
@@ -0,0 +1,38 @@
+import { expect, test, describe } from "vitest";
+import { buildRecipeHistory, toIsoTimestamp } from '../../src/utils/recipe-history.js';
+
+describe('recipe history utils', () => {
+  test('should normalize Conan server and git timestamps to UTC', () => {
+    expect(toIsoTimestamp('2024-03-02T10:00:00.000+0000')).toBe('2024-03-02T10:00:00.000Z');
+    expect(toIsoTimestamp('2024-03-02T12:00:00+02:00')).toBe('2024-03-02T10:00:00.000Z');
+    expect(toIsoTimestamp('not a date')).toBe('not a date');
+  });
+
+  test('should share folder revisions between the versions they build', () => {
+    const newer = { id: 'b', timestamp: '2024-02-01T00:00:00.000Z' };
+    const older = { id: 'a', timestamp: '2023-01-01T00:00:00.000Z' };
+
+    const history = buildRecipeHistory(
+      { versions: { '1.3.1': { folder: 'all' }, '1.2.13': { folder: 'all' }, '1.0': { folder: 'legacy' } } },
+      new Map([['all', [newer]], ['legacy', [older]]])
+    );
+
+    expect(history).toEqual({
+      created_at: '2023-01-01T00:00:00.000Z',
+      updated_at: '2024-02-01T00:00:00.000Z',
+      revisions: { '1.3.1': [newer], '1.2.13': [newer], '1.0': [older] },
+    });
+  });
+
+  test('should prefer package-wide revisions for the package dates', () => {
+    const history = buildRecipeHistory(
+      { versions: { '1.0': { folder: 'all' } } },
+      new Map(),
+      [{ id: 'c', timestamp: '2024-05-01T00:00:00.000Z' }, { id: 'a', timestamp: '2020-01-01T00:00:00.000Z' }]
+    );
+
+    expect(history.created_at).toBe('2020-01-01T00:00:00.000Z');
+    expect(history.updated_at).toBe('2024-05-01T00:00:00.000Z');
+    expect(history.revisions['1.0']).toEqual([]);
+  });
+});
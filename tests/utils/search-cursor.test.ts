@@ -0,0 +1,24 @@
+import { describe, expect, test } from 'vitest';
+import { decodeSearchCursor, encodeSearchCursor } from '../../src/utils/search-cursor.js';
+
+describe('search cursors', () => {
+  test('should round-trip the offset of the same search', () => {
+    const cursor = encodeSearchCursor(40, 'json', '{"topics":["parser"]}');
+
+    expect(decodeSearchCursor(cursor, 'json', '{"topics":["parser"]}')).toBe(40);
+  });
+
+  test('should reject cursors of another search', () => {
+    const cursor = encodeSearchCursor(20, 'json');
+
+    expect(() => decodeSearchCursor(cursor, 'xml')).toThrow('another query');
+    expect(() => decodeSearchCursor(cursor, 'json', '{"exclude_deprecated":true}')).toThrow('other filters');
+  });
+
+  test('should reject malformed cursors', () => {
+    const forged = Buffer.from(JSON.stringify({ offset: -5, search: 'x' })).toString('base64url');
+
+    expect(() => decodeSearchCursor('%%%', 'json')).toThrow('not a valid search cursor');
+    expect(() => decodeSearchCursor(forged, 'json')).toThrow('not a valid search cursor');
+  });
+});
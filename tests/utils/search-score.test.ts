@@ -0,0 +1,60 @@
+import { expect, test, describe } from "vitest";
+import { compareSearchResults, editDistance, scorePackage } from '../../src/utils/search-score.js';
+
+describe('search-score utils', () => {
+  describe('editDistance', () => {
+    test('should count insertions, deletions and substitutions', () => {
+      expect(editDistance('zlib', 'zlib')).toBe(0);
+      expect(editDistance('zlb', 'zlib')).toBe(1);
+      expect(editDistance('boost', 'bost')).toBe(1);
+      expect(editDistance('fmt', 'spdlog')).toBe(6);
+    });
+
+    test('should count a swap of adjacent letters as one edit', () => {
+      expect(editDistance('libcrul', 'libcurl')).toBe(1);
+    });
+  });
+
+  describe('scorePackage', () => {
+    test('should rank exact, token, prefix and substring matches in that order', () => {
+      expect(scorePackage('json', { name: 'json' })).toBe(100);
+      expect(scorePackage('json', { name: 'nlohmann_json' })).toBe(90);
+      expect(scorePackage('json', { name: 'jsoncpp' })).toBe(80);
+      expect(scorePackage('json', { name: 'rapid-jsonschema' })).toBe(70);
+      expect(scorePackage('curl', { name: 'libcurl' })).toBe(60);
+    });
+
+    test('should tolerate typos in longer queries only', () => {
+      expect(scorePackage('libcrul', { name: 'libcurl' })).toBe(40);
+      expect(scorePackage('openssk', { name: 'openssl' })).toBe(40);
+      expect(scorePackage('fnt', { name: 'fmt' })).toBe(0);
+    });
+
+    test('should match topics and description words', () => {
+      const candidate = { name: 'rapidxml', description: 'A fast XML parser for C++', topics: ['xml', 'parser'] };
+
+      expect(scorePackage('parser', candidate)).toBe(40);
+      expect(scorePackage('fast', candidate)).toBe(30);
+      expect(scorePackage('fast json', candidate)).toBe(8);
+      expect(scorePackage('yaml', candidate)).toBe(0);
+    });
+
+    test('should be case-insensitive and ignore blank queries', () => {
+      expect(scorePackage('OpenSSL', { name: 'openssl' })).toBe(100);
+      expect(scorePackage('   ', { name: 'openssl' })).toBe(0);
+    });
+  });
+
+  describe('compareSearchResults', () => {
+    test('should sort by score, then shorter and alphabetical names', () => {
+      const results = [
+        { name: 'jsoncpp', score: 80 },
+        { name: 'json-c', score: 90 },
+        { name: 'nlohmann_json', score: 90 },
+        { name: 'jsonnet', score: 80 },
+      ].sort(compareSearchResults);
+
+      expect(results.map(result => result.name)).toEqual(['json-c', 'nlohmann_json', 'jsoncpp', 'jsonnet']);
+    });
+  });
+});
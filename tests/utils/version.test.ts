@@ -0,0 +1,184 @@
+import { expect, test, describe } from "vitest";
+import {
+  compareVersions,
+  sortVersions,
+  getLatestVersion,
+  isPrerelease,
+  parseVersion,
+  isVersionRange,
+  satisfiesRange,
+  resolveVersion,
+} from '../../src/utils/version.js';
+
+describe('version utils', () => {
+  describe('parseVersion', () => {
+    test('should split numeric and text items', () => {
+      const parsed = parseVersion('cci.20230101');
+
+      expect(parsed.main).toEqual(['cci', 20230101]);
+    });
+
+    test('should split pre-release and build qualifiers', () => {
+      const parsed = parseVersion('1.2.3-rc.1+build.5');
+
+      expect(parsed.main).toEqual([1, 2, 3]);
+      expect(parsed.pre?.main).toEqual(['rc', 1]);
+      expect(parsed.build?.main).toEqual(['build', 5]);
+    });
+  });
+
+  describe('compareVersions', () => {
+    test('should compare segments numerically', () => {
+      expect(compareVersions('1.10', '1.9')).toBeGreaterThan(0);
+      expect(compareVersions('1.2.10', '1.2.9')).toBeGreaterThan(0);
+      expect(compareVersions('2.0', '10.0')).toBeLessThan(0);
+    });
+
+    test('should support an arbitrary number of segments', () => {
+      expect(compareVersions('1.2.3.4', '1.2.3')).toBeGreaterThan(0);
+      expect(compareVersions('1.2.3.4.5', '1.2.3.4.6')).toBeLessThan(0);
+    });
+
+    test('should ignore trailing zeros', () => {
+      expect(compareVersions('1.2', '1.2.0')).toBe(0);
+      expect(compareVersions('1', '1.0.0')).toBe(0);
+    });
+
+    test('should sort pre-releases before the release', () => {
+      expect(compareVersions('1.0-rc1', '1.0')).toBeLessThan(0);
+      expect(compareVersions('1.0', '1.0-rc1')).toBeGreaterThan(0);
+      expect(compareVersions('1.0-rc1', '1.0-rc2')).toBeLessThan(0);
+      expect(compareVersions('1.0-rc1', '0.9')).toBeGreaterThan(0);
+    });
+
+    test('should keep hyphens inside the pre-release', () => {
+      expect(parseVersion('1.0-rc-1').main).toEqual([1, 0]);
+      expect(parseVersion('1.0-rc-1').pre?.value).toBe('rc-1');
+      expect(compareVersions('1.0-rc-1', '1.0')).toBeLessThan(0);
+      expect(compareVersions('1.0-rc-1', '1.0-rc-2')).toBeLessThan(0);
+    });
+
+    test('should sort build metadata after the plain version', () => {
+      expect(compareVersions('1.0+1', '1.0')).toBeGreaterThan(0);
+      expect(compareVersions('1.0+1', '1.0+2')).toBeLessThan(0);
+    });
+
+    test('should compare text tokens with string semantics', () => {
+      expect(compareVersions('cci.20230101', 'cci.20221231')).toBeGreaterThan(0);
+      expect(compareVersions('cci.20230101', '1.0')).toBeGreaterThan(0);
+    });
+  });
+
+  describe('sortVersions', () => {
+    test('should sort ascending by default', () => {
+      expect(sortVersions(['1.9', '1.10', '1.2.13', '1.10-rc1'])).toEqual(['1.2.13', '1.9', '1.10-rc1', '1.10']);
+    });
+
+    test('should sort descending on request', () => {
+      expect(sortVersions(['1.81.0', '1.83.0', '1.82.0'], 'desc')).toEqual(['1.83.0', '1.82.0', '1.81.0']);
+    });
+
+    test('should not mutate the input', () => {
+      const versions = ['2.0', '1.0'];
+      sortVersions(versions);
+
+      expect(versions).toEqual(['2.0', '1.0']);
+    });
+  });
+
+  describe('getLatestVersion', () => {
+    test('should return the highest version', () => {
+      expect(getLatestVersion(['1.9.0', '1.10.0', '1.2.0'])).toBe('1.10.0');
+    });
+
+    test('should return undefined for an empty list', () => {
+      expect(getLatestVersion([])).toBeUndefined();
+    });
+  });
+
+  describe('isPrerelease', () => {
+    test('should detect pre-release versions', () => {
+      expect(isPrerelease('2.0.0-beta')).toBe(true);
+      expect(isPrerelease('2.0.0')).toBe(false);
+      expect(isPrerelease('2.0.0+build')).toBe(false);
+    });
+  });
+
+  describe('isVersionRange', () => {
+    test('should detect bracketed ranges', () => {
+      expect(isVersionRange('[>=1.2 <2]')).toBe(true);
+      expect(isVersionRange('1.2.3')).toBe(false);
+    });
+  });
+
+  describe('satisfiesRange', () => {
+    test('should apply comparison operators', () => {
+      expect(satisfiesRange('1.5', '[>=1.2 <2]')).toBe(true);
+      expect(satisfiesRange('2.0', '[>=1.2 <2]')).toBe(false);
+      expect(satisfiesRange('1.1', '[>=1.2 <2]')).toBe(false);
+      expect(satisfiesRange('1.2', '[>1.2]')).toBe(false);
+      expect(satisfiesRange('1.2', '[<=1.2]')).toBe(true);
+    });
+
+    test('should treat a bare version as an exact match', () => {
+      expect(satisfiesRange('1.2.0', '[1.2]')).toBe(true);
+      expect(satisfiesRange('1.2.1', '[1.2]')).toBe(false);
+    });
+
+    test('should support tilde ranges', () => {
+      expect(satisfiesRange('1.4.7', '[~1.4]')).toBe(true);
+      expect(satisfiesRange('1.5.0', '[~1.4]')).toBe(false);
+      expect(satisfiesRange('1.9.0', '[~1]')).toBe(true);
+      expect(satisfiesRange('2.0.0', '[~1]')).toBe(false);
+    });
+
+    test('should support caret ranges', () => {
+      expect(satisfiesRange('3.9.1', '[^3.0]')).toBe(true);
+      expect(satisfiesRange('4.0.0', '[^3.0]')).toBe(false);
+      expect(satisfiesRange('0.2.5', '[^0.2.1]')).toBe(true);
+      expect(satisfiesRange('0.3.0', '[^0.2.1]')).toBe(false);
+    });
+
+    test('should support alternatives and wildcards', () => {
+      expect(satisfiesRange('1.1', '[<1.2 || >=3]')).toBe(true);
+      expect(satisfiesRange('2.0', '[<1.2 || >=3]')).toBe(false);
+      expect(satisfiesRange('42.0', '[*]')).toBe(true);
+    });
+
+    test('should exclude pre-releases unless requested', () => {
+      expect(satisfiesRange('1.5-rc1', '[>=1.2 <2]')).toBe(false);
+      expect(satisfiesRange('1.5-rc1', '[>=1.2 <2, include_prerelease]')).toBe(true);
+      expect(satisfiesRange('2.0-rc1', '[>=1.2 <2, include_prerelease]')).toBe(false);
+    });
+  });
+
+  describe('resolveVersion', () => {
+    const available = ['1.1.0', '1.2.0', '1.2.5', '1.2.11', '1.4.2', '2.0.0-rc1', '2.0.0', '3.1.0'];
+
+    test('should resolve latest', () => {
+      expect(resolveVersion('latest', available)).toBe('3.1.0');
+    });
+
+    test('should prefer an exact match', () => {
+      expect(resolveVersion('1.2.5', available)).toBe('1.2.5');
+      expect(resolveVersion('2.0.0-rc1', available)).toBe('2.0.0-rc1');
+    });
+
+    test('should resolve ranges to the highest match', () => {
+      expect(resolveVersion('[>=1.2 <2]', available)).toBe('1.4.2');
+      expect(resolveVersion('[~1.2]', available)).toBe('1.2.11');
+      expect(resolveVersion('[^2.0]', available)).toBe('2.0.0');
+    });
+
+    test('should resolve shortcuts to the newest matching release', () => {
+      expect(resolveVersion('1.2', available)).toBe('1.2.11');
+      expect(resolveVersion('1', available)).toBe('1.4.2');
+      expect(resolveVersion('2', available)).toBe('2.0.0');
+    });
+
+    test('should return undefined when nothing matches', () => {
+      expect(resolveVersion('[>=4]', available)).toBeUndefined();
+      expect(resolveVersion('1.3', available)).toBeUndefined();
+    });
+  });
+});